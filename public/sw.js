@@ -0,0 +1,66 @@
+/**
+ * Service Worker
+ * Keeps the app shell available offline so downloaded tracks can be played
+ * without a connection. Audio itself is cached by the app (see
+ * services/download.service) - this worker only caches the shell and build assets.
+ */
+const SHELL_CACHE = 'music-app-shell-v1';
+const SHELL_URLS = ['/', '/index.html', '/vite.svg'];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then((cache) => cache.addAll(SHELL_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    // Drop shell caches from older versions - the downloads cache is left alone
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(
+                keys
+                    .filter((key) => key.startsWith('music-app-shell-') && key !== SHELL_CACHE)
+                    .map((key) => caches.delete(key))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (url.origin !== self.location.origin) return;
+
+    // Navigations: network first, cached shell when offline (client-side routing handles the path)
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            fetch(request)
+                .then((response) => {
+                    if (response.ok) {
+                        const copy = response.clone();
+                        caches.open(SHELL_CACHE).then((cache) => cache.put('/index.html', copy));
+                    }
+                    return response;
+                })
+                .catch(() => caches.match('/index.html'))
+        );
+        return;
+    }
+
+    // Hashed build assets never change - cache first
+    if (url.pathname.startsWith('/assets/')) {
+        event.respondWith(
+            caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+                if (response.ok) {
+                    const copy = response.clone();
+                    caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+                }
+                return response;
+            }))
+        );
+    }
+});
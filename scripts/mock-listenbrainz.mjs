@@ -0,0 +1,79 @@
+/**
+ * Mock ListenBrainz API for trying out scrobbling locally.
+ *
+ *   npm run mock:listenbrainz            # http://localhost:7878
+ *   PORT=9000 FAIL_RATE=0.5 npm run mock:listenbrainz
+ *
+ * Accepts any token except "invalid". Implements validate-token and
+ * submit-listens and prints every listen it receives. FAIL_RATE answers that
+ * share of submissions with a 503 so the offline queue and retries can be seen.
+ */
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 7878;
+const FAIL_RATE = Number(process.env.FAIL_RATE) || 0;
+
+function send(res, status, body) {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readToken(req) {
+    const match = /^Token\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    return match ? match[1] : null;
+}
+
+const server = createServer((req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const token = readToken(req);
+
+    if (req.method === 'GET' && url.pathname === '/1/validate-token') {
+        const valid = !!token && token !== 'invalid';
+        return send(res, 200, valid
+            ? { code: 200, message: 'Token valid.', valid: true, user_name: 'mock-user' }
+            : { code: 200, message: 'Token invalid.', valid: false });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/1/submit-listens') {
+        if (!token || token === 'invalid') return send(res, 401, { code: 401, error: 'Invalid authorization token.' });
+
+        let raw = '';
+        req.on('data', (chunk) => { raw += chunk; });
+        req.on('end', () => {
+            let body;
+            try {
+                body = JSON.parse(raw);
+            } catch {
+                return send(res, 400, { code: 400, error: 'Cannot parse JSON document.' });
+            }
+            if (!Array.isArray(body.payload) || !body.listen_type) {
+                return send(res, 400, { code: 400, error: 'Invalid JSON document submitted.' });
+            }
+            if (Math.random() < FAIL_RATE) {
+                console.log(`[mock] 503 for ${body.listen_type} (${body.payload.length})`);
+                return send(res, 503, { code: 503, error: 'Service unavailable (simulated).' });
+            }
+
+            for (const listen of body.payload) {
+                const meta = listen.track_metadata ?? {};
+                const at = listen.listened_at ? new Date(listen.listened_at * 1000).toISOString() : 'now';
+                console.log(`[mock] ${body.listen_type.padEnd(11)} ${meta.artist_name} - ${meta.track_name} @ ${at}`);
+            }
+            send(res, 200, { status: 'ok' });
+        });
+        return;
+    }
+
+    send(res, 404, { code: 404, error: 'Not found.' });
+});
+
+server.listen(PORT, () => {
+    console.log(`[mock] ListenBrainz API on http://localhost:${PORT}${FAIL_RATE ? ` (failing ${FAIL_RATE * 100}%)` : ''}`);
+});
@@ -7,6 +7,9 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from './context/AuthContext';
 import { PlayerProvider } from './context/PlayerContext';
 import { AudioAnalyzerProvider } from './context/AudioAnalyzerContext';
+import { ShortcutsProvider } from './context/ShortcutsContext';
+import { EqualizerProvider } from './context/EqualizerContext';
+import { DownloadsProvider } from './context/DownloadsContext';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { Layout } from './components/layout';
 import { ProtectedRoute, AdminRoute } from './components/auth';
@@ -17,6 +20,7 @@ import {
   Register,
   MusicPage,
   Podcasts,
+  PodcastDetail,
   Search,
   Playlists,
   AdminUpload,
@@ -46,46 +50,53 @@ function App() {
         <AuthProvider>
           <PlayerProvider>
             <AudioAnalyzerProvider>
-              <BrowserRouter>
-                <Routes>
-                  {/* Public routes (no auth required) */}
-                  <Route path="/" element={<Landing />} />
-                  <Route path="/login" element={<Login />} />
-                  <Route path="/register" element={<Register />} />
-                  <Route path="/forgot-password" element={<ForgotPassword />} />
-                  <Route path="/reset-password" element={<ResetPassword />} />
-                  <Route path="/verify-email" element={<VerifyEmail />} />
+              <EqualizerProvider>
+                <DownloadsProvider>
+                  <ShortcutsProvider>
+                    <BrowserRouter>
+                      <Routes>
+                        {/* Public routes (no auth required) */}
+                        <Route path="/" element={<Landing />} />
+                        <Route path="/login" element={<Login />} />
+                        <Route path="/register" element={<Register />} />
+                        <Route path="/forgot-password" element={<ForgotPassword />} />
+                        <Route path="/reset-password" element={<ResetPassword />} />
+                        <Route path="/verify-email" element={<VerifyEmail />} />
 
-                  {/* Protected routes (auth required) */}
-                  <Route
-                    element={
-                      <ProtectedRoute>
-                        <Layout />
-                      </ProtectedRoute>
-                    }
-                  >
-                    <Route path="/home" element={<Home />} />
-                    <Route path="/music" element={<MusicPage />} />
-                    <Route path="/podcasts" element={<Podcasts />} />
-                    <Route path="/search" element={<Search />} />
-                    <Route path="/playlists" element={<Playlists />} />
-                    <Route path="/favorites" element={<Favorites />} />
-                    <Route path="/history" element={<History />} />
-                    <Route path="/profile" element={<Profile />} />
-                    <Route path="/settings" element={<Settings />} />
+                        {/* Protected routes (auth required) */}
+                        <Route
+                          element={
+                            <ProtectedRoute>
+                              <Layout />
+                            </ProtectedRoute>
+                          }
+                        >
+                          <Route path="/home" element={<Home />} />
+                          <Route path="/music" element={<MusicPage />} />
+                          <Route path="/podcasts" element={<Podcasts />} />
+                          <Route path="/podcasts/:id" element={<PodcastDetail />} />
+                          <Route path="/search" element={<Search />} />
+                          <Route path="/playlists" element={<Playlists />} />
+                          <Route path="/favorites" element={<Favorites />} />
+                          <Route path="/history" element={<History />} />
+                          <Route path="/profile" element={<Profile />} />
+                          <Route path="/settings" element={<Settings />} />
 
-                    {/* Admin only route */}
-                    <Route
-                      path="/admin"
-                      element={
-                        <AdminRoute>
-                          <AdminUpload />
-                        </AdminRoute>
-                      }
-                    />
-                  </Route>
-                </Routes>
-              </BrowserRouter>
+                          {/* Admin only route */}
+                          <Route
+                            path="/admin"
+                            element={
+                              <AdminRoute>
+                                <AdminUpload />
+                              </AdminRoute>
+                            }
+                          />
+                        </Route>
+                      </Routes>
+                    </BrowserRouter>
+                  </ShortcutsProvider>
+                </DownloadsProvider>
+              </EqualizerProvider>
             </AudioAnalyzerProvider>
           </PlayerProvider>
         </AuthProvider>
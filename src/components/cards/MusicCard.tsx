@@ -6,7 +6,7 @@
  * No overlays cluttering the art - it needs to breathe.
  */
 import { useState, useEffect } from 'react';
-import { Play, Pause, Heart, Plus, ListPlus } from 'lucide-react';
+import { Play, Pause, Heart, ListStart, ListEnd, ListPlus, Radio } from 'lucide-react';
 import { usePlayer } from '../../context/PlayerContext';
 import { getTrackCoverUrl } from '../../utils/trackUtils';
 import { favoritesService } from '../../services/favorites.service';
@@ -21,7 +21,7 @@ interface MusicCardProps {
 }
 
 export function MusicCard({ track, onUnfavorite, onPlaylistUpdate }: MusicCardProps) {
-    const { currentTrack, isPlaying, play, pause, resume, addToQueue } = usePlayer();
+    const { currentTrack, isPlaying, play, pause, resume, addToQueue, playNext, startRadio } = usePlayer();
     const { user } = useAuth();
     const [isHovered, setIsHovered] = useState(false);
     const [showPlaylistSelector, setShowPlaylistSelector] = useState(false);
@@ -75,6 +75,21 @@ export function MusicCard({ track, onUnfavorite, onPlaylistUpdate }: MusicCardPr
         addToQueue(track);
     }
 
+    function handlePlayNext(e: React.MouseEvent) {
+        e.stopPropagation();
+        playNext(track);
+    }
+
+    function handleStartRadio(e: React.MouseEvent) {
+        e.stopPropagation();
+        startRadio({ type: 'track', track });
+    }
+
+    function handleArtistRadio(e: React.MouseEvent) {
+        e.stopPropagation();
+        startRadio({ type: 'artist', artist: track.artist });
+    }
+
     return (
         <div
             className="group relative p-3 rounded-none border border-[var(--color-border)] bg-[var(--color-glass)] backdrop-blur-sm cursor-pointer transition-all duration-300 hover:border-[var(--color-accent-gold)]/50 hover:shadow-[0_0_20px_rgba(212,175,55,0.1)]"
@@ -101,7 +116,7 @@ export function MusicCard({ track, onUnfavorite, onPlaylistUpdate }: MusicCardPr
                 )}
 
                 {/* Overlays - Precision Controls */}
-                <div className={`absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity duration-300 flex items-center justify-center gap-2 ${isHovered || isPlayingThis ? 'opacity-100' : 'opacity-0'}`}>
+                <div className={`absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity duration-300 flex flex-wrap content-center items-center justify-center gap-1.5 p-2 ${isHovered || isPlayingThis ? 'opacity-100' : 'opacity-0'}`}>
                     <button
                         onClick={handleFavoriteClick}
                         disabled={isAddingFavorite}
@@ -126,12 +141,20 @@ export function MusicCard({ track, onUnfavorite, onPlaylistUpdate }: MusicCardPr
                         )}
                     </button>
 
+                    <button
+                        onClick={handlePlayNext}
+                        className="w-8 h-8 border border-[var(--color-border)] text-white flex items-center justify-center hover:border-[var(--color-accent-gold)] hover:text-[var(--color-accent-gold)] transition-colors"
+                        title="Play next"
+                    >
+                        <ListStart size={16} />
+                    </button>
+
                     <button
                         onClick={handleAddToQueue}
                         className="w-8 h-8 border border-[var(--color-border)] text-white flex items-center justify-center hover:border-[var(--color-accent-gold)] hover:text-[var(--color-accent-gold)] transition-colors"
                         title="Add to queue"
                     >
-                        <Plus size={16} />
+                        <ListEnd size={16} />
                     </button>
 
                     <button
@@ -144,6 +167,14 @@ export function MusicCard({ track, onUnfavorite, onPlaylistUpdate }: MusicCardPr
                     >
                         <ListPlus size={16} />
                     </button>
+
+                    <button
+                        onClick={handleStartRadio}
+                        className="w-8 h-8 border border-[var(--color-border)] text-white flex items-center justify-center hover:border-[var(--color-accent-gold)] hover:text-[var(--color-accent-gold)] transition-colors"
+                        title="Start radio"
+                    >
+                        <Radio size={16} />
+                    </button>
                 </div>
 
                 {/* Playlist Selector Modal */}
@@ -166,9 +197,13 @@ export function MusicCard({ track, onUnfavorite, onPlaylistUpdate }: MusicCardPr
                 <h3 className={`font-display font-medium text-sm truncate tracking-wide transition-colors ${isCurrentTrack ? 'text-[var(--color-accent-gold)]' : 'text-[var(--color-text-primary)] group-hover:text-[var(--color-accent-gold)]'}`}>
                     {track.title}
                 </h3>
-                <p className="font-mono text-[10px] uppercase tracking-wider text-[var(--color-text-muted)] group-hover:text-[var(--color-text-secondary)] transition-colors truncate">
+                <button
+                    onClick={handleArtistRadio}
+                    className="block max-w-full font-mono text-[10px] uppercase tracking-wider text-[var(--color-text-muted)] group-hover:text-[var(--color-text-secondary)] hover:!text-[var(--color-accent-gold)] transition-colors truncate"
+                    title={`Start ${track.artist} radio`}
+                >
                     {track.artist}
-                </p>
+                </button>
                 {track.source === 'jamendo' && (
                     <div className="flex items-center gap-1 mt-1">
                         <span className="w-1 h-1 bg-[var(--color-accent-gold)] rounded-full"></span>
@@ -16,6 +16,7 @@ import { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { usePlayer } from '../../context/PlayerContext';
 import { CymaticsVisualizer } from '../ui/CymaticsVisualizer';
+import { RecordClipButton } from '../player/RecordClipButton';
 import { getTrackCoverUrl } from '../../utils/trackUtils';
 import { Play, Pause, SkipBack, SkipForward, X, Volume2 } from 'lucide-react';
 import { naturalSpring, liquidTransition } from '../../lib/motion';
@@ -41,6 +42,7 @@ export function AudioCanvas({ isOpen, onClose }: AudioCanvasProps) {
     const [albumArt, setAlbumArt] = useState<string | null>(null);
     const [dominantColor, setDominantColor] = useState('#0a0a0a');
     const controlsTimeoutRef = useRef<number | null>(null);
+    const visualizerCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
 
     // Get album art and dominant color
@@ -166,7 +168,7 @@ export function AudioCanvas({ isOpen, onClose }: AudioCanvasProps) {
                         style={{ cursor: 'pointer', pointerEvents: 'all' }}
                     >
                         <div className="w-[min(90vh,90vw)] h-[min(90vh,90vw)] opacity-60">
-                            <CymaticsVisualizer mode="sacred" />
+                            <CymaticsVisualizer mode="sacred" particleCount={1500} canvasRef={visualizerCanvasRef} />
                         </div>
                     </div>
 
@@ -256,6 +258,15 @@ export function AudioCanvas({ isOpen, onClose }: AudioCanvasProps) {
                         )}
                     </AnimatePresence>
 
+                    {/* Record Clip - Always Visible, so hiding the controls doesn't end a recording */}
+                    <RecordClipButton
+                        canvasRef={visualizerCanvasRef}
+                        title={trackName}
+                        artist={artistName}
+                        iconSize={18}
+                        className="absolute top-8 right-20 h-10 min-w-10 px-2.5 rounded-full backdrop-blur-xl bg-white/10 border border-white/20 flex items-center justify-center text-[#fafaf5] hover:bg-white/20 transition-colors z-50"
+                    />
+
                     {/* Close Button - Always Visible */}
                     <button
                         onClick={onClose}
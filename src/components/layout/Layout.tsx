@@ -8,9 +8,11 @@ import { Outlet } from 'react-router-dom';
 import { Sidebar } from './Sidebar';
 import { Navbar } from './Navbar';
 import { AudioPlayer } from '../player/AudioPlayer';
+import { RemotePlayerBar } from '../player/RemotePlayerBar';
 import { MoodLight } from '../ui/MoodLight';
 import { FullscreenPlayer } from '../player/FullscreenPlayer';
 import { AudioCanvas } from '../experiences/AudioCanvas';
+import { ShortcutCheatSheet } from '../ui/ShortcutCheatSheet';
 import { Footer } from './Footer';
 import { usePlayer } from '../../context/PlayerContext';
 import { getTrackCoverUrl } from '../../utils/trackUtils';
@@ -97,6 +99,9 @@ export function Layout() {
             {/* Audio Player - Docked at bottom */}
             {hasPlayer && <AudioPlayer />}
 
+            {/* Another tab is playing - control it from here */}
+            <RemotePlayerBar />
+
             {/* 
                 PORTALS & LAYERS 
                 These exist outside the standard flow.
@@ -125,6 +130,9 @@ export function Layout() {
                 isOpen={showAudioCanvas}
                 onClose={() => dispatch({ type: 'TOGGLE_AUDIO_CANVAS' })}
             />
+
+            {/* Keyboard Shortcut Reference - "?" */}
+            <ShortcutCheatSheet />
         </div >
     );
 }
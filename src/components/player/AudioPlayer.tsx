@@ -7,15 +7,21 @@
 import { useState, useRef, useEffect } from 'react';
 import {
     Play, Pause, SkipBack, SkipForward,
-    Shuffle, Repeat, Repeat1, Volume2, VolumeX,
-    Maximize2, ListMusic, Plus,
+    Shuffle, Repeat, Repeat1, Repeat2, Volume2, VolumeX,
+    Maximize2, ListMusic, Plus, SlidersHorizontal,
     Activity
 } from 'lucide-react';
 import { usePlayer } from '../../context/PlayerContext';
+import { useShortcutHandler } from '../../hooks/useShortcuts';
 import { BreathingWaveform } from './BreathingWaveform';
 import { QueuePanel } from './QueuePanel';
 import { PlaylistSelector } from './PlaylistSelector';
-import type { Track, Episode } from '../../types';
+import { SleepTimerButton } from './SleepTimerButton';
+import { PlaybackSpeedButton } from './PlaybackSpeedButton';
+import { LoopButton } from './LoopButton';
+import { DownloadButton } from '../ui/DownloadButton';
+import { EqualizerPanel } from './EqualizerPanel';
+import type { Track, Episode, PlaybackError } from '../../types';
 
 function formatTime(seconds: number): string {
     if (!seconds || isNaN(seconds)) return '00:00';
@@ -24,6 +30,20 @@ function formatTime(seconds: number): string {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 }
 
+const ERROR_LABELS: Record<PlaybackError['kind'], string> = {
+    'network': 'Network_Fault',
+    'decode': 'Decode_Fault',
+    'unsupported': 'Source_Unavailable',
+    'not-allowed': 'Autoplay_Blocked',
+};
+
+function describeErrorStatus(error: PlaybackError): string {
+    if (error.kind === 'not-allowed') return 'Press play';
+    if (error.status === 'retrying') return `Retry ${error.attempt}...`;
+    if (error.status === 'skipping') return 'Skipping...';
+    return 'Halted';
+}
+
 function isTrack(item: Track | Episode): item is Track {
     return 'artist' in item;
 }
@@ -33,6 +53,8 @@ export function AudioPlayer() {
         currentTrack,
         isPlaying,
         progress,
+        duration,
+        playbackRate,
         volume,
         shuffle,
         repeat,
@@ -44,10 +66,15 @@ export function AudioPlayer() {
         toggleShuffle,
         toggleRepeat,
         toggleFullscreen,
+        playbackError,
+        retryPlayback,
     } = usePlayer();
 
     const [showQueue, setShowQueue] = useState(false);
     const [showPlaylistSelector, setShowPlaylistSelector] = useState(false);
+    const [showEqualizer, setShowEqualizer] = useState(false);
+
+    useShortcutHandler('queue', () => setShowQueue(open => !open));
 
     // Resize Logic
     const [width, setWidth] = useState<number>(Math.min(1024, window.innerWidth - 32));
@@ -115,10 +142,25 @@ export function AudioPlayer() {
 
                     {/* Top Bevel / Status Bar */}
                     <div className="h-6 bg-[var(--color-void)] border-b border-[var(--color-border)] flex items-center justify-between px-6 select-none">
-                        <div className="flex items-center gap-2">
-                            <span className="w-1.5 h-1.5 rounded-full bg-[var(--color-accent-gold)] animate-pulse shadow-[0_0_5px_var(--color-accent-gold)]" />
-                            <span className="font-mono text-[9px] text-[var(--color-accent-gold)] uppercase tracking-widest">System_Active</span>
-                        </div>
+                        {playbackError ? (
+                            <div className="flex items-center gap-2">
+                                <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse shadow-[0_0_5px_#ef4444]" />
+                                <span className="font-mono text-[9px] text-red-400 uppercase tracking-widest">
+                                    {ERROR_LABELS[playbackError.kind]} // {describeErrorStatus(playbackError)}
+                                </span>
+                                <button onClick={retryPlayback} className="font-mono text-[9px] text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)] uppercase tracking-widest transition-colors">
+                                    [Retry]
+                                </button>
+                                <button onClick={next} className="font-mono text-[9px] text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)] uppercase tracking-widest transition-colors">
+                                    [Skip]
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <span className="w-1.5 h-1.5 rounded-full bg-[var(--color-accent-gold)] animate-pulse shadow-[0_0_5px_var(--color-accent-gold)]" />
+                                <span className="font-mono text-[9px] text-[var(--color-accent-gold)] uppercase tracking-widest">System_Active</span>
+                            </div>
+                        )}
                         <div className="font-mono text-[9px] text-[var(--color-text-muted)] uppercase tracking-[0.2em]">High-Fidelity Audio Processor // R-700</div>
                     </div>
 
@@ -167,7 +209,7 @@ export function AudioPlayer() {
                                     <SkipForward size={18} />
                                 </button>
                                 <button onClick={toggleRepeat} className={`p-1.5 rounded-sm border ${repeat !== 'none' ? 'border-[var(--color-accent-gold)] text-[var(--color-accent-gold)] shadow-[0_0_5px_rgba(212,175,55,0.3)]' : 'border-[var(--color-border)] text-[var(--color-text-secondary)] hover:border-[var(--color-text-primary)]'}`}>
-                                    {repeat === 'one' ? <Repeat1 size={12} /> : <Repeat size={12} />}
+                                    {repeat === 'one' ? <Repeat1 size={12} /> : repeat === 'ab' ? <Repeat2 size={12} /> : <Repeat size={12} />}
                                 </button>
                             </div>
 
@@ -182,6 +224,10 @@ export function AudioPlayer() {
                                 <div className="absolute right-1 bottom-1 font-mono text-[9px] text-[var(--color-accent-gold)] pointer-events-none">
                                     {formatTime(progress)}
                                 </div>
+                                {/* Time left at the current speed */}
+                                <div className="absolute left-1 bottom-1 font-mono text-[9px] text-[var(--color-text-muted)] pointer-events-none">
+                                    -{formatTime(Math.max(0, duration - progress) / playbackRate)}
+                                </div>
                             </div>
                         </div>
 
@@ -195,6 +241,13 @@ export function AudioPlayer() {
                                 <button onClick={() => setShowPlaylistSelector(true)} className="text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)] transition-colors">
                                     <Plus size={16} />
                                 </button>
+                                <button onClick={() => setShowEqualizer(true)} className={`text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)] transition-colors ${showEqualizer ? 'text-[var(--color-accent-gold)]' : ''}`} title="Equalizer">
+                                    <SlidersHorizontal size={16} />
+                                </button>
+                                <DownloadButton items={[currentTrack]} />
+                                <PlaybackSpeedButton className="text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)]" />
+                                <LoopButton className="text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)]" />
+                                <SleepTimerButton className="text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)]" />
                             </div>
 
                             {/* Volume Fader */}
@@ -238,6 +291,8 @@ export function AudioPlayer() {
                 onClose={() => setShowPlaylistSelector(false)}
                 track={currentTrack as Track}
             />
+
+            <EqualizerPanel isOpen={showEqualizer} onClose={() => setShowEqualizer(false)} />
         </>
     );
 }
@@ -6,6 +6,9 @@
  * 
  * Uses real Web Audio waveform data (time domain) to create an authentic visualization
  * that syncs with the music's natural rhythm.
+ *
+ * Shift+click sets A-B loop point A, Alt+click sets B; the loop shows as a band.
+ * Detected beats push the breath and the playhead.
  */
 
 import { useEffect, useRef } from 'react';
@@ -28,8 +31,8 @@ export function BreathingWaveform({
     showProgress = true,
     className = '',
 }: BreathingWaveformProps) {
-    const { isPlaying, progress, duration, seek } = usePlayer();
-    const { analyzer, isInitialized } = useAudioAnalyzerContext();
+    const { isPlaying, progress, duration, seek, repeat, abLoop, setLoopPoint } = usePlayer();
+    const { analyzer, isInitialized, onBeat } = useAudioAnalyzerContext();
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -41,11 +44,16 @@ export function BreathingWaveform({
     const progressRef = useRef(progress);
     const durationRef = useRef(duration);
     const isPlayingRef = useRef(isPlaying);
+    const loopRef = useRef({ abLoop, active: repeat === 'ab' });
     const waveformBufferRef = useRef<Uint8Array | null>(null);
+    // 1 on a detected beat, decaying towards 0 until the next
+    const beatPulseRef = useRef(0);
 
     useEffect(() => { progressRef.current = progress; }, [progress]);
     useEffect(() => { durationRef.current = duration; }, [duration]);
     useEffect(() => { isPlayingRef.current = isPlaying; }, [isPlaying]);
+    useEffect(() => { loopRef.current = { abLoop, active: repeat === 'ab' }; }, [abLoop, repeat]);
+    useEffect(() => onBeat(() => { beatPulseRef.current = 1; }), [onBeat]);
 
     // Handle click to seek
     const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -59,6 +67,11 @@ export function BreathingWaveform({
         const percent = Math.max(0, Math.min(1, x / rect.width));
         const newTime = percent * currentDuration;
 
+        if (e.shiftKey || e.altKey) {
+            setLoopPoint(e.shiftKey ? 'a' : 'b', newTime);
+            return;
+        }
+
         seek(newTime);
 
         // Create ripple effect at click position
@@ -129,6 +142,10 @@ export function BreathingWaveform({
             }
             const volume = Math.sqrt(sum / waveform.length);
 
+            // Beats give the breath an extra push
+            beatPulseRef.current *= Math.pow(0.85, deltaTime);
+            const beatPulse = beatPulseRef.current;
+
             const width = canvas.width / (window.devicePixelRatio || 1);
             const canvasHeight = canvas.height / (window.devicePixelRatio || 1);
 
@@ -141,7 +158,7 @@ export function BreathingWaveform({
                 // Draw waveform with optimization
                 const sliceWidth = width / waveform.length;
                 const centerY = canvasHeight / 2;
-                const breathScale = 1 + (volume * 1.5); // More breathing in waveform
+                const breathScale = 1 + (volume * 1.5) + (beatPulse * 0.4); // More breathing in waveform
 
                 ctx.beginPath();
                 ctx.strokeStyle = color;
@@ -164,8 +181,8 @@ export function BreathingWaveform({
                 ctx.stroke();
 
                 // Add subtle glow when playing loud
-                if (currentIsPlaying && volume > 0.1) {
-                    ctx.shadowBlur = 4 + (volume * 10);
+                if (currentIsPlaying && (volume > 0.1 || beatPulse > 0.1)) {
+                    ctx.shadowBlur = 4 + (volume * 10) + (beatPulse * 8);
                     ctx.shadowColor = color;
                     ctx.globalAlpha = 0.3;
                     ctx.stroke();
@@ -188,6 +205,28 @@ export function BreathingWaveform({
             const currentDuration = durationRef.current;
             const currentProgress = progressRef.current;
 
+            // A-B loop band (or just the A marker while B isn't set)
+            const { abLoop: loop, active: loopActive } = loopRef.current;
+            if (loop && currentDuration > 0) {
+                const markers = [loop.a, loop.b].filter((t): t is number => t !== null)
+                    .map(t => (t / currentDuration) * width);
+                if (markers.length === 2) {
+                    ctx.fillStyle = color;
+                    ctx.globalAlpha = loopActive ? 0.15 : 0.07;
+                    ctx.fillRect(markers[0], 0, markers[1] - markers[0], canvasHeight);
+                }
+                ctx.strokeStyle = color;
+                ctx.lineWidth = 1;
+                ctx.globalAlpha = 0.7;
+                ctx.beginPath();
+                for (const x of markers) {
+                    ctx.moveTo(x, 0);
+                    ctx.lineTo(x, canvasHeight);
+                }
+                ctx.stroke();
+                ctx.globalAlpha = 1;
+            }
+
             if (showProgress && currentDuration > 0) {
                 const progressX = (currentProgress / currentDuration) * width;
 
@@ -202,7 +241,7 @@ export function BreathingWaveform({
                 ctx.globalAlpha = 1;
 
                 // Playhead dot
-                const dotSize = isHoveringRef.current ? 5 : 3;
+                const dotSize = (isHoveringRef.current ? 5 : 3) + beatPulse * 2;
                 ctx.fillStyle = color;
                 ctx.beginPath();
                 ctx.arc(progressX, canvasHeight / 2, dotSize, 0, Math.PI * 2);
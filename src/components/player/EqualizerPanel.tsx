@@ -0,0 +1,310 @@
+/**
+ * EqualizerPanel - 10-band EQ with shelves, preamp and presets
+ *
+ * The canvas draws the live analyser spectrum with the EQ's frequency
+ * response on top, both on a log frequency axis (20Hz - 20kHz).
+ */
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, SlidersHorizontal, Save, Trash2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useEqualizer } from '../../hooks/useEqualizer';
+import { useAudioAnalyzerContext } from '../../context/AudioAnalyzerContext';
+import { getEqualizerResponse } from '../../lib/audioGraph';
+import { EQ_FREQUENCIES, EQ_GAIN_RANGE, EQ_PRESETS, formatFrequency } from '../../lib/equalizer';
+
+interface EqualizerPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+// Vertical range of the response plot - a few dB beyond one slider so stacked boosts still fit
+const PLOT_DB_RANGE = 18;
+const CANVAS_WIDTH = 560;
+const CANVAS_HEIGHT = 160;
+
+function frequencyToX(frequency: number, width: number): number {
+    return (Math.log10(frequency / MIN_FREQUENCY) / Math.log10(MAX_FREQUENCY / MIN_FREQUENCY)) * width;
+}
+
+function xToFrequency(x: number, width: number): number {
+    return MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, x / width);
+}
+
+interface GainSliderProps {
+    label: string;
+    value: number;
+    onChange: (db: number) => void;
+    disabled: boolean;
+}
+
+function GainSlider({ label, value, onChange, disabled }: GainSliderProps) {
+    return (
+        <div className="flex flex-col items-center gap-2">
+            <span className="font-mono text-[8px] tabular-nums text-[var(--color-text-muted)]">
+                {value > 0 ? '+' : ''}{value.toFixed(1)}
+            </span>
+            <input
+                type="range"
+                min={-EQ_GAIN_RANGE}
+                max={EQ_GAIN_RANGE}
+                step="0.5"
+                value={value}
+                disabled={disabled}
+                onChange={(e) => onChange(parseFloat(e.target.value))}
+                onDoubleClick={() => onChange(0)}
+                className="h-28 w-4 accent-[var(--color-accent-gold)] cursor-pointer disabled:opacity-30"
+                style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                title={`${label} - double-click to reset`}
+            />
+            <span className="font-mono text-[8px] text-[var(--color-text-secondary)] uppercase tracking-wider">
+                {label}
+            </span>
+        </div>
+    );
+}
+
+export function EqualizerPanel({ isOpen, onClose }: EqualizerPanelProps) {
+    const {
+        settings, presetName, customPresets, bypassed,
+        setBand, setPreamp, setBass, setTreble,
+        applyPreset, saveCustomPreset, deleteCustomPreset, setBypassed,
+    } = useEqualizer();
+    const { analyzer } = useAudioAnalyzerContext();
+    const [customName, setCustomName] = useState('');
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    // Latest values for the render loop
+    const bypassedRef = useRef(bypassed);
+    useEffect(() => {
+        bypassedRef.current = bypassed;
+    }, [bypassed]);
+
+    // Handle escape key
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && isOpen) onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isOpen, onClose]);
+
+    // Spectrum + response curve
+    useEffect(() => {
+        if (!isOpen) return;
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const width = canvas.width;
+        const height = canvas.height;
+        const frequencies = new Float32Array(width / 2);
+        for (let i = 0; i < frequencies.length; i++) {
+            frequencies[i] = xToFrequency((i / (frequencies.length - 1)) * width, width);
+        }
+        const spectrum = analyzer ? new Uint8Array(analyzer.frequencyBinCount) : null;
+        const styles = getComputedStyle(canvas);
+        const gold = styles.getPropertyValue('--color-accent-gold').trim() || '#d4af37';
+        const muted = styles.getPropertyValue('--color-border').trim() || '#333';
+
+        let frameId: number;
+        const draw = () => {
+            ctx.clearRect(0, 0, width, height);
+
+            // Grid: 0 dB line and band centres
+            ctx.strokeStyle = muted;
+            ctx.lineWidth = 1;
+            ctx.beginPath();
+            ctx.moveTo(0, height / 2);
+            ctx.lineTo(width, height / 2);
+            for (const frequency of EQ_FREQUENCIES) {
+                const x = Math.round(frequencyToX(frequency, width)) + 0.5;
+                ctx.moveTo(x, 0);
+                ctx.lineTo(x, height);
+            }
+            ctx.stroke();
+
+            // Analyser spectrum
+            if (analyzer && spectrum) {
+                analyzer.getByteFrequencyData(spectrum);
+                const nyquist = analyzer.context.sampleRate / 2;
+                ctx.fillStyle = gold;
+                ctx.globalAlpha = 0.15;
+                for (let x = 0; x < width; x += 2) {
+                    const bin = Math.min(spectrum.length - 1, Math.floor((xToFrequency(x, width) / nyquist) * spectrum.length));
+                    const barHeight = (spectrum[bin] / 255) * height;
+                    ctx.fillRect(x, height - barHeight, 2, barHeight);
+                }
+                ctx.globalAlpha = 1;
+            }
+
+            // EQ response
+            const response = getEqualizerResponse(frequencies);
+            ctx.strokeStyle = gold;
+            ctx.globalAlpha = bypassedRef.current ? 0.3 : 1;
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            for (let i = 0; i < response.length; i++) {
+                const x = (i / (response.length - 1)) * width;
+                const db = Math.max(-PLOT_DB_RANGE, Math.min(PLOT_DB_RANGE, response[i]));
+                const y = height / 2 - (db / PLOT_DB_RANGE) * (height / 2);
+                if (i === 0) ctx.moveTo(x, y);
+                else ctx.lineTo(x, y);
+            }
+            ctx.stroke();
+            ctx.globalAlpha = 1;
+
+            frameId = requestAnimationFrame(draw);
+        };
+
+        frameId = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(frameId);
+    }, [isOpen, analyzer]);
+
+    if (!isOpen) return null;
+
+    const isCustomPreset = !!presetName && !!customPresets[presetName];
+
+    const modalContent = (
+        <AnimatePresence>
+            {isOpen && (
+                <div className="fixed inset-0 z-[9999] flex items-center justify-center pointer-events-none">
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="absolute inset-0 bg-black/80 backdrop-blur-md pointer-events-auto"
+                    />
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.98, y: 10 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.98, y: 10 }}
+                        className="relative w-[95%] max-w-2xl bg-[var(--color-card)] border border-[var(--color-border)] rounded-sm shadow-2xl overflow-hidden pointer-events-auto"
+                    >
+                        {/* Technical Accent Decorators */}
+                        <div className="absolute top-0 right-0 w-2 h-2 border-t border-r border-[var(--color-accent-gold)]/40" />
+                        <div className="absolute bottom-0 left-0 w-2 h-2 border-b border-l border-[var(--color-accent-gold)]/40" />
+
+                        <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border)] bg-[var(--color-void)]/20">
+                            <div className="flex items-center gap-3">
+                                <SlidersHorizontal size={16} className="text-[var(--color-accent-gold)]" />
+                                <div>
+                                    <h2 className="font-display text-sm text-[var(--color-text-primary)] uppercase tracking-[0.1em] font-bold">
+                                        Signal_EQ
+                                    </h2>
+                                    <p className="font-mono text-[8px] text-[var(--color-text-muted)] uppercase tracking-widest mt-0.5">
+                                        10-band // Shelves // Preamp
+                                    </p>
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <button
+                                    onClick={() => setBypassed(!bypassed)}
+                                    className={`px-3 py-1 border font-mono text-[10px] uppercase tracking-wider transition-all ${bypassed
+                                        ? 'border-red-500/50 text-red-400'
+                                        : 'border-[var(--color-accent-gold)] text-[var(--color-accent-gold)]'
+                                        }`}
+                                >
+                                    {bypassed ? 'Bypassed' : 'Active'}
+                                </button>
+                                <button
+                                    onClick={onClose}
+                                    className="p-1 text-[var(--color-text-muted)] hover:text-[var(--color-accent-gold)] transition-colors"
+                                >
+                                    <X size={16} />
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="p-6 space-y-6">
+                            {/* Response over spectrum */}
+                            <canvas
+                                ref={canvasRef}
+                                width={CANVAS_WIDTH}
+                                height={CANVAS_HEIGHT}
+                                className="w-full h-32 border border-[var(--color-border)] bg-[var(--color-void)]"
+                            />
+
+                            {/* Presets */}
+                            <div className="flex flex-wrap items-center gap-2">
+                                <div className="flex items-center border border-[var(--color-border)]">
+                                    <select
+                                        value={presetName ?? ''}
+                                        onChange={(e) => applyPreset(e.target.value)}
+                                        className="bg-transparent text-[var(--color-text-primary)] font-mono text-xs uppercase px-3 py-1.5 focus:outline-none cursor-pointer [&>option]:bg-[var(--color-card)]"
+                                    >
+                                        {!presetName && <option value="">Custom [Edited]</option>}
+                                        {Object.keys(EQ_PRESETS).map(name => (
+                                            <option key={name} value={name}>{name}</option>
+                                        ))}
+                                        {Object.keys(customPresets).map(name => (
+                                            <option key={`custom-${name}`} value={name}>★ {name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {isCustomPreset && (
+                                    <button
+                                        onClick={() => deleteCustomPreset(presetName!)}
+                                        className="p-1.5 border border-[var(--color-border)] text-[var(--color-text-muted)] hover:text-red-400 hover:border-red-500/50 transition-colors"
+                                        title="Delete preset"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                )}
+                                <div className="flex items-center gap-2 ml-auto">
+                                    <input
+                                        type="text"
+                                        value={customName}
+                                        onChange={(e) => setCustomName(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter' && customName.trim()) {
+                                                saveCustomPreset(customName);
+                                                setCustomName('');
+                                            }
+                                        }}
+                                        placeholder="PRESET_NAME"
+                                        maxLength={24}
+                                        className="w-32 bg-[var(--color-void)] border border-[var(--color-border)] px-2 py-1.5 font-mono text-[10px] text-[var(--color-text-primary)] uppercase focus:outline-none focus:border-[var(--color-accent-gold)]"
+                                    />
+                                    <button
+                                        onClick={() => {
+                                            saveCustomPreset(customName);
+                                            setCustomName('');
+                                        }}
+                                        disabled={!customName.trim() || !!EQ_PRESETS[customName.trim()]}
+                                        className="p-1.5 border border-[var(--color-border)] text-[var(--color-text-muted)] hover:text-[var(--color-accent-gold)] hover:border-[var(--color-accent-gold)] transition-colors disabled:opacity-30"
+                                        title="Save current curve"
+                                    >
+                                        <Save size={12} />
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Sliders */}
+                            <div className="flex items-end justify-between gap-1 overflow-x-auto scrollbar-hide">
+                                <GainSlider label="Pre" value={settings.preamp} onChange={setPreamp} disabled={bypassed} />
+                                <div className="w-px self-stretch bg-[var(--color-border)]" />
+                                <GainSlider label="Bass" value={settings.bass} onChange={setBass} disabled={bypassed} />
+                                {EQ_FREQUENCIES.map((frequency, i) => (
+                                    <GainSlider
+                                        key={frequency}
+                                        label={formatFrequency(frequency)}
+                                        value={settings.bands[i]}
+                                        onChange={(db) => setBand(i, db)}
+                                        disabled={bypassed}
+                                    />
+                                ))}
+                                <GainSlider label="Treb" value={settings.treble} onChange={setTreble} disabled={bypassed} />
+                            </div>
+                        </div>
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    );
+
+    return createPortal(modalContent, document.body);
+}
@@ -6,16 +6,22 @@
  * Text is elegant and unobtrusive.
  */
 import { useState, useEffect } from 'react';
-import { Play, Pause, SkipBack, SkipForward, Shuffle, Repeat, Repeat1, Minimize2, Heart, ListMusic, Volume2, Volume1, VolumeX, Eye, EyeOff, Plus } from 'lucide-react';
+import { Play, Pause, SkipBack, SkipForward, Shuffle, Repeat, Repeat1, Repeat2, Minimize2, Heart, ListMusic, Volume2, Volume1, VolumeX, Eye, EyeOff, Plus } from 'lucide-react';
 import { extractDominantColor } from '../../utils/colorExtractor';
 
 import { CymaticsVisualizer, VisualizerToggle } from '../ui/CymaticsVisualizer';
+import type { VisualizerMode } from '../ui/visualizers';
 import { usePlayer } from '../../context/PlayerContext';
 import { BreathingWaveform } from './BreathingWaveform';
 import { favoritesService } from '../../services/favorites.service';
 import { useAuth } from '../../context/AuthContext';
+import { useShortcutHandler } from '../../hooks/useShortcuts';
 import { QueuePanel } from './QueuePanel';
 import { PlaylistSelector } from './PlaylistSelector';
+import { SleepTimerButton } from './SleepTimerButton';
+import { PlaybackSpeedButton } from './PlaybackSpeedButton';
+import { LoopButton } from './LoopButton';
+import { RecordClipButton } from './RecordClipButton';
 import { useRef } from 'react';
 import type { Track } from '../../types';
 
@@ -44,14 +50,14 @@ export function FullscreenPlayer({
         currentTrack,
         pause, resume, next, previous,
         shuffle, toggleShuffle, repeat, toggleRepeat,
-        volume, setVolume
+        volume, setVolume, playbackRate
     } = usePlayer();
     const { user } = useAuth();
 
 
 
     const [themeColor, setThemeColor] = useState('#d4af37'); // Default gold
-    const [visualizerMode, setVisualizerMode] = useState<'chladni' | 'water' | 'sacred' | 'turing' | 'voronoi' | 'hopf'>('sacred');
+    const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>('sacred');
     const [isFavorite, setIsFavorite] = useState(false);
     const [isAddingFavorite, setIsAddingFavorite] = useState(false);
     const [showQueue, setShowQueue] = useState(false);
@@ -67,6 +73,7 @@ export function FullscreenPlayer({
     const startWidth = useRef(0);
     const startHeight = useRef(0);
     const dockRef = useRef<HTMLDivElement>(null);
+    const visualizerCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
     useEffect(() => {
         function handleMouseMove(e: MouseEvent) {
@@ -147,6 +154,10 @@ export function FullscreenPlayer({
             .catch(() => setIsFavorite(false));
     }, [currentTrack?.$id, user?.$id, isVisible]);
 
+    // Take over like/queue shortcuts while visible so this view's state stays in sync
+    useShortcutHandler('like', () => handleFavoriteClick(), isVisible);
+    useShortcutHandler('queue', () => setShowQueue(open => !open), isVisible);
+
     async function handleFavoriteClick() {
         if (!user || !currentTrack || isAddingFavorite) return;
         setIsAddingFavorite(true);
@@ -171,7 +182,7 @@ export function FullscreenPlayer({
             {/* 1. LAYER: VISUALIZER (The Hero) - Always visible, never hidden */}
             <div className="absolute inset-0 z-0">
                 <div className="absolute inset-0">
-                    <CymaticsVisualizer mode={visualizerMode} />
+                    <CymaticsVisualizer mode={visualizerMode} particleCount={1500} canvasRef={visualizerCanvasRef} />
                 </div>
                 {/* Subtle vignette */}
                 <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,transparent_0%,var(--color-void)_100%)] opacity-60" />
@@ -185,6 +196,14 @@ export function FullscreenPlayer({
                 </div>
 
                 <div className="flex items-center gap-3">
+                    {/* Record Clip - the visualizer with the audio, as a video */}
+                    <RecordClipButton
+                        canvasRef={visualizerCanvasRef}
+                        title={trackName || ''}
+                        artist={artistName || ''}
+                        className={`h-12 min-w-12 px-3 rounded-full backdrop-blur-md bg-[var(--color-card)]/5 border border-[var(--color-border)] flex items-center justify-center text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)]/10 transition-all duration-500 ${showUI ? 'opacity-100' : 'opacity-40 hover:opacity-100'}`}
+                    />
+
                     {/* UI Toggle Button - ALWAYS VISIBLE */}
                     <button
                         onClick={(e) => {
@@ -319,7 +338,7 @@ export function FullscreenPlayer({
                                 className={`p-1.5 rounded-sm border ${repeat !== 'none' ? 'border-[var(--color-accent-gold)] text-[var(--color-accent-gold)]' : 'border-transparent text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)]'}`}
                                 title="Repeat"
                             >
-                                {repeat === 'one' ? <Repeat1 size={14} /> : <Repeat size={14} />}
+                                {repeat === 'one' ? <Repeat1 size={14} /> : repeat === 'ab' ? <Repeat2 size={14} /> : <Repeat size={14} />}
                             </button>
 
                             <button onClick={next} className="group p-2">
@@ -356,6 +375,21 @@ export function FullscreenPlayer({
                                 <ListMusic size={16} />
                             </button>
 
+                            {/* Playback Speed */}
+                            <div className="p-2">
+                                <PlaybackSpeedButton className="text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)]" />
+                            </div>
+
+                            {/* A-B Loop */}
+                            <div className="p-2">
+                                <LoopButton className="text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)]" />
+                            </div>
+
+                            {/* Sleep Timer */}
+                            <div className="p-2">
+                                <SleepTimerButton className="text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)]" />
+                            </div>
+
                             {/* Volume Control */}
                             <div className="hidden md:flex items-center gap-2 group/vol pl-4 border-l border-[var(--color-border)]">
                                 <button
@@ -390,7 +424,7 @@ export function FullscreenPlayer({
                             {formatTime(currentTime)}
                         </div>
                         <div className="absolute right-0 -bottom-3 text-[9px] text-[var(--color-text-muted)] font-mono opacity-0 group-hover:opacity-100 transition-opacity uppercase tracking-widest">
-                            {formatTime(duration)}
+                            -{formatTime(Math.max(0, duration - currentTime) / playbackRate)}
                         </div>
                     </div>
 
@@ -0,0 +1,137 @@
+/**
+ * LoopButton - A-B loop control
+ *
+ * Sets the loop points at the current position, clears the loop, and saves it
+ * for the current track. Saved loops are listed so they can be played again later.
+ */
+import { useState, useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { usePlayer } from '../../context/PlayerContext';
+import { loopsService, type SavedLoop } from '../../services';
+
+interface LoopButtonProps {
+    className?: string;
+}
+
+function formatPoint(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    const tenths = Math.floor((seconds % 1) * 10);
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${tenths}`;
+}
+
+function loadLoops(itemId: string | undefined): SavedLoop[] {
+    return itemId ? loopsService.getLoops(itemId) : [];
+}
+
+export function LoopButton({ className = '' }: LoopButtonProps) {
+    const { currentTrack, repeat, abLoop, setLoopPoint, setLoop, clearLoop } = usePlayer();
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Saved loops of the current item - reloaded when the item changes
+    const itemId = currentTrack?.$id;
+    const [savedFor, setSavedFor] = useState(() => ({ itemId, loops: loadLoops(itemId) }));
+    if (savedFor.itemId !== itemId) {
+        setSavedFor({ itemId, loops: loadLoops(itemId) });
+    }
+    const saved = savedFor.loops;
+
+    // Close the menu on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleMouseDown = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleMouseDown);
+        return () => document.removeEventListener('mousedown', handleMouseDown);
+    }, [isOpen]);
+
+    const isLooping = repeat === 'ab';
+    const isSaved = !!abLoop && saved.some(loop => loop.a === abLoop.a && loop.b === abLoop.b);
+
+    const saveLoop = () => {
+        if (!itemId || !abLoop || abLoop.b === null) return;
+        loopsService.saveLoop(itemId, abLoop, `Loop ${saved.length + 1}`);
+        setSavedFor({ itemId, loops: loadLoops(itemId) });
+    };
+
+    const removeLoop = (loopId: string) => {
+        if (!itemId) return;
+        loopsService.removeLoop(itemId, loopId);
+        setSavedFor({ itemId, loops: loadLoops(itemId) });
+    };
+
+    const itemClass = 'w-full px-3 py-1.5 text-left font-mono text-[10px] uppercase tracking-wider transition-colors hover:bg-[var(--color-accent-gold)]/10 hover:text-[var(--color-accent-gold)] disabled:opacity-40 disabled:pointer-events-none';
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className={`font-mono text-[10px] tracking-wider transition-colors ${isLooping || abLoop ? 'text-[var(--color-accent-gold)]' : className}`}
+                title="A-B loop"
+            >
+                A-B
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 4 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 4 }}
+                        className="absolute bottom-full right-0 mb-3 w-48 bg-[var(--color-card)] border border-[var(--color-border)] rounded-sm shadow-2xl z-50 py-1"
+                    >
+                        <p className="px-3 py-1.5 font-mono text-[8px] text-[var(--color-accent-gold)] uppercase tracking-widest border-b border-[var(--color-border)]">
+                            // A-B_Loop {abLoop ? `// ${formatPoint(abLoop.a)} - ${abLoop.b !== null ? formatPoint(abLoop.b) : '?'}` : ''}
+                        </p>
+                        <button onClick={() => setLoopPoint('a')} disabled={!currentTrack} className={`${itemClass} text-[var(--color-text-secondary)]`}>
+                            Set A
+                        </button>
+                        <button onClick={() => setLoopPoint('b')} disabled={!currentTrack} className={`${itemClass} text-[var(--color-text-secondary)]`}>
+                            Set B
+                        </button>
+                        <button onClick={saveLoop} disabled={!isLooping || isSaved} className={`${itemClass} text-[var(--color-text-secondary)]`}>
+                            {isSaved ? 'Saved' : 'Save loop'}
+                        </button>
+                        <button onClick={clearLoop} disabled={!abLoop} className={`${itemClass} text-[var(--color-text-secondary)]`}>
+                            Clear
+                        </button>
+
+                        {saved.length > 0 && (
+                            <div className="border-t border-[var(--color-border)] mt-1 pt-1">
+                                {saved.map(loop => {
+                                    const isCurrent = isLooping && abLoop?.a === loop.a && abLoop?.b === loop.b;
+                                    return (
+                                        <div key={loop.id} className="flex items-center">
+                                            <button
+                                                onClick={() => setLoop({ a: loop.a, b: loop.b })}
+                                                className={`${itemClass} flex-1 ${isCurrent ? 'text-[var(--color-accent-gold)]' : 'text-[var(--color-text-secondary)]'}`}
+                                            >
+                                                {loop.name} <span className="text-[var(--color-text-muted)]">{formatPoint(loop.a)}-{formatPoint(loop.b)}</span>
+                                            </button>
+                                            <button
+                                                onClick={() => removeLoop(loop.id)}
+                                                className="px-2 text-[var(--color-text-muted)] hover:text-red-400 transition-colors"
+                                                title="Delete loop"
+                                            >
+                                                <X size={10} />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        <p className="px-3 pt-1.5 pb-1 font-mono text-[8px] text-[var(--color-text-muted)] uppercase tracking-wider border-t border-[var(--color-border)] mt-1">
+                            Shift/Alt+click the waveform
+                        </p>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
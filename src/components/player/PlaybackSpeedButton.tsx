@@ -0,0 +1,98 @@
+/**
+ * PlaybackSpeedButton - Speed selector
+ *
+ * Shows the current rate ("1.5x") and opens a preset menu. The chosen speed is
+ * remembered for the current podcast show, or for music as a whole. For episodes
+ * the menu also holds the spoken-word modes: skip silence and voice boost.
+ */
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { usePlayer } from '../../context/PlayerContext';
+import { isEpisode } from '../../utils/trackUtils';
+
+const RATE_PRESETS = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+interface PlaybackSpeedButtonProps {
+    className?: string;
+}
+
+export function PlaybackSpeedButton({ className = '' }: PlaybackSpeedButtonProps) {
+    const {
+        currentTrack, playbackRate, setPlaybackRate,
+        skipSilence, voiceBoost, toggleSkipSilence, toggleVoiceBoost,
+    } = usePlayer();
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close the menu on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleMouseDown = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleMouseDown);
+        return () => document.removeEventListener('mousedown', handleMouseDown);
+    }, [isOpen]);
+
+    const episode = !!currentTrack && isEpisode(currentTrack);
+    const scope = episode ? 'This show' : 'All music';
+    const modes = [
+        { label: 'Skip silence', active: skipSilence, toggle: toggleSkipSilence },
+        { label: 'Voice boost', active: voiceBoost, toggle: toggleVoiceBoost },
+    ];
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className={`min-w-[2.5rem] font-mono text-[10px] tabular-nums tracking-wider transition-colors ${playbackRate !== 1 || (episode && (skipSilence || voiceBoost)) ? 'text-[var(--color-accent-gold)]' : className}`}
+                title="Playback speed"
+            >
+                {playbackRate}x
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 4 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 4 }}
+                        className="absolute bottom-full right-0 mb-3 w-36 bg-[var(--color-card)] border border-[var(--color-border)] rounded-sm shadow-2xl z-50 py-1"
+                    >
+                        <p className="px-3 py-1.5 font-mono text-[8px] text-[var(--color-accent-gold)] uppercase tracking-widest border-b border-[var(--color-border)]">
+                            // Speed // {scope}
+                        </p>
+                        {RATE_PRESETS.map(rate => (
+                            <button
+                                key={rate}
+                                onClick={() => {
+                                    setPlaybackRate(rate);
+                                    setIsOpen(false);
+                                }}
+                                className={`w-full px-3 py-1.5 text-left font-mono text-[10px] uppercase tracking-wider transition-colors hover:bg-[var(--color-accent-gold)]/10 hover:text-[var(--color-accent-gold)] ${rate === playbackRate ? 'text-[var(--color-accent-gold)]' : 'text-[var(--color-text-secondary)]'}`}
+                            >
+                                {rate}x
+                            </button>
+                        ))}
+                        {episode && (
+                            <div className="border-t border-[var(--color-border)] mt-1 pt-1">
+                                {modes.map(mode => (
+                                    <button
+                                        key={mode.label}
+                                        onClick={mode.toggle}
+                                        className={`w-full px-3 py-1.5 flex items-center justify-between font-mono text-[10px] uppercase tracking-wider transition-colors hover:bg-[var(--color-accent-gold)]/10 hover:text-[var(--color-accent-gold)] ${mode.active ? 'text-[var(--color-accent-gold)]' : 'text-[var(--color-text-secondary)]'}`}
+                                    >
+                                        {mode.label}
+                                        <span className="text-[8px]">{mode.active ? 'On' : 'Off'}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
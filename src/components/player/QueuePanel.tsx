@@ -19,35 +19,115 @@ function isTrack(item: PlayableItem): item is Track {
     return 'artist' in item;
 }
 
+function getCoverUrl(item: PlayableItem) {
+    if (isTrack(item)) {
+        return getTrackCoverUrl(item, 100, 100);
+    }
+    return null;
+}
+
+function getArtist(item: PlayableItem) {
+    if (isTrack(item)) {
+        return item.artist;
+    }
+    return 'Podcast';
+}
+
+interface QueueListProps {
+    items: PlayableItem[];
+    onReorder: (items: PlayableItem[]) => void;
+    onPlay: (item: PlayableItem) => void;
+    onRemove: (itemId: string) => void;
+}
+
+/**
+ * Drag-to-reorder list for one queue lane
+ */
+function QueueList({ items, onReorder, onPlay, onRemove }: QueueListProps) {
+    return (
+        <Reorder.Group
+            axis="y"
+            values={items}
+            onReorder={onReorder}
+            className="space-y-1"
+        >
+            <AnimatePresence>
+                {items.map((track) => (
+                    <Reorder.Item
+                        key={track.$id}
+                        value={track}
+                        initial={{ opacity: 0, x: 20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: -20 }}
+                        transition={{ duration: 0.2 }}
+                        className="group flex items-center gap-2 p-2 rounded-lg hover:bg-white/5 cursor-pointer transition-colors active:scale-[0.98] select-none"
+                    >
+                        {/* Drag handle */}
+                        <div className="cursor-grab active:cursor-grabbing p-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <GripVertical size={14} className="text-[var(--text-muted)]" />
+                        </div>
+
+                        {/* Album Art */}
+                        <div
+                            className="w-10 h-10 rounded overflow-hidden flex-shrink-0 bg-[var(--bg-surface)]"
+                            onClick={() => onPlay(track)}
+                        >
+                            {getCoverUrl(track) ? (
+                                <img
+                                    src={getCoverUrl(track) || ''}
+                                    alt={track.title}
+                                    className="w-full h-full object-cover"
+                                />
+                            ) : (
+                                <div className="w-full h-full flex items-center justify-center">🎵</div>
+                            )}
+                        </div>
+
+                        {/* Info */}
+                        <div className="flex-1 min-w-0" onClick={() => onPlay(track)}>
+                            <h4 className="text-sm font-medium text-[var(--text-primary)] truncate group-hover:text-[var(--gold)] transition-colors">
+                                {track.title}
+                            </h4>
+                            <p className="text-xs text-[var(--text-muted)] truncate">
+                                {getArtist(track)}
+                            </p>
+                        </div>
+
+                        {/* Actions */}
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onRemove(track.$id);
+                                }}
+                                className="w-8 h-8 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 text-error hover:bg-error/10 transition-all"
+                                title="Remove from queue"
+                            >
+                                <X size={14} />
+                            </button>
+
+                            <button
+                                onClick={() => onPlay(track)}
+                                className="w-8 h-8 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 bg-[var(--gold)] text-black transition-all hover:scale-110"
+                            >
+                                <Play size={12} fill="currentColor" />
+                            </button>
+                        </div>
+                    </Reorder.Item>
+                ))}
+            </AnimatePresence>
+        </Reorder.Group>
+    );
+}
+
 export function QueuePanel({ isOpen, onClose }: QueuePanelProps) {
-    const { queue, currentTrack, play, isPlaying, removeFromQueue, clearQueue, setQueue } = usePlayer();
+    const {
+        queue, nextUp, queueContext, upcoming: upcomingTracks, shuffle, currentTrack, play, isPlaying,
+        removeFromQueue, removeFromNextUp, clearQueue, reorderUpcoming, reorderNextUp,
+    } = usePlayer();
 
     if (!isOpen) return null;
 
-    // Split queue into current and upcoming
-    const currentIdx = queue.findIndex(t => t.$id === currentTrack?.$id);
-    const upcomingTracks = currentIdx >= 0 ? queue.slice(currentIdx + 1) : queue;
-
-    const getCoverUrl = (item: PlayableItem) => {
-        if (isTrack(item)) {
-            return getTrackCoverUrl(item, 100, 100);
-        }
-        return null;
-    };
-
-    const getArtist = (item: PlayableItem) => {
-        if (isTrack(item)) {
-            return item.artist;
-        }
-        return 'Podcast';
-    };
-
-    const handleReorder = (newUpcoming: PlayableItem[]) => {
-        const currentIdx = queue.findIndex(t => t.$id === currentTrack?.$id);
-        const played = currentIdx >= 0 ? queue.slice(0, currentIdx + 1) : [];
-        setQueue([...played, ...newUpcoming]);
-    };
-
     return (
         <div className="fixed right-0 top-0 h-full w-80 bg-[#0a0a0a] border-l border-white/10 z-[100] flex flex-col animate-in slide-in-from-right-full duration-300">
             {/* Header */}
@@ -103,12 +183,12 @@ export function QueuePanel({ isOpen, onClose }: QueuePanelProps) {
             )}
 
             {/* Upcoming */}
-            <div className="flex-1 overflow-y-auto p-4">
-                <div className="flex items-center justify-between mb-3">
+            <div className="flex-1 overflow-y-auto p-4 space-y-6">
+                <div className="flex items-center justify-between">
                     <p className="text-xs text-[var(--text-muted)] uppercase tracking-wider">
-                        Up Next ({upcomingTracks.length})
+                        Up Next ({nextUp.length + upcomingTracks.length}){shuffle && ' · Shuffled'}
                     </p>
-                    {upcomingTracks.length > 0 && (
+                    {(nextUp.length > 0 || upcomingTracks.length > 0) && (
                         <button
                             onClick={clearQueue}
                             className="text-xs text-error hover:underline transition-all"
@@ -118,91 +198,37 @@ export function QueuePanel({ isOpen, onClose }: QueuePanelProps) {
                     )}
                 </div>
 
-                {upcomingTracks.length === 0 ? (
+                {nextUp.length === 0 && upcomingTracks.length === 0 && (
                     <div className="text-center py-8 text-[var(--text-muted)]">
                         <p>No upcoming tracks</p>
                         <p className="text-sm mt-1">Add songs to your queue</p>
                     </div>
-                ) : (
-                    <Reorder.Group
-                        axis="y"
-                        values={upcomingTracks}
-                        onReorder={handleReorder}
-                        className="space-y-1"
-                    >
-                        <AnimatePresence>
-                            {upcomingTracks.map((track) => (
-                                <Reorder.Item
-                                    key={track.$id}
-                                    value={track}
-                                    initial={{ opacity: 0, x: 20 }}
-                                    animate={{ opacity: 1, x: 0 }}
-                                    exit={{ opacity: 0, x: -20 }}
-                                    transition={{ duration: 0.2 }}
-                                    className="group flex items-center gap-2 p-2 rounded-lg hover:bg-white/5 cursor-pointer transition-colors active:scale-[0.98] select-none"
-                                >
-                                    {/* Drag handle */}
-                                    <div className="cursor-grab active:cursor-grabbing p-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                        <GripVertical size={14} className="text-[var(--text-muted)]" />
-                                    </div>
-
-                                    {/* Album Art */}
-                                    <div
-                                        className="w-10 h-10 rounded overflow-hidden flex-shrink-0 bg-[var(--bg-surface)]"
-                                        onClick={() => play(track)}
-                                    >
-                                        {getCoverUrl(track) ? (
-                                            <img
-                                                src={getCoverUrl(track) || ''}
-                                                alt={track.title}
-                                                className="w-full h-full object-cover"
-                                            />
-                                        ) : (
-                                            <div className="w-full h-full flex items-center justify-center">🎵</div>
-                                        )}
-                                    </div>
+                )}
 
-                                    {/* Info */}
-                                    <div className="flex-1 min-w-0" onClick={() => play(track)}>
-                                        <h4 className="text-sm font-medium text-[var(--text-primary)] truncate group-hover:text-[var(--gold)] transition-colors">
-                                            {track.title}
-                                        </h4>
-                                        <p className="text-xs text-[var(--text-muted)] truncate">
-                                            {getArtist(track)}
-                                        </p>
-                                    </div>
+                {/* User lane - plays before the rest of the context */}
+                {nextUp.length > 0 && (
+                    <section>
+                        <p className="text-xs text-[var(--gold)] uppercase tracking-wider mb-2">
+                            Next up
+                        </p>
+                        <QueueList items={nextUp} onReorder={reorderNextUp} onPlay={play} onRemove={removeFromNextUp} />
+                    </section>
+                )}
 
-                                    {/* Actions */}
-                                    <div className="flex items-center gap-1">
-                                        <button
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                removeFromQueue(track.$id);
-                                            }}
-                                            className="w-8 h-8 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 text-error hover:bg-error/10 transition-all"
-                                            title="Remove from queue"
-                                        >
-                                            <X size={14} />
-                                        </button>
-
-                                        <button
-                                            onClick={() => play(track)}
-                                            className="w-8 h-8 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 bg-[var(--gold)] text-black transition-all hover:scale-110"
-                                        >
-                                            <Play size={12} fill="currentColor" />
-                                        </button>
-                                    </div>
-                                </Reorder.Item>
-                            ))}
-                        </AnimatePresence>
-                    </Reorder.Group>
+                {upcomingTracks.length > 0 && (
+                    <section>
+                        <p className="text-xs text-[var(--text-muted)] uppercase tracking-wider mb-2 truncate">
+                            Next from: {queueContext ?? 'Queue'}
+                        </p>
+                        <QueueList items={upcomingTracks} onReorder={reorderUpcoming} onPlay={play} onRemove={removeFromQueue} />
+                    </section>
                 )}
             </div>
 
             {/* Footer */}
             <div className="p-4 border-t border-white/10">
                 <p className="text-xs text-[var(--text-muted)] text-center">
-                    {queue.length} tracks in queue
+                    {queue.length + nextUp.length} tracks in queue
                 </p>
             </div>
         </div>
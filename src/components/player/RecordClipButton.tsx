@@ -0,0 +1,85 @@
+/**
+ * RecordClipButton - Record the visualizer as a video clip
+ *
+ * Records the visualizer canvas with the audio that's playing and a title/artist
+ * overlay, for up to MAX_CLIP_SECONDS. While recording it shows the elapsed time;
+ * clicking again stops early. The clip downloads as WebM when it's done.
+ * Hidden where the browser can't record.
+ */
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { Video, Square } from 'lucide-react';
+import { MAX_CLIP_SECONDS, downloadClip, isClipRecordingSupported, startClipRecording, type ClipRecording } from '../../lib/clipRecorder';
+
+interface RecordClipButtonProps {
+    /** The visualizer canvas - read when recording starts and on every frame */
+    canvasRef: RefObject<HTMLCanvasElement | null>;
+    title: string;
+    artist: string;
+    iconSize?: number;
+    className?: string;
+}
+
+function formatSeconds(seconds: number): string {
+    return `0:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function RecordClipButton({ canvasRef, title, artist, iconSize = 20, className = '' }: RecordClipButtonProps) {
+    const [elapsed, setElapsed] = useState<number | null>(null);
+    const recordingRef = useRef<ClipRecording | null>(null);
+
+    // Leaving the player ends the recording - the clip so far still downloads
+    useEffect(() => () => recordingRef.current?.stop(), []);
+
+    if (!isClipRecordingSupported()) return null;
+
+    const isRecording = elapsed !== null;
+
+    const toggleRecording = () => {
+        if (recordingRef.current) {
+            recordingRef.current.stop();
+            return;
+        }
+
+        const name = [artist, title].filter(Boolean).join(' - ');
+        try {
+            recordingRef.current = startClipRecording(() => canvasRef.current, {
+                overlay: { title: title || 'Untitled', artist },
+                onProgress: setElapsed,
+                onComplete: (clip) => {
+                    recordingRef.current = null;
+                    setElapsed(null);
+                    downloadClip(clip, name);
+                },
+                onError: () => {
+                    recordingRef.current = null;
+                    setElapsed(null);
+                },
+            });
+            setElapsed(0);
+        } catch (error) {
+            console.warn('[RecordClip] Failed to start recording:', error);
+        }
+    };
+
+    return (
+        <button
+            onClick={(e) => {
+                e.stopPropagation();
+                toggleRecording();
+            }}
+            className={className}
+            title={isRecording ? 'Stop recording' : `Record clip (up to ${MAX_CLIP_SECONDS}s)`}
+        >
+            {isRecording ? (
+                <span className="flex items-center gap-1.5 text-red-400">
+                    <Square size={iconSize * 0.6} fill="currentColor" className="animate-pulse" />
+                    <span className="font-mono text-[9px] tabular-nums tracking-wider">
+                        {formatSeconds(elapsed)}/{formatSeconds(MAX_CLIP_SECONDS)}
+                    </span>
+                </span>
+            ) : (
+                <Video size={iconSize} />
+            )}
+        </button>
+    );
+}
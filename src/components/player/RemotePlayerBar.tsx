@@ -0,0 +1,89 @@
+/**
+ * RemotePlayerBar - Controls for a player running in another tab
+ *
+ * Shown while another tab holds playback and this one is idle. Displays what the
+ * other tab is playing and forwards play/pause/skip to it.
+ */
+import { useEffect, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, MonitorSpeaker } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { usePlayer } from '../../context/PlayerContext';
+import { isEpisode } from '../../utils/trackUtils';
+
+function formatTime(seconds: number): string {
+    if (!seconds || isNaN(seconds)) return '00:00';
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+export function RemotePlayerBar() {
+    const { remotePlayback, sendRemoteCommand, currentTrack, isPlaying } = usePlayer();
+    const [now, setNow] = useState(() => Date.now());
+
+    const remoteTrack = remotePlayback?.currentTrack ?? null;
+    const isVisible = !!remoteTrack && !isPlaying;
+
+    // Advance the remote position between updates while it plays
+    useEffect(() => {
+        if (!isVisible || !remotePlayback?.isPlaying) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [isVisible, remotePlayback?.isPlaying]);
+
+    const position = remotePlayback
+        ? Math.min(
+            remotePlayback.duration || Infinity,
+            remotePlayback.progress + (remotePlayback.isPlaying
+                ? Math.max(0, now - remotePlayback.updatedAt) / 1000 * remotePlayback.playbackRate
+                : 0),
+        )
+        : 0;
+
+    const buttonClass = 'p-1.5 text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)] transition-colors';
+
+    return (
+        <AnimatePresence>
+            {isVisible && remotePlayback && remoteTrack && (
+                <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 10 }}
+                    // Sit above the local player when one is docked
+                    className={`fixed left-1/2 -translate-x-1/2 z-[100] w-[min(480px,calc(100vw-32px))] flex items-center gap-3 px-4 py-2 bg-[var(--color-card)] border border-[var(--color-border)] rounded-sm shadow-2xl ${currentTrack ? 'bottom-[136px]' : 'bottom-4'}`}
+                >
+                    <MonitorSpeaker size={16} className="shrink-0 text-[var(--color-accent-gold)]" />
+                    <div className="flex-1 min-w-0">
+                        <p className="font-mono text-[8px] text-[var(--color-accent-gold)] uppercase tracking-widest">
+                            // Playing in another tab
+                        </p>
+                        <p className="font-mono text-xs text-[var(--color-text-primary)] truncate">
+                            {remoteTrack.title}
+                            <span className="text-[var(--color-text-muted)]">
+                                {' '}// {isEpisode(remoteTrack) ? 'Podcast' : remoteTrack.artist}
+                            </span>
+                        </p>
+                    </div>
+                    <span className="font-mono text-[9px] tabular-nums text-[var(--color-text-muted)]">
+                        {formatTime(position)}
+                    </span>
+                    <div className="flex items-center">
+                        <button onClick={() => sendRemoteCommand('previous')} className={buttonClass} title="Previous">
+                            <SkipBack size={14} />
+                        </button>
+                        <button
+                            onClick={() => sendRemoteCommand(remotePlayback.isPlaying ? 'pause' : 'play')}
+                            className={buttonClass}
+                            title={remotePlayback.isPlaying ? 'Pause' : 'Play'}
+                        >
+                            {remotePlayback.isPlaying ? <Pause size={14} /> : <Play size={14} />}
+                        </button>
+                        <button onClick={() => sendRemoteCommand('next')} className={buttonClass} title="Next">
+                            <SkipForward size={14} />
+                        </button>
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,129 @@
+/**
+ * SleepTimerButton - Sleep timer control & countdown
+ *
+ * Moon button with a preset menu. While a timer is set it shows what's left:
+ * a mm:ss countdown for minute timers, the item count for track timers.
+ */
+import { useState, useEffect, useRef } from 'react';
+import { Moon } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { usePlayer } from '../../context/PlayerContext';
+import type { SleepTimer } from '../../types';
+
+const MINUTE_PRESETS = [5, 10, 15, 30, 45, 60, 90, 120];
+const TRACK_PRESETS = [2, 3, 5];
+
+interface SleepTimerButtonProps {
+    iconSize?: number;
+    className?: string;
+}
+
+function formatCountdown(ms: number): string {
+    const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const mins = Math.floor((totalSeconds % 3600) / 60);
+    const secs = totalSeconds % 60;
+    const mmss = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+function describeTimer(timer: SleepTimer, now: number): string {
+    if (timer.mode === 'minutes') return formatCountdown(timer.endsAt - now);
+    return timer.remaining <= 1 ? 'END' : `${timer.remaining} TRK`;
+}
+
+export function SleepTimerButton({ iconSize = 16, className = '' }: SleepTimerButtonProps) {
+    const { sleepTimer, setSleepTimer } = usePlayer();
+    const [isOpen, setIsOpen] = useState(false);
+    const [now, setNow] = useState(() => Date.now());
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Tick the countdown once a second while a minute timer runs
+    useEffect(() => {
+        if (sleepTimer?.mode !== 'minutes') return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [sleepTimer?.mode]);
+
+    // Close the menu on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleMouseDown = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleMouseDown);
+        return () => document.removeEventListener('mousedown', handleMouseDown);
+    }, [isOpen]);
+
+    const choose = (timer: SleepTimer | null) => {
+        setNow(Date.now());
+        setSleepTimer(timer);
+        setIsOpen(false);
+    };
+
+    const optionClass = 'w-full px-3 py-1.5 text-left font-mono text-[10px] uppercase tracking-wider text-[var(--color-text-secondary)] hover:bg-[var(--color-accent-gold)]/10 hover:text-[var(--color-accent-gold)] transition-colors';
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className={`flex items-center gap-1 transition-colors ${sleepTimer ? 'text-[var(--color-accent-gold)]' : className}`}
+                title="Sleep timer"
+            >
+                <Moon size={iconSize} fill={sleepTimer ? 'currentColor' : 'none'} />
+                {sleepTimer && (
+                    <span className="font-mono text-[9px] tabular-nums tracking-wider">
+                        {describeTimer(sleepTimer, now)}
+                    </span>
+                )}
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 4 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 4 }}
+                        className="absolute bottom-full right-0 mb-3 w-44 max-h-72 overflow-y-auto scrollbar-hide bg-[var(--color-card)] border border-[var(--color-border)] rounded-sm shadow-2xl z-50 py-1"
+                    >
+                        <p className="px-3 py-1.5 font-mono text-[8px] text-[var(--color-accent-gold)] uppercase tracking-widest border-b border-[var(--color-border)]">
+                            // Sleep_Timer
+                        </p>
+                        {MINUTE_PRESETS.map(minutes => (
+                            <button
+                                key={minutes}
+                                onClick={() => choose({ mode: 'minutes', endsAt: Date.now() + minutes * 60_000 })}
+                                className={optionClass}
+                            >
+                                {minutes} MIN
+                            </button>
+                        ))}
+                        <div className="my-1 border-t border-[var(--color-border)]" />
+                        <button onClick={() => choose({ mode: 'tracks', remaining: 1 })} className={optionClass}>
+                            End of track
+                        </button>
+                        {TRACK_PRESETS.map(count => (
+                            <button
+                                key={count}
+                                onClick={() => choose({ mode: 'tracks', remaining: count })}
+                                className={optionClass}
+                            >
+                                After {count} tracks
+                            </button>
+                        ))}
+                        {sleepTimer && (
+                            <>
+                                <div className="my-1 border-t border-[var(--color-border)]" />
+                                <button onClick={() => choose(null)} className={`${optionClass} text-red-400`}>
+                                    Cancel timer
+                                </button>
+                            </>
+                        )}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
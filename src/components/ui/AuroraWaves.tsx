@@ -2,9 +2,12 @@
  * AuroraWaves Component
  * 5-layer aurora effect with bass-reactive colors and twinkling stars.
  * Based on music-player-frontend's AuroraWaves.jsx
+ *
+ * Resolution, wave detail, layers and stars follow the quality governor.
  */
 
 import { useRef, useEffect } from 'react';
+import { getVisualQuality, runFrameLoop, subscribeToVisualQuality } from '../../lib/qualityGovernor';
 
 interface AuroraWavesProps {
     /** Web Audio analyser node for audio reactivity */
@@ -26,24 +29,29 @@ export function AuroraWaves({ analyser, isPlaying = false, className = '' }: Aur
         if (!ctx) return;
 
         let time = 0;
-        let animationId: number | null = null;
+        let pixelRatio = getVisualQuality().pixelRatio;
         const frequencyData = analyser ? new Uint8Array(analyser.frequencyBinCount) : null;
 
         const resize = () => {
-            const dpr = window.devicePixelRatio || 1;
-            canvas.width = window.innerWidth * dpr;
-            canvas.height = window.innerHeight * dpr;
+            pixelRatio = getVisualQuality().pixelRatio;
+            canvas.width = window.innerWidth * pixelRatio;
+            canvas.height = window.innerHeight * pixelRatio;
             canvas.style.width = `${window.innerWidth}px`;
             canvas.style.height = `${window.innerHeight}px`;
-            ctx.scale(dpr, dpr);
+            ctx.scale(pixelRatio, pixelRatio);
         };
 
         resize();
         window.addEventListener('resize', resize);
+        const unsubscribeQuality = subscribeToVisualQuality(resize);
 
-        const animate = () => {
-            const width = canvas.width / (window.devicePixelRatio || 1);
-            const height = canvas.height / (window.devicePixelRatio || 1);
+        const stopLoop = runFrameLoop((_time, quality) => {
+            const width = canvas.width / pixelRatio;
+            const height = canvas.height / pixelRatio;
+            // Coarser waves, fewer layers and stars at lower tiers
+            const waveStep = Math.round(3 / quality.detail);
+            const layers = quality.effects ? 5 : 3;
+            const starCount = Math.round(40 * quality.detail);
 
             // Forest-at-dusk gradient background
             const gradientBg = ctx.createLinearGradient(0, 0, 0, height);
@@ -69,7 +77,7 @@ export function AuroraWaves({ analyser, isPlaying = false, className = '' }: Aur
             }
 
             // 5 Aurora layers
-            for (let layer = 0; layer < 5; layer++) {
+            for (let layer = 0; layer < layers; layer++) {
                 const speed = 0.3 + layer * 0.2;
                 const yOffset = ((time * speed) % height) - 100;
 
@@ -95,7 +103,7 @@ export function AuroraWaves({ analyser, isPlaying = false, className = '' }: Aur
                 ctx.moveTo(0, yOffset + 80);
 
                 // Smooth aurora waves
-                for (let x = 0; x < width; x += 3) {
+                for (let x = 0; x < width; x += waveStep) {
                     const wave1 = Math.sin((x * 0.003 + time * 0.02 + layer) * 0.7) * 35;
                     const wave2 = Math.sin((x * 0.007 - time * 0.015 + layer * 2) * 1.3) * 20;
                     const wave3 = Math.sin((x * 0.012 + time * 0.01 + layer * 3) * 2.1) * 12;
@@ -114,7 +122,7 @@ export function AuroraWaves({ analyser, isPlaying = false, className = '' }: Aur
 
             // Subtle stars
             ctx.fillStyle = 'rgba(250, 250, 245, 0.6)';
-            for (let i = 0; i < 40; i++) {
+            for (let i = 0; i < starCount; i++) {
                 const x = ((time * 0.3 + i * 137.5) % width);
                 const y = (i * 73.9) % height;
                 const size = 0.8 + Math.sin(time * 0.05 + i) * 0.3;
@@ -125,13 +133,11 @@ export function AuroraWaves({ analyser, isPlaying = false, className = '' }: Aur
             }
 
             time += 0.5;
-            animationId = requestAnimationFrame(animate);
-        };
-
-        animate();
+        });
 
         return () => {
-            if (animationId) cancelAnimationFrame(animationId);
+            stopLoop();
+            unsubscribeQuality();
             window.removeEventListener('resize', resize);
         };
     }, [analyser, isPlaying]);
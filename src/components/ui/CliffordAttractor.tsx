@@ -1,4 +1,5 @@
 import { useEffect, useRef } from 'react';
+import { runFrameLoop } from '../../lib/qualityGovernor';
 
 /**
  * CliffordAttractor - A visualization of mathematical chaos
@@ -8,6 +9,7 @@ import { useEffect, useRef } from 'react';
  * y_n+1 = sin(b * x_n) + d * cos(b * y_n)
  * 
  * Creates a premium, silk-like texture through millions of iterations.
+ * Iterations per frame and the golden layer follow the quality governor.
  */
 export const CliffordAttractor = () => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -21,7 +23,6 @@ export const CliffordAttractor = () => {
 
         let width = canvas.offsetWidth;
         let height = canvas.offsetHeight;
-        let animationFrameId: number;
 
         // Configuration
         const ITERATIONS_PER_FRAME = 30000; // High count for density
@@ -65,8 +66,8 @@ export const CliffordAttractor = () => {
         canvas.addEventListener('mousemove', handleMouseMove);
         handleResize();
 
-        const draw = () => {
-            if (!ctx) return;
+        const stopLoop = runFrameLoop((_time, quality) => {
+            const iterations = Math.round(ITERATIONS_PER_FRAME * quality.detail);
 
             // 1. Fade out (Trail effect)
             // Instead of clearing, we draw a semi-transparent black rectangle
@@ -107,7 +108,7 @@ export const CliffordAttractor = () => {
 
             ctx.fillStyle = 'rgba(100, 200, 255, 0.03)'; // Very faint Cyan/Blue
 
-            for (let i = 0; i < ITERATIONS_PER_FRAME; i++) {
+            for (let i = 0; i < iterations; i++) {
                 // Clifford Attractor Equations
                 const xn = Math.sin(a * y) + c * Math.cos(a * x);
                 const yn = Math.sin(b * x) + d * Math.cos(b * y);
@@ -126,7 +127,8 @@ export const CliffordAttractor = () => {
             // Add a "Golden" layer for contrast (optional, fewer iterations)
             ctx.fillStyle = 'rgba(255, 200, 100, 0.03)'; // Faint Gold
             let gx = x, gy = y;
-            for (let i = 0; i < ITERATIONS_PER_FRAME / 3; i++) {
+            const goldenIterations = quality.effects ? iterations / 3 : 0;
+            for (let i = 0; i < goldenIterations; i++) {
 
                 const gxn = Math.sin(a * gy) + c * Math.cos(a * gx);
                 const gyn = Math.sin(b * gx) + (d + 0.05) * Math.cos(b * gy);
@@ -139,16 +141,12 @@ export const CliffordAttractor = () => {
             }
 
             ctx.globalCompositeOperation = 'source-over'; // Reset
-
-            animationFrameId = requestAnimationFrame(draw);
-        };
-
-        draw();
+        });
 
         return () => {
             resizeObserver.disconnect();
             canvas.removeEventListener('mousemove', handleMouseMove);
-            cancelAnimationFrame(animationFrameId);
+            stopLoop();
         };
     }, []);
 
@@ -1,191 +1,192 @@
 /**
  * Organic Cymatics Visualizer - True Sound Geometry
+ *
+ * Particles kick on detected beats once the tempo has locked on, and follow raw
+ * bass energy until then.
+ *
+ * Visualizers come from the registry in ./visualizers - the canvas runs the shared
+ * particle physics and the toggle lists whatever is registered.
+ *
+ * The simulation runs in a worker on an OffscreenCanvas where the browser allows,
+ * so larger particle counts don't compete with React. Otherwise it runs here.
+ * Particle count, resolution and the glow follow the quality governor.
  */
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState, useSyncExternalStore, type RefObject } from 'react';
 import { useAudioAnalyzerContext } from '../../context/AudioAnalyzerContext';
 import { usePlayer } from '../../context/PlayerContext';
-import { Lightbulb, Waves, Sparkles, Dna, Hexagon, Orbit } from 'lucide-react';
+import { MIN_BEAT_CONFIDENCE } from '../../lib/beatTracker';
+import { getVisualQuality, runFrameLoop, subscribeToVisualQuality } from '../../lib/qualityGovernor';
+import { useVisualQuality } from '../../hooks/useVisualQuality';
+import { SlidersHorizontal } from 'lucide-react';
 import {
-    type Particle,
+    type CymaticsRenderer,
     type VisualizerMode,
-    updateParticle,
-    getParticleColor
-} from './visualizers/particleRenderers';
+    type VisualizerSetting,
+    createCymaticsRenderer,
+    createOffscreenCymatics,
+    getVisualizer,
+    getVisualizers,
+    getVisualizerSettings,
+    setVisualizerSetting,
+    subscribeToVisualizers,
+    subscribeToVisualizerSettings,
+    supportsOffscreenCymatics,
+} from './visualizers';
 
 interface CymaticsVisualizerProps {
     mode?: VisualizerMode;
     className?: string;
+    /** Particles to simulate - capped on the main thread, where they compete with React */
+    particleCount?: number;
+    /** Receives the current canvas - it's replaced when the renderer is, so read it when needed */
+    canvasRef?: RefObject<HTMLCanvasElement | null>;
 }
 
 const PARTICLE_COUNT = 600;
-const PARTICLE_SIZE_MULTIPLIER = 1.2;
+const MAIN_THREAD_PARTICLE_LIMIT = 600;
+const MIN_PARTICLE_COUNT = 100;
+// Share of each frame's beat pulse that survives to the next (at 60fps)
+const BEAT_DECAY = 0.88;
 
 export function CymaticsVisualizer({
     mode = 'chladni',
-    className = ''
+    className = '',
+    particleCount = PARTICLE_COUNT,
+    canvasRef
 }: CymaticsVisualizerProps) {
     const { isPlaying } = usePlayer();
-    const { analyzer, isInitialized, getFrequencyData } = useAudioAnalyzerContext();
+    const { analyzer, isInitialized, getFrequencyData, onBeat } = useAudioAnalyzerContext();
 
-    const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
-    const particlesRef = useRef<Particle[]>([]);
-    const animationFrameRef = useRef<number | null>(null);
-    const canvasSizeRef = useRef({ width: 800, height: 100 });
+    const rendererRef = useRef<CymaticsRenderer | null>(null);
+    const modeRef = useRef(mode);
+    // 1 on a beat, decaying towards 0 until the next
+    const beatPulseRef = useRef(0);
+
+    // Drawing moves to a worker where supported. Visualizers registered outside the
+    // worker's built-ins (and a worker that fails) are drawn on the main thread.
+    const [workerFailed, setWorkerFailed] = useState(false);
+    const [workerModes, setWorkerModes] = useState<VisualizerMode[] | null>(null);
+    const visualizerId = getVisualizer(mode)?.id;
+    const offscreen = supportsOffscreenCymatics && !workerFailed &&
+        (workerModes === null || (visualizerId !== undefined && workerModes.includes(visualizerId)));
+
+    // Particle counts follow the quality tier - the running simulation grows or shrinks
+    const { detail } = useVisualQuality();
+    const particles = Math.max(
+        MIN_PARTICLE_COUNT,
+        Math.round((offscreen ? particleCount : Math.min(particleCount, MAIN_THREAD_PARTICLE_LIMIT)) * detail)
+    );
+    const particlesRef = useRef(particles);
+
+    useEffect(() => {
+        particlesRef.current = particles;
+        rendererRef.current?.setParticleCount(particles);
+    }, [particles]);
+
+    useEffect(() => onBeat(() => {
+        beatPulseRef.current = 1;
+    }), [onBeat]);
+
+    // Mode (and its settings) for the current renderer
+    useEffect(() => {
+        modeRef.current = mode;
+        rendererRef.current?.setMode(mode, getVisualizerSettings(getVisualizer(mode)?.id ?? mode));
+    }, [mode]);
 
-    // Handle canvas resize
+    // Create the canvas and its renderer. The canvas is made here rather than in JSX:
+    // once handed to a worker it can't be reused, so every renderer gets a fresh one.
     useEffect(() => {
-        const canvas = canvasRef.current;
         const container = containerRef.current;
-        if (!canvas || !container) return;
+        if (!container) return;
+
+        const canvas = document.createElement('canvas');
+        canvas.className = 'w-full h-full';
+        canvas.style.display = 'block';
+        canvas.style.imageRendering = 'auto';
+        container.prepend(canvas);
+
+        const renderer = offscreen
+            ? createOffscreenCymatics(canvas, particlesRef.current, {
+                onReady: setWorkerModes,
+                onError: (error) => {
+                    console.warn('[CymaticsVisualizer] Worker failed, drawing on the main thread:', error);
+                    setWorkerFailed(true);
+                },
+            })
+            : createCymaticsRenderer(canvas, particlesRef.current);
+        if (!renderer) {
+            canvas.remove();
+            return;
+        }
+        rendererRef.current = renderer;
+        if (canvasRef) canvasRef.current = canvas;
+
+        const syncMode = () => {
+            const current = modeRef.current;
+            renderer.setMode(current, getVisualizerSettings(getVisualizer(current)?.id ?? current));
+        };
+        syncMode();
+        const unsubscribeSettings = subscribeToVisualizerSettings(syncMode);
 
+        // Handle canvas resize
         const updateCanvasSize = () => {
             const rect = container.getBoundingClientRect();
             const width = Math.max(300, rect.width);
             const height = Math.max(80, rect.height);
-
-            const devicePixelRatio = window.devicePixelRatio || 1;
-            canvas.width = width * devicePixelRatio;
-            canvas.height = height * devicePixelRatio;
-
             canvas.style.width = `${width}px`;
             canvas.style.height = `${height}px`;
-
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                ctx.scale(devicePixelRatio, devicePixelRatio);
-            }
-
-            canvasSizeRef.current = { width, height };
-
-            // Only initialize particles if they don't exist yet
-            if (particlesRef.current.length === 0) {
-                particlesRef.current = Array.from({ length: PARTICLE_COUNT }, () => ({
-                    x: Math.random() * width,
-                    y: Math.random() * height,
-                    vx: 0,
-                    vy: 0,
-                    targetX: width / 2,
-                    targetY: height / 2,
-                    life: Math.random(),
-                }));
-            } else {
-                // Scale existing particles to new canvas size
-                const currentWidth = canvasSizeRef.current.width;
-
-                particlesRef.current.forEach(p => {
-                    p.targetX = currentWidth / 2;
-                    p.targetY = canvasSizeRef.current.height / 2;
-                });
-            }
+            renderer.resize(width, height, getVisualQuality().pixelRatio);
         };
-
         updateCanvasSize();
         window.addEventListener('resize', updateCanvasSize);
-        return () => window.removeEventListener('resize', updateCanvasSize);
-    }, []);
+        const unsubscribeQuality = subscribeToVisualQuality(updateCanvasSize);
 
-    // Animation loop
-    useEffect(() => {
-        const canvas = canvasRef.current;
-        if (!canvas || !analyzer || !isInitialized) return;
+        return () => {
+            window.removeEventListener('resize', updateCanvasSize);
+            unsubscribeQuality();
+            unsubscribeSettings();
+            renderer.dispose();
+            rendererRef.current = null;
+            if (canvasRef?.current === canvas) canvasRef.current = null;
+            canvas.remove();
+        };
+    }, [offscreen, canvasRef]);
 
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
+    // Animation loop - polls the analysis and hands it to the renderer
+    useEffect(() => {
+        if (!analyzer || !isInitialized) return;
 
         let lastTime = performance.now();
 
-        const animate = (currentTime: number) => {
+        return runFrameLoop((currentTime, quality) => {
             const deltaTime = Math.min((currentTime - lastTime) / 16.67, 2);
             lastTime = currentTime;
 
             // 1. POLL PRE-CALCULATED DATA
             const audioData = getFrequencyData();
-            if (!audioData) {
-                animationFrameRef.current = requestAnimationFrame(animate);
-                return;
-            }
-
-            const { volume, bassEnergy, midEnergy, trebleEnergy } = audioData;
-
-            // Optimization: If silent, skip complex drawing
-            if (volume === 0 && !isPlaying) {
-                ctx.fillStyle = 'rgba(10, 10, 10, 0.2)';
-                ctx.fillRect(0, 0, canvasSizeRef.current.width, canvasSizeRef.current.height);
-                animationFrameRef.current = requestAnimationFrame(animate);
-                return;
-            }
-
-            const width = canvasSizeRef.current.width;
-            const height = canvasSizeRef.current.height;
-
-            ctx.fillStyle = 'rgba(10, 10, 10, 0.08)';
-            ctx.fillRect(0, 0, width, height);
-
-            const particles = particlesRef.current;
-            const centerX = width / 2;
-            const centerY = height / 2;
-
-            particles.forEach((particle, index) => {
-                // Update physics and position via module
-                updateParticle({
-                    particle,
-                    index,
-                    totalParticles: particles.length,
-                    width,
-                    height,
-                    centerX,
-                    centerY,
-                    mode,
-                    audioData,
-                    time: currentTime,
-                    deltaTime
-                });
-
-                // Render
-                const alpha = particle.life * (0.3 + volume * 0.7);
-                const size = PARTICLE_SIZE_MULTIPLIER + volume * 1.5;
-
-                const rgb = getParticleColor(mode, { bass: bassEnergy, mid: midEnergy, treble: trebleEnergy });
-
-                ctx.fillStyle = `rgba(${rgb}, ${alpha})`;
-                ctx.beginPath();
-                ctx.arc(particle.x, particle.y, size, 0, Math.PI * 2);
-                ctx.fill();
+            if (!audioData) return;
+
+            // Locked on: the beat pulse drives the physics in place of raw bass energy
+            beatPulseRef.current *= Math.pow(BEAT_DECAY, deltaTime);
+            const beatLocked = audioData.bpm !== null && audioData.beatConfidence >= MIN_BEAT_CONFIDENCE;
+
+            rendererRef.current?.draw({
+                bassEnergy: beatLocked
+                    ? Math.min(1, audioData.bassEnergy * 0.4 + beatPulseRef.current * 0.6)
+                    : audioData.bassEnergy,
+                midEnergy: audioData.midEnergy,
+                trebleEnergy: audioData.trebleEnergy,
+                volume: audioData.volume,
+                isPlaying,
+                effects: quality.effects,
             });
-
-            if (volume > 0.4) {
-                const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, 150 * volume);
-                gradient.addColorStop(0, `rgba(212, 175, 55, ${(volume - 0.4) * 0.15})`);
-                gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
-                ctx.fillStyle = gradient;
-                ctx.fillRect(0, 0, width, height);
-            }
-
-            animationFrameRef.current = requestAnimationFrame(animate);
-        };
-
-        animationFrameRef.current = requestAnimationFrame(animate);
-
-        return () => {
-            if (animationFrameRef.current !== null) {
-                cancelAnimationFrame(animationFrameRef.current);
-            }
-        };
-    }, [mode, analyzer, isInitialized, isPlaying, getFrequencyData]);
+        });
+    }, [analyzer, isInitialized, isPlaying, getFrequencyData]);
 
     return (
         <div ref={containerRef} className={`relative w-full h-full ${className}`}>
-            <canvas
-                ref={canvasRef}
-                className="w-full h-full"
-                style={{
-                    imageRendering: 'auto',
-                    display: 'block',
-                }}
-            />
-
             <div
                 className="absolute inset-0 pointer-events-none opacity-5"
                 style={{
@@ -203,45 +204,100 @@ interface VisualizerToggleProps {
 }
 
 export function VisualizerToggle({ mode, onModeChange }: VisualizerToggleProps) {
-    const modes: Array<{ value: VisualizerMode; icon: React.FC<any>; label: string }> = [
-        { value: 'chladni', icon: Lightbulb, label: 'Chladni' },
-        { value: 'water', icon: Waves, label: 'Water' },
-        { value: 'sacred', icon: Sparkles, label: 'Sacred' },
-        { value: 'turing', icon: Dna, label: 'Turing' },
-        { value: 'voronoi', icon: Hexagon, label: 'Voronoi' },
-        { value: 'hopf', icon: Orbit, label: 'Hopf' },
-    ];
+    // Re-render when a visualizer registers late
+    const visualizers = useSyncExternalStore(subscribeToVisualizers, getVisualizers);
+    const active = getVisualizer(mode);
+    const [showSettings, setShowSettings] = useState(false);
 
     return (
-        <div className="flex items-center gap-px bg-[var(--color-card)] border border-[var(--color-border)] p-1 backdrop-blur-md">
-            {modes.map(({ value, icon: Icon, label }) => (
+        <div className="relative flex items-center gap-px bg-[var(--color-card)] border border-[var(--color-border)] p-1 backdrop-blur-md">
+            {visualizers.map(({ id, icon: Icon, name }) => (
                 <button
-                    key={value}
-                    onClick={() => onModeChange(value)}
+                    key={id}
+                    onClick={() => onModeChange(id)}
                     className={`
                         relative group flex items-center justify-center gap-2 px-4 py-2 
                         transition-all duration-300 border border-transparent
-                        ${mode === value
+                        ${active?.id === id
                             ? 'bg-[var(--color-accent-gold)]/10 border-[var(--color-accent-gold)] text-[var(--color-accent-gold)]'
                             : 'hover:bg-[var(--color-card-hover)] hover:border-[var(--color-border)] text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)]'
                         }
                     `}
-                    title={label}
+                    title={name}
                 >
                     {/* Active Corner Markers */}
-                    {mode === value && (
+                    {active?.id === id && (
                         <>
                             <span className="absolute top-0 left-0 w-1 h-1 bg-[var(--color-accent-gold)]" />
                             <span className="absolute bottom-0 right-0 w-1 h-1 bg-[var(--color-accent-gold)]" />
                         </>
                     )}
 
-                    <Icon size={14} className={mode === value ? 'animate-pulse' : ''} />
+                    <Icon size={14} className={active?.id === id ? 'animate-pulse' : ''} />
                     <span className="hidden sm:block font-mono text-[10px] uppercase tracking-widest leading-none pt-0.5">
-                        {label}
+                        {name}
                     </span>
                 </button>
             ))}
+
+            {active?.settings && active.settings.length > 0 && (
+                <button
+                    onClick={() => setShowSettings(open => !open)}
+                    className={`flex items-center justify-center px-3 py-2 transition-colors ${showSettings ? 'text-[var(--color-accent-gold)]' : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)]'}`}
+                    title={`${active.name} settings`}
+                >
+                    <SlidersHorizontal size={14} />
+                </button>
+            )}
+
+            {showSettings && active?.settings && active.settings.length > 0 && (
+                <VisualizerSettingsPanel key={active.id} visualizerId={active.id} schema={active.settings} />
+            )}
+        </div>
+    );
+}
+
+interface VisualizerSettingsPanelProps {
+    visualizerId: VisualizerMode;
+    schema: VisualizerSetting[];
+}
+
+function VisualizerSettingsPanel({ visualizerId, schema }: VisualizerSettingsPanelProps) {
+    const [values, setValues] = useState(() => getVisualizerSettings(visualizerId));
+
+    const update = (key: string, value: number | boolean) => {
+        setVisualizerSetting(visualizerId, key, value);
+        setValues(getVisualizerSettings(visualizerId));
+    };
+
+    return (
+        <div className="absolute top-full right-0 mt-2 w-56 bg-[var(--color-card)] border border-[var(--color-border)] p-3 space-y-3 z-50">
+            {schema.map(setting => (
+                <label key={setting.key} className="block font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-muted)]">
+                    <span className="flex justify-between mb-1">
+                        {setting.label}
+                        {setting.type === 'range' && <span className="text-[var(--color-accent-gold)]">{values[setting.key] as number}</span>}
+                    </span>
+                    {setting.type === 'range' ? (
+                        <input
+                            type="range"
+                            min={setting.min}
+                            max={setting.max}
+                            step={setting.step}
+                            value={values[setting.key] as number}
+                            onChange={(e) => update(setting.key, Number(e.target.value))}
+                            className="w-full accent-[var(--color-accent-gold)]"
+                        />
+                    ) : (
+                        <input
+                            type="checkbox"
+                            checked={values[setting.key] as boolean}
+                            onChange={(e) => update(setting.key, e.target.checked)}
+                            className="accent-[var(--color-accent-gold)]"
+                        />
+                    )}
+                </label>
+            ))}
         </div>
     );
 }
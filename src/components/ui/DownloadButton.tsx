@@ -0,0 +1,84 @@
+/**
+ * DownloadButton - Offline copy toggle
+ *
+ * Downloads a single item or a whole collection for offline playback. Shows
+ * progress while downloading (percent for one item, "done/total" for a
+ * collection); clicking again cancels, and clicking a finished download removes it.
+ */
+import { Download, CheckCircle2, Loader2, AlertTriangle } from 'lucide-react';
+import { useDownloads } from '../../hooks/useDownloads';
+import type { PlayableItem } from '../../types';
+
+interface DownloadButtonProps {
+    items: PlayableItem[];
+    /** Text shown next to the icon, e.g. "DOWNLOAD" on page headers */
+    label?: string;
+    iconSize?: number;
+    className?: string;
+}
+
+export function DownloadButton({ items, label, iconSize = 16, className = '' }: DownloadButtonProps) {
+    const { isSupported, active, download, cancel, remove, getStatus } = useDownloads();
+
+    if (!isSupported || items.length === 0) return null;
+
+    const statuses = items.map(item => getStatus(item.$id));
+    const doneCount = statuses.filter(status => status === 'downloaded').length;
+    const pending = items.filter((_, i) => statuses[i] === 'queued' || statuses[i] === 'downloading');
+    const failed = items.filter((_, i) => statuses[i] === 'failed');
+    const isQuotaFailure = failed.some(item => active[item.$id]?.error === 'quota');
+
+    const isComplete = doneCount === items.length;
+    const isBusy = pending.length > 0;
+
+    let progressText = '';
+    if (isBusy) {
+        if (items.length === 1) {
+            const progress = active[items[0].$id]?.progress;
+            progressText = progress?.total ? `${Math.floor(progress.received / progress.total * 100)}%` : '...';
+        } else {
+            progressText = `${doneCount}/${items.length}`;
+        }
+    }
+
+    const handleClick = () => {
+        if (isBusy) {
+            pending.forEach(item => cancel(item.$id));
+        } else if (isComplete) {
+            if (items.length > 1 && !confirm('CONFIRM: REMOVE_OFFLINE_COPIES?')) return;
+            remove(items.map(item => item.$id));
+        } else {
+            download(items);
+        }
+    };
+
+    const title = isBusy
+        ? 'Cancel download'
+        : isComplete
+            ? 'Remove download'
+            : isQuotaFailure
+                ? 'Storage full - free up space and retry'
+                : failed.length > 0
+                    ? 'Download failed - retry'
+                    : 'Download for offline';
+
+    return (
+        <button
+            onClick={handleClick}
+            className={`inline-flex items-center gap-1.5 font-mono text-[10px] uppercase tracking-wider transition-colors ${isComplete ? 'text-[var(--color-accent-gold)]' : failed.length > 0 ? 'text-red-400' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)]'} ${className}`}
+            title={title}
+        >
+            {isBusy ? (
+                <Loader2 size={iconSize} className="animate-spin" />
+            ) : isComplete ? (
+                <CheckCircle2 size={iconSize} />
+            ) : failed.length > 0 ? (
+                <AlertTriangle size={iconSize} />
+            ) : (
+                <Download size={iconSize} />
+            )}
+            {progressText && <span className="tabular-nums">{progressText}</span>}
+            {label && !progressText && <span>{isComplete ? 'OFFLINE' : label}</span>}
+        </button>
+    );
+}
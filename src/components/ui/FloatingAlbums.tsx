@@ -2,10 +2,13 @@
  * FloatingAlbums - 3D Parallax Floating Album Covers
  * Creates an immersive effect with album covers floating and reacting to mouse movement
  * Used in hero sections for premium visual impact
+ *
+ * Parallax stops with reduced motion or a hidden tab, and the glows go at lower quality tiers.
  */
 import { useRef, useEffect, useState } from 'react';
 import { motion, useSpring, useMotionValue, useTransform } from 'framer-motion';
 import { getTrackCoverUrl } from '../../utils/trackUtils';
+import { useVisualQuality } from '../../hooks/useVisualQuality';
 import type { Track } from '../../types';
 
 interface FloatingAlbumsProps {
@@ -36,6 +39,8 @@ const ALBUM_POSITIONS: AlbumPosition[] = [
 export function FloatingAlbums({ tracks, className = '' }: FloatingAlbumsProps) {
     const containerRef = useRef<HTMLDivElement>(null);
     const [isHovering, setIsHovering] = useState(false);
+    const { reducedMotion, paused, effects } = useVisualQuality();
+    const isStill = reducedMotion || paused;
 
     // Mouse position tracking
     const mouseX = useMotionValue(0);
@@ -47,6 +52,8 @@ export function FloatingAlbums({ tracks, className = '' }: FloatingAlbumsProps)
     const smoothY = useSpring(mouseY, springConfig);
 
     useEffect(() => {
+        if (isStill) return;
+
         const handleMouseMove = (e: MouseEvent) => {
             if (!containerRef.current) return;
 
@@ -64,7 +71,7 @@ export function FloatingAlbums({ tracks, className = '' }: FloatingAlbumsProps)
 
         window.addEventListener('mousemove', handleMouseMove);
         return () => window.removeEventListener('mousemove', handleMouseMove);
-    }, [mouseX, mouseY]);
+    }, [mouseX, mouseY, isStill]);
 
     // Limit to first 6 tracks with covers (either cover_url or cover_image_id)
     const albumTracks = tracks
@@ -100,6 +107,8 @@ export function FloatingAlbums({ tracks, className = '' }: FloatingAlbumsProps)
                         parallaxMultiplier={parallaxMultiplier}
                         isHovering={isHovering}
                         delay={index * 0.15}
+                        showGlow={effects}
+                        animate={!reducedMotion}
                     />
                 );
             })}
@@ -116,6 +125,8 @@ interface FloatingAlbumProps {
     parallaxMultiplier: number;
     isHovering: boolean;
     delay: number;
+    showGlow: boolean;
+    animate: boolean;
 }
 
 function FloatingAlbum({
@@ -127,6 +138,8 @@ function FloatingAlbum({
     parallaxMultiplier,
     isHovering,
     delay,
+    showGlow,
+    animate,
 }: FloatingAlbumProps) {
     // Transform mouse position to parallax movement
     const x = useTransform(smoothX, [-1, 1], [-30 * parallaxMultiplier, 30 * parallaxMultiplier]);
@@ -159,8 +172,8 @@ function FloatingAlbum({
                 rotate: position.rotate,
             }}
             transition={{
-                duration: 1,
-                delay,
+                duration: animate ? 1 : 0,
+                delay: animate ? delay : 0,
                 ease: [0.16, 1, 0.3, 1],
             }}
             whileHover={{
@@ -171,15 +184,17 @@ function FloatingAlbum({
             }}
         >
             {/* Glow effect */}
-            <div
-                className="absolute inset-0 rounded-2xl"
-                style={{
-                    background: 'radial-gradient(circle, var(--violet-glow) 0%, transparent 70%)',
-                    filter: 'blur(20px)',
-                    opacity: isHovering ? 0.6 : 0.3,
-                    transition: 'opacity 0.3s',
-                }}
-            />
+            {showGlow && (
+                <div
+                    className="absolute inset-0 rounded-2xl"
+                    style={{
+                        background: 'radial-gradient(circle, var(--violet-glow) 0%, transparent 70%)',
+                        filter: 'blur(20px)',
+                        opacity: isHovering ? 0.6 : 0.3,
+                        transition: 'opacity 0.3s',
+                    }}
+                />
+            )}
 
             {/* Album cover image */}
             <img
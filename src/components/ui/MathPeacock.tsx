@@ -1,5 +1,6 @@
 
 import { useEffect, useRef } from 'react';
+import { runFrameLoop } from '../../lib/qualityGovernor';
 
 export const MathPeacock = () => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -13,7 +14,6 @@ export const MathPeacock = () => {
 
         let width = window.innerWidth;
         let height = window.innerHeight;
-        let animationFrameId: number;
         let mouseX = width / 2;
         let mouseY = height / 2;
         let time = 0;
@@ -38,8 +38,9 @@ export const MathPeacock = () => {
         const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5)); // ~2.399 radians (137.5 degrees)
         const PARTICLE_COUNT = 1500;
 
-        const draw = () => {
-            if (!ctx) return;
+        const stopLoop = runFrameLoop((_time, quality) => {
+            // Feathers thin out at lower quality tiers - skipping indices keeps the fan's size
+            const step = 1 / quality.detail;
 
             // Check for forced dark theme (local parent) or global dark theme
             const isDark = canvas.closest('.dark') !== null || document.documentElement.classList.contains('dark');
@@ -63,7 +64,8 @@ export const MathPeacock = () => {
 
             time += 0.01;
 
-            for (let i = 0; i < PARTICLE_COUNT; i++) {
+            for (let n = 0; n < PARTICLE_COUNT; n += step) {
+                const i = Math.floor(n);
                 // ─── PHYLLOTAXIS ALGORITHM ───
                 // r = c * sqrt(n)
                 // theta = n * 137.5 deg
@@ -106,16 +108,12 @@ export const MathPeacock = () => {
                 ctx.arc(x, y, size, 0, Math.PI * 2);
                 ctx.fill();
             }
-
-            animationFrameId = requestAnimationFrame(draw);
-        };
-
-        draw();
+        });
 
         return () => {
             window.removeEventListener('resize', handleResize);
             window.removeEventListener('mousemove', handleMouseMove);
-            cancelAnimationFrame(animationFrameId);
+            stopLoop();
         };
     }, []);
 
@@ -2,10 +2,15 @@
  * MoodLight Component
  * Fullscreen ambient lighting with 5 mood presets.
  * Based on soulmate-mono's MoodLight.tsx
+ *
+ * With beat sync on, colors change on the detected beats while the tempo is locked
+ * on, and fall back to the speed setting otherwise.
  */
 
 import { useState, useEffect } from 'react';
-import { X, Settings, Zap, Clock, Heart, PartyPopper, CloudRain, Flame, Sparkles } from 'lucide-react';
+import { X, Settings, Zap, Clock, Activity, Heart, PartyPopper, CloudRain, Flame, Sparkles } from 'lucide-react';
+import { useAudioAnalyzerContext } from '../../context/AudioAnalyzerContext';
+import { MIN_BEAT_CONFIDENCE } from '../../lib/beatTracker';
 
 interface MoodLightProps {
     isVisible: boolean;
@@ -52,6 +57,9 @@ export function MoodLight({ isVisible, onClose }: MoodLightProps) {
     const [transition, setTransition] = useState(0.3);
     const [showControls, setShowControls] = useState(true);
     const [showSettings, setShowSettings] = useState(false);
+    const [beatSync, setBeatSync] = useState(true);
+    const { bpm, beatConfidence, onBeat } = useAudioAnalyzerContext();
+    const beatsLocked = beatSync && bpm !== null && beatConfidence >= MIN_BEAT_CONFIDENCE;
 
     // Auto-hide controls after 3 seconds
     useEffect(() => {
@@ -76,16 +84,22 @@ export function MoodLight({ isVisible, onClose }: MoodLightProps) {
         };
     }, [isVisible, showSettings]);
 
-    // Color cycling
+    // Color cycling - on the beat when locked on, on a timer otherwise
     useEffect(() => {
         if (!isVisible) return;
 
+        if (beatsLocked) {
+            return onBeat(() => {
+                setCurrentColorIndex((prev) => (prev + 1) % currentMood.colors.length);
+            });
+        }
+
         const interval = setInterval(() => {
             setCurrentColorIndex((prev) => (prev + 1) % currentMood.colors.length);
         }, speed);
 
         return () => clearInterval(interval);
-    }, [isVisible, currentMood, speed]);
+    }, [isVisible, currentMood, speed, beatsLocked, onBeat]);
 
     // Handle escape key
     useEffect(() => {
@@ -218,7 +232,7 @@ export function MoodLight({ isVisible, onClose }: MoodLightProps) {
                         </div>
 
                         {/* Transition Control */}
-                        <div>
+                        <div style={{ marginBottom: 20 }}>
                             <div style={{
                                 display: 'flex',
                                 justifyContent: 'space-between',
@@ -249,6 +263,30 @@ export function MoodLight({ isVisible, onClose }: MoodLightProps) {
                                 }}
                             />
                         </div>
+
+                        {/* Beat Sync */}
+                        <button
+                            onClick={() => setBeatSync(!beatSync)}
+                            style={{
+                                width: '100%',
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                alignItems: 'center',
+                                padding: 0,
+                                border: 'none',
+                                cursor: 'pointer',
+                                backgroundColor: 'transparent',
+                                color: 'white',
+                                fontSize: 13
+                            }}
+                        >
+                            <span style={{ display: 'flex', alignItems: 'center', gap: 8, opacity: 0.8 }}>
+                                <Activity size={14} /> Beat sync
+                            </span>
+                            <span style={{ fontFamily: 'monospace', fontSize: 11, opacity: 0.5 }}>
+                                {!beatSync ? 'off' : beatsLocked ? `${bpm} bpm` : 'listening'}
+                            </span>
+                        </button>
                     </div>
                 )}
 
@@ -9,11 +9,15 @@
  * 1. ambient - Subtle campfire glow (background)
  * 2. wave - Gentle waves, always present
  * 3. hero - Prominent, full experience
+ *
+ * Lower quality tiers drop to the next smaller Fibonacci count; reduced motion and
+ * a hidden tab hold the current shape.
  */
 import { motion, useSpring, useTransform } from 'framer-motion';
 import { usePlayer } from '../../context/PlayerContext';
 import { useAudioFrequency } from '../../context/AudioAnalyzerContext';
 import { useState, useEffect, useMemo } from 'react';
+import { useVisualQuality } from '../../hooks/useVisualQuality';
 
 type VisualizerMode = 'ambient' | 'wave' | 'hero';
 
@@ -33,6 +37,8 @@ export function OrganicVisualizer({
     const { isPlaying } = usePlayer();
     const frequencyData = useAudioFrequency();
     const [audioData, setAudioData] = useState<number[]>([]);
+    const { effects, reducedMotion, paused } = useVisualQuality();
+    const isStill = reducedMotion || paused;
 
     // Fibonacci-based element counts for natural distribution
     const elementCounts = useMemo(() => ({
@@ -40,11 +46,19 @@ export function OrganicVisualizer({
         wave: 13,     // Medium presence
         hero: 21,     // Full experience
     }), []);
+    // The Fibonacci step below, without effects
+    const reducedCounts = useMemo(() => ({ ambient: 5, wave: 8, hero: 13 }), []);
 
-    const elementCount = elementCounts[mode];
+    const elementCount = (effects ? elementCounts : reducedCounts)[mode];
 
     // Responsive audio mapping
     useEffect(() => {
+        // Hold still - only a changed element count gets a (flat) new shape
+        if (isStill) {
+            setAudioData(prev => prev.length === elementCount ? prev : Array(elementCount).fill(0.2));
+            return;
+        }
+
         if (!isPlaying || !frequencyData) {
             // When not playing, gentle idle breathing
             const phase = Date.now() / 2000;
@@ -75,7 +89,7 @@ export function OrganicVisualizer({
         });
 
         setAudioData(newData);
-    }, [frequencyData, isPlaying, elementCount]);
+    }, [frequencyData, isPlaying, elementCount, isStill]);
 
     // Mode-specific styles
     const modeStyles = useMemo(() => ({
@@ -0,0 +1,97 @@
+/**
+ * ShortcutCheatSheet - Keyboard Binding Reference
+ *
+ * Opened with "?" (or whatever it's rebound to). Lists every binding from the
+ * shortcut registry, grouped, reflecting any custom keys set in Settings.
+ */
+import { useEffect } from 'react';
+import { X, Keyboard } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useShortcuts } from '../../hooks/useShortcuts';
+import { SHORTCUT_DEFINITIONS, formatKey, type ShortcutDefinition } from '../../lib/shortcuts';
+
+const GROUPS: ShortcutDefinition['group'][] = ['Playback', 'Library', 'Interface'];
+
+export function ShortcutCheatSheet() {
+    const { bindings, isCheatSheetOpen, setCheatSheetOpen } = useShortcuts();
+
+    // Handle escape key
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && isCheatSheetOpen) {
+                setCheatSheetOpen(false);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isCheatSheetOpen, setCheatSheetOpen]);
+
+    return (
+        <AnimatePresence>
+            {isCheatSheetOpen && (
+                <div className="fixed inset-0 z-[9999] flex items-center justify-center pointer-events-none">
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={() => setCheatSheetOpen(false)}
+                        className="absolute inset-0 bg-black/80 backdrop-blur-md pointer-events-auto"
+                    />
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.98, y: 10 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.98, y: 10 }}
+                        className="relative w-[90%] max-w-lg bg-[var(--color-card)] border border-[var(--color-border)] rounded-sm shadow-2xl overflow-hidden pointer-events-auto"
+                    >
+                        {/* Technical Accent Decorators */}
+                        <div className="absolute top-0 right-0 w-2 h-2 border-t border-r border-[var(--color-accent-gold)]/40" />
+                        <div className="absolute bottom-0 left-0 w-2 h-2 border-b border-l border-[var(--color-accent-gold)]/40" />
+
+                        <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--color-border)] bg-[var(--color-void)]/20">
+                            <div className="flex items-center gap-3">
+                                <Keyboard size={16} className="text-[var(--color-accent-gold)]" />
+                                <div>
+                                    <h2 className="font-display text-sm text-[var(--color-text-primary)] uppercase tracking-[0.1em] font-bold">
+                                        Input_Map
+                                    </h2>
+                                    <p className="font-mono text-[8px] text-[var(--color-text-muted)] uppercase tracking-widest mt-0.5">
+                                        Rebind keys in Settings // ESC to close
+                                    </p>
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => setCheatSheetOpen(false)}
+                                className="p-1 text-[var(--color-text-muted)] hover:text-[var(--color-accent-gold)] transition-colors"
+                            >
+                                <X size={16} />
+                            </button>
+                        </div>
+
+                        <div className="p-6 max-h-[60vh] overflow-y-auto scrollbar-hide space-y-6">
+                            {GROUPS.map(group => (
+                                <div key={group}>
+                                    <p className="font-mono text-[9px] text-[var(--color-accent-gold)] uppercase tracking-widest mb-2">
+                                        // {group}
+                                    </p>
+                                    <div className="space-y-1">
+                                        {SHORTCUT_DEFINITIONS.filter(d => d.group === group).map(def => (
+                                            <div key={def.action} className="flex items-center justify-between py-1.5 border-b border-[var(--color-border)]/50">
+                                                <span className="font-mono text-[10px] text-[var(--color-text-secondary)] uppercase tracking-wide">
+                                                    {def.label}
+                                                </span>
+                                                <kbd className="min-w-[2rem] px-2 py-0.5 text-center border border-[var(--color-border)] bg-[var(--color-void)] font-mono text-[10px] text-[var(--color-text-primary)]">
+                                                    {formatKey(bindings[def.action])}
+                                                </kbd>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -1,8 +1,10 @@
 import { useEffect, useRef } from 'react';
+import { getVisualQuality, runFrameLoop, subscribeToVisualQuality } from '../../lib/qualityGovernor';
 
 /**
  * AuroraNebula - Flowing aurora borealis with cosmic particle dust
  * Premium, ethereal visualization for auth pages
+ * Star and particle counts, blur layers and glows follow the quality governor.
  */
 export const AuroraNebula = () => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -14,7 +16,6 @@ export const AuroraNebula = () => {
         const ctx = canvas.getContext('2d');
         if (!ctx) return;
 
-        let animationFrameId: number;
         let width = canvas.offsetWidth;
         let height = canvas.offsetHeight;
         let time = 0;
@@ -39,7 +40,8 @@ export const AuroraNebula = () => {
 
         const generateStarField = () => {
             stars.length = 0;
-            for (let i = 0; i < STAR_COUNT; i++) {
+            const count = Math.round(STAR_COUNT * getVisualQuality().detail);
+            for (let i = 0; i < count; i++) {
                 stars.push({
                     x: Math.random() * width,
                     y: Math.random() * height,
@@ -67,7 +69,7 @@ export const AuroraNebula = () => {
         const MAX_FLOATING = 60;
 
         const spawnFloatingParticle = () => {
-            if (floatingParticles.length >= MAX_FLOATING) return;
+            if (floatingParticles.length >= MAX_FLOATING * getVisualQuality().detail) return;
 
             floatingParticles.push({
                 x: Math.random() * width,
@@ -99,9 +101,10 @@ export const AuroraNebula = () => {
         resizeObserver.observe(canvas);
         canvas.addEventListener('mousemove', handleMouseMove);
         handleResize();
+        // A new tier gets a star field to match
+        const unsubscribeQuality = subscribeToVisualQuality(generateStarField);
 
-        const draw = () => {
-            if (!ctx) return;
+        const stopLoop = runFrameLoop((_time, quality) => {
 
             // Background with subtle gradient
             const bgGradient = ctx.createLinearGradient(0, 0, 0, height);
@@ -134,8 +137,9 @@ export const AuroraNebula = () => {
                 const hue2 = (180 + r * 30 + Math.cos(time * 0.7 + r) * 25) % 360;
                 const hue3 = (280 + r * 20 + Math.sin(time * 0.5 + r) * 30) % 360;
 
-                // Draw multiple layers for glow effect
-                for (let layer = 0; layer < 3; layer++) {
+                // Draw multiple layers for glow effect - blur is the priciest thing here
+                const glowLayers = quality.effects ? 3 : 1;
+                for (let layer = 0; layer < glowLayers; layer++) {
                     const layerAlpha = (0.15 - layer * 0.04) * (1 + Math.sin(time * 2 + r) * 0.3);
                     const layerBlur = 30 + layer * 20;
 
@@ -178,7 +182,7 @@ export const AuroraNebula = () => {
                     gradient.addColorStop(1, `hsla(${hue3}, 60%, 30%, 0)`);
 
                     ctx.fillStyle = gradient;
-                    ctx.filter = `blur(${layerBlur}px)`;
+                    if (quality.effects) ctx.filter = `blur(${layerBlur}px)`;
                     ctx.fill();
                     ctx.filter = 'none';
                 }
@@ -197,7 +201,7 @@ export const AuroraNebula = () => {
                 ctx.fill();
 
                 // Star glow
-                if (star.size > 1) {
+                if (quality.effects && star.size > 1) {
                     const glowGradient = ctx.createRadialGradient(
                         star.x, star.y, 0,
                         star.x, star.y, star.size * 4
@@ -260,16 +264,13 @@ export const AuroraNebula = () => {
             vignette.addColorStop(1, 'rgba(0, 0, 0, 0.4)');
             ctx.fillStyle = vignette;
             ctx.fillRect(0, 0, width, height);
-
-            animationFrameId = requestAnimationFrame(draw);
-        };
-
-        draw();
+        });
 
         return () => {
             resizeObserver.disconnect();
             canvas.removeEventListener('mousemove', handleMouseMove);
-            cancelAnimationFrame(animationFrameId);
+            unsubscribeQuality();
+            stopLoop();
         };
     }, []);
 
@@ -1,6 +1,8 @@
 export { Button } from './Button';
 export { Input } from './Input';
 export { CymaticsVisualizer, VisualizerToggle } from './CymaticsVisualizer';
+export { registerVisualizer, type VisualizerMode, type VisualizerDefinition } from './visualizers';
 export { AmbientGlow } from './OrganicVisualizer';
 export { SkeletonPulse, SkeletonCard, SkeletonRow, SkeletonText, SkeletonAvatar, SkeletonGrid } from './Skeleton';
 export { KineticText, SplitText } from './KineticText';
+export { DownloadButton } from './DownloadButton';
@@ -0,0 +1,76 @@
+/**
+ * Cymatics Worker
+ * Runs the cymatics particle simulation on an OffscreenCanvas, away from React
+ * renders and the analyzer loop on the main thread.
+ *
+ * The main thread drives the frames (so the quality governor can pause it), and
+ * snapshots arrive one of two ways:
+ * - SharedArrayBuffer (cross-origin isolated pages): the latest snapshot lives in
+ *   shared memory and a frame message carries nothing
+ * - Transferred ArrayBuffer: one buffer goes back and forth, a frame per round trip
+ */
+import { getVisualizers } from './registry';
+import { createCymaticsRenderer, readFrame, type CymaticsRenderer } from './cymaticsRenderer';
+import type { VisualizerMode, VisualizerSettingValues } from './registry';
+
+// The built-in visualizers - a worker has its own copy of the registry
+import.meta.glob('./modes/*.ts', { eager: true });
+
+export type CymaticsWorkerMessage =
+    | { type: 'init'; canvas: OffscreenCanvas; particleCount: number; shared: SharedArrayBuffer | null }
+    | { type: 'resize'; width: number; height: number; devicePixelRatio: number }
+    | { type: 'mode'; mode: VisualizerMode; settings: VisualizerSettingValues }
+    | { type: 'particles'; count: number }
+    /** Draw a frame - from the buffer, or from shared memory when there's none */
+    | { type: 'frame'; buffer: ArrayBuffer | null };
+
+export type CymaticsWorkerEvent =
+    | { type: 'ready'; modes: VisualizerMode[] }
+    /** A frame was drawn - the buffer (if any) is handed back */
+    | { type: 'frame'; buffer: ArrayBuffer | null }
+    | { type: 'error'; message: string };
+
+const scope = self as unknown as Worker;
+
+let renderer: CymaticsRenderer | null = null;
+let sharedFrame: Float64Array | null = null;
+
+const post = (event: CymaticsWorkerEvent, transfer: Transferable[] = []) => {
+    scope.postMessage(event, transfer);
+};
+
+scope.onmessage = (event: MessageEvent<CymaticsWorkerMessage>) => {
+    const message = event.data;
+
+    switch (message.type) {
+        case 'init': {
+            renderer = createCymaticsRenderer(message.canvas, message.particleCount);
+            if (!renderer) {
+                post({ type: 'error', message: 'No 2d context on the OffscreenCanvas' });
+                return;
+            }
+            sharedFrame = message.shared ? new Float64Array(message.shared) : null;
+            post({ type: 'ready', modes: getVisualizers().map(v => v.id) });
+            break;
+        }
+
+        case 'resize':
+            renderer?.resize(message.width, message.height, message.devicePixelRatio);
+            break;
+
+        case 'mode':
+            renderer?.setMode(message.mode, message.settings);
+            break;
+
+        case 'particles':
+            renderer?.setParticleCount(message.count);
+            break;
+
+        case 'frame': {
+            const source = message.buffer ? new Float64Array(message.buffer) : sharedFrame;
+            if (renderer && source) renderer.draw(readFrame(source));
+            post({ type: 'frame', buffer: message.buffer }, message.buffer ? [message.buffer] : []);
+            break;
+        }
+    }
+};
@@ -0,0 +1,193 @@
+/**
+ * Cymatics Renderer
+ * The particle simulation and drawing behind CymaticsVisualizer. Runs the same on
+ * a page canvas (main thread) or an OffscreenCanvas inside cymatics.worker.
+ */
+import { getVisualizer, type Particle, type VisualizerContext, type VisualizerMode, type VisualizerSettingValues } from './registry';
+import { updateParticle } from './particleRenderers';
+
+/** One analysis snapshot - what the renderer needs from the audio per frame */
+export interface CymaticsFrame {
+    bassEnergy: number;
+    midEnergy: number;
+    trebleEnergy: number;
+    volume: number;
+    isPlaying: boolean;
+    /** Optional effects (the center glow) - off at lower quality tiers */
+    effects: boolean;
+}
+
+export interface CymaticsRenderer {
+    /** CSS size of the canvas and the device pixel ratio */
+    resize(width: number, height: number, devicePixelRatio: number): void;
+    setMode(mode: VisualizerMode, settings: VisualizerSettingValues): void;
+    /** Grow or shrink the simulation - particles that stay keep their state */
+    setParticleCount(count: number): void;
+    /** Advance the simulation and draw one frame */
+    draw(frame: CymaticsFrame): void;
+    dispose(): void;
+}
+
+// Frames cross to the worker as a flat Float64Array in this layout
+export const FRAME_LENGTH = 6;
+
+export function writeFrame(target: Float64Array, frame: CymaticsFrame): void {
+    target[0] = frame.bassEnergy;
+    target[1] = frame.midEnergy;
+    target[2] = frame.trebleEnergy;
+    target[3] = frame.volume;
+    target[4] = frame.isPlaying ? 1 : 0;
+    target[5] = frame.effects ? 1 : 0;
+}
+
+export function readFrame(source: Float64Array): CymaticsFrame {
+    return {
+        bassEnergy: source[0],
+        midEnergy: source[1],
+        trebleEnergy: source[2],
+        volume: source[3],
+        isPlaying: source[4] === 1,
+        effects: source[5] === 1,
+    };
+}
+
+const PARTICLE_SIZE_MULTIPLIER = 1.2;
+
+function spawnParticle(width: number, height: number): Particle {
+    return {
+        x: Math.random() * width,
+        y: Math.random() * height,
+        vx: 0,
+        vy: 0,
+        targetX: width / 2,
+        targetY: height / 2,
+        life: Math.random(),
+    };
+}
+
+export function createCymaticsRenderer(
+    canvas: HTMLCanvasElement | OffscreenCanvas,
+    particleCount: number
+): CymaticsRenderer | null {
+    const ctx = canvas.getContext('2d') as VisualizerContext | null;
+    if (!ctx) return null;
+
+    let width = 0;
+    let height = 0;
+    let particles: Particle[] = [];
+    let mode: VisualizerMode = 'chladni';
+    let settings: VisualizerSettingValues = {};
+    // Time is read locally - the main thread and the worker have different clocks
+    let lastTime = performance.now();
+
+    return {
+        resize(nextWidth, nextHeight, devicePixelRatio) {
+            width = nextWidth;
+            height = nextHeight;
+            canvas.width = width * devicePixelRatio;
+            canvas.height = height * devicePixelRatio;
+            ctx.scale(devicePixelRatio, devicePixelRatio);
+
+            // Only initialize particles if they don't exist yet
+            if (particles.length === 0) {
+                particles = Array.from({ length: particleCount }, () => spawnParticle(width, height));
+            } else {
+                particles.forEach(p => {
+                    p.targetX = width / 2;
+                    p.targetY = height / 2;
+                });
+            }
+        },
+
+        setMode(nextMode, nextSettings) {
+            mode = nextMode;
+            settings = nextSettings;
+        },
+
+        setParticleCount(count) {
+            particleCount = count;
+            // Not sized yet - resize creates them
+            if (particles.length === 0) return;
+            if (count < particles.length) {
+                particles.length = count;
+            } else {
+                while (particles.length < count) particles.push(spawnParticle(width, height));
+            }
+        },
+
+        draw(frame) {
+            const currentTime = performance.now();
+            const deltaTime = Math.min((currentTime - lastTime) / 16.67, 2);
+            lastTime = currentTime;
+
+            const { volume, bassEnergy, midEnergy, trebleEnergy, isPlaying, effects } = frame;
+            const visualizer = getVisualizer(mode);
+            if (!visualizer || width === 0) return;
+
+            // Optimization: If silent, skip complex drawing
+            if (volume === 0 && !isPlaying) {
+                ctx.fillStyle = 'rgba(10, 10, 10, 0.2)';
+                ctx.fillRect(0, 0, width, height);
+                return;
+            }
+
+            ctx.fillStyle = 'rgba(10, 10, 10, 0.08)';
+            ctx.fillRect(0, 0, width, height);
+
+            const centerX = width / 2;
+            const centerY = height / 2;
+            const audioData = { bassEnergy, midEnergy, trebleEnergy, volume };
+            const rgb = visualizer.color({ bass: bassEnergy, mid: midEnergy, treble: trebleEnergy }, settings);
+
+            particles.forEach((particle, index) => {
+                // Update physics and position via module
+                updateParticle({
+                    particle,
+                    index,
+                    totalParticles: particles.length,
+                    width,
+                    height,
+                    centerX,
+                    centerY,
+                    visualizer,
+                    audioData,
+                    time: currentTime,
+                    deltaTime,
+                    settings
+                });
+
+                // Render
+                const alpha = particle.life * (0.3 + volume * 0.7);
+                const size = PARTICLE_SIZE_MULTIPLIER + volume * 1.5;
+
+                ctx.fillStyle = `rgba(${rgb}, ${alpha})`;
+                ctx.beginPath();
+                ctx.arc(particle.x, particle.y, size, 0, Math.PI * 2);
+                ctx.fill();
+            });
+
+            if (effects && volume > 0.4) {
+                const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, 150 * volume);
+                gradient.addColorStop(0, `rgba(212, 175, 55, ${(volume - 0.4) * 0.15})`);
+                gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+                ctx.fillStyle = gradient;
+                ctx.fillRect(0, 0, width, height);
+            }
+
+            visualizer.render?.(ctx, {
+                width,
+                height,
+                centerX,
+                centerY,
+                audioData,
+                time: currentTime,
+                deltaTime,
+                settings
+            });
+        },
+
+        dispose() {
+            particles = [];
+        },
+    };
+}
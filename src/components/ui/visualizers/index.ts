@@ -0,0 +1,29 @@
+/**
+ * Visualizers
+ * Every module in ./modes registers itself on load - drop a new file there to add one.
+ */
+import.meta.glob('./modes/*.ts', { eager: true });
+
+export {
+    registerVisualizer,
+    getVisualizers,
+    getVisualizer,
+    subscribeToVisualizers,
+    getVisualizerSettings,
+    setVisualizerSetting,
+    subscribeToVisualizerSettings,
+} from './registry';
+export type {
+    VisualizerMode,
+    VisualizerDefinition,
+    VisualizerSetting,
+    VisualizerSettingValues,
+    VisualizerFrame,
+    VisualizerAudio,
+    ParticleTargetParams,
+    VisualizerContext,
+    Particle,
+} from './registry';
+export { updateParticle } from './particleRenderers';
+export { createCymaticsRenderer, type CymaticsRenderer, type CymaticsFrame } from './cymaticsRenderer';
+export { createOffscreenCymatics, supportsOffscreenCymatics } from './offscreenCymatics';
@@ -0,0 +1,27 @@
+/**
+ * Chladni - particles settle on a ring whose nodes follow the treble
+ */
+import { Lightbulb } from 'lucide-react';
+import { registerVisualizer } from '../registry';
+
+registerVisualizer({
+    id: 'chladni',
+    name: 'Chladni',
+    icon: Lightbulb,
+    order: 0,
+    settings: [
+        { key: 'symmetry', label: 'Symmetry', type: 'range', min: 2, max: 12, step: 1, default: 4 },
+    ],
+    update({ index, totalParticles, width, centerX, centerY, audioData, settings }) {
+        const { bassEnergy, midEnergy, trebleEnergy } = audioData;
+        const angle = (index / totalParticles) * Math.PI * 2;
+        const radius = (bassEnergy * (width * 0.2)) + (midEnergy * (width * 0.1));
+        const harmonicOffset = Math.sin(angle * (settings.symmetry as number)) * trebleEnergy * (width * 0.1);
+
+        return {
+            x: centerX + Math.cos(angle) * (radius + harmonicOffset),
+            y: centerY + Math.sin(angle) * (radius + harmonicOffset) * 0.6,
+        };
+    },
+    color: () => '212, 175, 55',
+});
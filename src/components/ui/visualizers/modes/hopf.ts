@@ -0,0 +1,62 @@
+/**
+ * Hopf - nested tori in perspective, each band spun by its own frequency range
+ */
+import { Orbit } from 'lucide-react';
+import { registerVisualizer } from '../registry';
+
+registerVisualizer({
+    id: 'hopf',
+    name: 'Hopf',
+    icon: Orbit,
+    order: 5,
+    settings: [
+        { key: 'tori', label: 'Tori', type: 'range', min: 3, max: 9, step: 1, default: 6 },
+    ],
+    update({ index, totalParticles, width, centerX, centerY, audioData, time, settings }) {
+        const { bassEnergy, midEnergy, trebleEnergy, volume } = audioData;
+        const timePhase = time * 0.002;
+        const torusCount = settings.tori as number;
+        const particlesPerTorus = Math.ceil(totalParticles / torusCount);
+        const torusIndex = Math.floor(index / particlesPerTorus);
+        const posOnTorus = (index % particlesPerTorus) / particlesPerTorus;
+
+        const baseTorusRadius = (width * 0.06) + torusIndex * (width * 0.05);
+        const torusRadius = baseTorusRadius + (bassEnergy * width * 0.08);
+
+        const baseTubeRadius = (width * 0.02) + torusIndex * (width * 0.008);
+        const tubeRadius = baseTubeRadius + (volume * width * 0.015);
+
+        // Inner third follows the treble, the middle the mids, the outer the bass
+        const band = torusIndex / torusCount;
+        const baseSpeed = timePhase * 2;
+        let rotationSpeed: number;
+        let tubeRotation: number;
+
+        if (band < 1 / 3) {
+            rotationSpeed = baseSpeed * (3 + trebleEnergy * 8);
+            tubeRotation = baseSpeed * (5 + trebleEnergy * 10);
+        } else if (band < 2 / 3) {
+            rotationSpeed = baseSpeed * (2 + midEnergy * 5);
+            tubeRotation = baseSpeed * (3 + midEnergy * 6);
+        } else {
+            rotationSpeed = baseSpeed * (1 + bassEnergy * 4);
+            tubeRotation = baseSpeed * (2 + bassEnergy * 5);
+        }
+
+        const u = posOnTorus * Math.PI * 2 + rotationSpeed;
+        const v = posOnTorus * (torusIndex + 1) * Math.PI * 2 + tubeRotation;
+
+        const x3d = (torusRadius + tubeRadius * Math.cos(v)) * Math.cos(u);
+        const y3d = (torusRadius + tubeRadius * Math.cos(v)) * Math.sin(u);
+        const z3d = tubeRadius * Math.sin(v);
+
+        const perspective = 1 + z3d / (width * 0.5);
+        const pulseStrength = (bassEnergy * 25) + (volume * 15);
+
+        return {
+            x: centerX + x3d * perspective + Math.sin(v * 4 + timePhase * 8) * pulseStrength,
+            y: centerY + y3d * perspective * 0.7 + Math.cos(v * 4 + timePhase * 8) * pulseStrength * 0.5,
+        };
+    },
+    color: ({ bass, mid, treble }) => `${180 + (bass * 75)}, ${100 + (mid * 50)}, ${220 + (treble * 35)}`,
+});
@@ -0,0 +1,25 @@
+/**
+ * Sacred - a golden-angle spiral, tightened by the treble
+ */
+import { Sparkles } from 'lucide-react';
+import { registerVisualizer } from '../registry';
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+registerVisualizer({
+    id: 'sacred',
+    name: 'Sacred',
+    icon: Sparkles,
+    order: 2,
+    update({ index, width, centerX, centerY, audioData }) {
+        const angle = index * GOLDEN_ANGLE;
+        const radius = Math.sqrt(index) * (5 + audioData.midEnergy * (width * 0.02));
+        const spiralTightness = 1 + audioData.trebleEnergy * 2;
+
+        return {
+            x: centerX + Math.cos(angle * spiralTightness) * radius,
+            y: centerY + Math.sin(angle * spiralTightness) * radius,
+        };
+    },
+    color: () => '230, 230, 230',
+});
@@ -0,0 +1,47 @@
+/**
+ * Turing - reaction-diffusion worms: bass fragments them, mids fatten them
+ */
+import { Dna } from 'lucide-react';
+import { registerVisualizer } from '../registry';
+
+registerVisualizer({
+    id: 'turing',
+    name: 'Turing',
+    icon: Dna,
+    order: 3,
+    update({ index, totalParticles, width, centerX, centerY, audioData, time }) {
+        const { bassEnergy, midEnergy, trebleEnergy, volume } = audioData;
+        const timePhase = time * 0.002;
+        const killEffect = bassEnergy;
+        const feedEffect = midEnergy;
+        const diffusionWobble = trebleEnergy * 30;
+
+        const wormSize = Math.max(8, Math.floor(20 - volume * 12));
+        const wormIndex = Math.floor(index / wormSize);
+        const wormPosition = index % wormSize;
+        const totalWorms = Math.ceil(totalParticles / wormSize);
+
+        const wormAngle = (wormIndex / totalWorms) * Math.PI * 2
+            + timePhase * (1 + bassEnergy * 3);
+
+        const baseRadius = width * 0.2;
+        const audioRadius = baseRadius + (bassEnergy * width * 0.25) + (midEnergy * width * 0.15);
+        const wormRadius = audioRadius + Math.sin(timePhase * 2 + wormIndex) * (width * 0.1) * (1 + volume);
+
+        const fragmentAngle = killEffect * Math.sin(index * 0.5 + timePhase * 5) * Math.PI * 0.5;
+        const fragmentDist = killEffect * Math.sin(index * 2 + timePhase * 3) * (width * 0.15);
+
+        const spineX = centerX + Math.cos(wormAngle + fragmentAngle) * (wormRadius + fragmentDist);
+        const spineY = centerY + Math.sin(wormAngle + fragmentAngle) * (wormRadius + fragmentDist);
+
+        const perpAngle = wormAngle + Math.PI / 2;
+        const baseSpread = (wormPosition - wormSize / 2) * (4 + feedEffect * 6);
+        const wobble = Math.sin(time * 0.01 + index * 0.3) * diffusionWobble;
+
+        return {
+            x: spineX + Math.cos(perpAngle) * baseSpread + wobble,
+            y: spineY + Math.sin(perpAngle) * baseSpread * 0.8 + wobble * 0.5,
+        };
+    },
+    color: ({ bass, mid, treble }) => `${50 + (bass * 50)}, ${200 + (mid * 55)}, ${180 + (treble * 75)}`,
+});
@@ -0,0 +1,45 @@
+/**
+ * Voronoi - a cell grid that breathes out from the center
+ */
+import { Hexagon } from 'lucide-react';
+import { registerVisualizer } from '../registry';
+
+registerVisualizer({
+    id: 'voronoi',
+    name: 'Voronoi',
+    icon: Hexagon,
+    order: 4,
+    update({ index, totalParticles, width, height, centerX, centerY, audioData, time }) {
+        const { bassEnergy, midEnergy, trebleEnergy, volume } = audioData;
+        const timePhase = time * 0.001;
+        const gridSize = Math.ceil(Math.sqrt(totalParticles));
+        const gridX = index % gridSize;
+        const gridY = Math.floor(index / gridSize);
+
+        const cellWidth = width / gridSize;
+        const cellHeight = height / gridSize;
+
+        const baseX = (gridX + 0.5) * cellWidth;
+        const baseY = (gridY + 0.5) * cellHeight;
+
+        const dxFromCenter = baseX - centerX;
+        const dyFromCenter = baseY - centerY;
+        const distFromCenter = Math.sqrt(dxFromCenter * dxFromCenter + dyFromCenter * dyFromCenter) || 1;
+
+        const breathForce = (bassEnergy * 1.5 + volume * 0.8);
+        const breathX = (dxFromCenter / distFromCenter) * breathForce * (width * 0.3);
+        const breathY = (dyFromCenter / distFromCenter) * breathForce * (height * 0.3);
+
+        const wobbleX = Math.sin(timePhase * 3 + gridX * 0.5 + gridY * 0.3) * midEnergy * 40;
+        const wobbleY = Math.cos(timePhase * 3 + gridX * 0.3 + gridY * 0.5) * midEnergy * 40;
+
+        const shimmerX = Math.sin(time * 0.02 + index * 0.1) * trebleEnergy * 20;
+        const shimmerY = Math.cos(time * 0.02 + index * 0.07) * trebleEnergy * 20;
+
+        return {
+            x: baseX + breathX + wobbleX + shimmerX,
+            y: baseY + breathY + wobbleY + shimmerY,
+        };
+    },
+    color: ({ bass, mid, treble }) => `${200 + (mid * 55)}, ${140 + (bass * 50)}, ${80 + (treble * 40)}`,
+});
@@ -0,0 +1,28 @@
+/**
+ * Water - concentric ripples pulsing with the bass
+ */
+import { Waves } from 'lucide-react';
+import { registerVisualizer } from '../registry';
+
+registerVisualizer({
+    id: 'water',
+    name: 'Water',
+    icon: Waves,
+    order: 1,
+    settings: [
+        { key: 'rings', label: 'Rings', type: 'range', min: 2, max: 10, step: 1, default: 5 },
+    ],
+    update({ index, totalParticles, width, centerX, centerY, audioData, time, settings }) {
+        const angle = (index / totalParticles) * Math.PI * 2;
+        const ring = Math.floor(index / (totalParticles / (settings.rings as number)));
+        const baseRadius = ring * (width * 0.08);
+        const pulse = Math.sin(time * 0.003 + ring) * audioData.bassEnergy * (width * 0.05);
+        const rippleRadius = baseRadius + pulse;
+
+        return {
+            x: centerX + Math.cos(angle) * rippleRadius,
+            y: centerY + Math.sin(angle) * rippleRadius,
+        };
+    },
+    color: ({ mid, treble }) => `${100 + (treble * 100)}, ${149 + (mid * 50)}, 237`,
+});
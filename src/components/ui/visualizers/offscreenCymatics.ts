@@ -0,0 +1,102 @@
+/**
+ * Offscreen Cymatics
+ * Main-thread side of cymatics.worker: hands the canvas to the worker and streams
+ * analysis snapshots to it, behind the same CymaticsRenderer interface as the
+ * main-thread renderer.
+ */
+import { reportDroppedFrame } from '../../../lib/qualityGovernor';
+import { FRAME_LENGTH, writeFrame, type CymaticsRenderer } from './cymaticsRenderer';
+import type { CymaticsWorkerEvent, CymaticsWorkerMessage } from './cymatics.worker';
+import type { VisualizerMode } from './registry';
+
+export const supportsOffscreenCymatics =
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+interface OffscreenCymaticsCallbacks {
+    /** The worker is up - with the visualizers it knows */
+    onReady: (modes: VisualizerMode[]) => void;
+    /** The worker can't draw - the caller should fall back to the main thread */
+    onError: (error: unknown) => void;
+}
+
+/**
+ * Move drawing of `canvas` into a worker. The canvas can't be drawn on from the
+ * main thread afterwards - on error, draw on a fresh one.
+ */
+export function createOffscreenCymatics(
+    canvas: HTMLCanvasElement,
+    particleCount: number,
+    { onReady, onError }: OffscreenCymaticsCallbacks
+): CymaticsRenderer {
+    const worker = new Worker(new URL('./cymatics.worker.ts', import.meta.url), { type: 'module' });
+    const post = (message: CymaticsWorkerMessage, transfer: Transferable[] = []) => {
+        worker.postMessage(message, transfer);
+    };
+
+    // Shared memory needs a cross-origin isolated page
+    const shared = typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated
+        ? new SharedArrayBuffer(FRAME_LENGTH * Float64Array.BYTES_PER_ELEMENT)
+        : null;
+    const sharedFrame = shared ? new Float64Array(shared) : null;
+    // Without it, a single buffer travels back and forth - null while the worker has it
+    let spare: ArrayBuffer | null = shared ? null : new ArrayBuffer(FRAME_LENGTH * Float64Array.BYTES_PER_ELEMENT);
+    let frameInFlight = false;
+
+    worker.onmessage = (event: MessageEvent<CymaticsWorkerEvent>) => {
+        const message = event.data;
+        if (message.type === 'ready') {
+            onReady(message.modes);
+        } else if (message.type === 'frame') {
+            frameInFlight = false;
+            if (message.buffer) spare = message.buffer;
+        } else {
+            onError(message.message);
+        }
+    };
+    worker.onerror = (event) => {
+        event.preventDefault();
+        onError(event.message);
+    };
+
+    const offscreen = canvas.transferControlToOffscreen();
+    post({ type: 'init', canvas: offscreen, particleCount, shared }, [offscreen]);
+
+    return {
+        resize(width, height, devicePixelRatio) {
+            post({ type: 'resize', width, height, devicePixelRatio });
+        },
+
+        setMode(mode, settings) {
+            post({ type: 'mode', mode, settings });
+        },
+
+        setParticleCount(count) {
+            post({ type: 'particles', count });
+        },
+
+        draw(frame) {
+            // The worker is still on the previous frame - drop this one rather than queue it,
+            // and let the governor know the worker is falling behind
+            if (frameInFlight) {
+                reportDroppedFrame();
+                return;
+            }
+            if (sharedFrame) {
+                writeFrame(sharedFrame, frame);
+                post({ type: 'frame', buffer: null });
+            } else if (spare) {
+                writeFrame(new Float64Array(spare), frame);
+                post({ type: 'frame', buffer: spare }, [spare]);
+                spare = null;
+            }
+            frameInFlight = true;
+        },
+
+        dispose() {
+            worker.terminate();
+        },
+    };
+}
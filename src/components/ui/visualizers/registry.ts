@@ -0,0 +1,159 @@
+/**
+ * Visualizer Registry
+ * Cymatics visualizers register themselves here; the canvas and the mode toggle
+ * only ever talk to the registry.
+ *
+ * A visualizer is a module that calls registerVisualizer. Modules in ./modes are
+ * picked up automatically (see ./index), anything else just has to be imported once.
+ * Only the ./modes visualizers exist inside the cymatics worker - others are drawn
+ * on the main thread.
+ */
+import type { LucideIcon } from 'lucide-react';
+
+export type VisualizerMode = string;
+
+/** Either a page canvas or an OffscreenCanvas in the worker */
+export type VisualizerContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface Particle {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    targetX: number;
+    targetY: number;
+    life: number;
+}
+
+export interface VisualizerAudio {
+    bassEnergy: number;
+    midEnergy: number;
+    trebleEnergy: number;
+    volume: number;
+}
+
+/** A user-adjustable setting, rendered by the toggle's settings panel */
+export type VisualizerSetting =
+    | { key: string; label: string; type: 'range'; min: number; max: number; step: number; default: number }
+    | { key: string; label: string; type: 'toggle'; default: boolean };
+
+export type VisualizerSettingValues = Record<string, number | boolean>;
+
+export interface VisualizerFrame {
+    width: number;
+    height: number;
+    centerX: number;
+    centerY: number;
+    audioData: VisualizerAudio;
+    /** rAF timestamp (ms) */
+    time: number;
+    /** Frame time relative to 60fps */
+    deltaTime: number;
+    settings: VisualizerSettingValues;
+}
+
+export interface ParticleTargetParams extends VisualizerFrame {
+    particle: Particle;
+    index: number;
+    totalParticles: number;
+}
+
+export interface VisualizerDefinition {
+    id: VisualizerMode;
+    name: string;
+    icon: LucideIcon;
+    /** Menu position, lowest first - visualizers without one go last */
+    order?: number;
+    settings?: VisualizerSetting[];
+    /** Where a particle wants to be this frame - the shared spring physics moves it there */
+    update(params: ParticleTargetParams): { x: number; y: number };
+    /** Particle color as an "r, g, b" string */
+    color(audio: { bass: number; mid: number; treble: number }, settings: VisualizerSettingValues): string;
+    /** Optional extra drawing on top of the particles */
+    render?(ctx: VisualizerContext, frame: VisualizerFrame): void;
+}
+
+const SETTINGS_STORAGE_KEY = 'music-app-visualizer-settings';
+
+let visualizers: VisualizerDefinition[] = [];
+const listeners = new Set<() => void>();
+const settingsListeners = new Set<() => void>();
+
+function readStoredSettings(): Record<string, VisualizerSettingValues> {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+        return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch {
+        return {};
+    }
+}
+
+// Read once - the canvas asks for settings on every frame
+const storedSettings = readStoredSettings();
+
+/**
+ * Add a visualizer, replacing any registered under the same id
+ */
+export function registerVisualizer(definition: VisualizerDefinition): void {
+    visualizers = [...visualizers.filter(v => v.id !== definition.id), definition]
+        .sort((x, y) => (x.order ?? Number.MAX_SAFE_INTEGER) - (y.order ?? Number.MAX_SAFE_INTEGER));
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * All visualizers in menu order. The array only changes when one is registered.
+ */
+export function getVisualizers(): VisualizerDefinition[] {
+    return visualizers;
+}
+
+/**
+ * A visualizer by id, falling back to the first registered for unknown ids
+ */
+export function getVisualizer(id: VisualizerMode): VisualizerDefinition | undefined {
+    return visualizers.find(v => v.id === id) ?? visualizers[0];
+}
+
+/**
+ * Listen for registrations. Returns the unsubscribe function.
+ */
+export function subscribeToVisualizers(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Current setting values of a visualizer - stored values over the schema defaults
+ */
+export function getVisualizerSettings(id: VisualizerMode): VisualizerSettingValues {
+    const schema = visualizers.find(v => v.id === id)?.settings ?? [];
+    const stored = storedSettings[id] ?? {};
+    const values: VisualizerSettingValues = {};
+    for (const setting of schema) {
+        const value = stored[setting.key];
+        values[setting.key] = typeof value === typeof setting.default ? value : setting.default;
+    }
+    return values;
+}
+
+export function setVisualizerSetting(id: VisualizerMode, key: string, value: number | boolean): void {
+    storedSettings[id] = { ...storedSettings[id], [key]: value };
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(storedSettings));
+    } catch (error) {
+        console.warn('[Visualizers] Failed to save settings:', error);
+    }
+    settingsListeners.forEach(listener => listener());
+}
+
+/**
+ * Listen for setting changes of any visualizer. Returns the unsubscribe function.
+ */
+export function subscribeToVisualizerSettings(listener: () => void): () => void {
+    settingsListeners.add(listener);
+    return () => {
+        settingsListeners.delete(listener);
+    };
+}
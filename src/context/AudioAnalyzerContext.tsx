@@ -2,14 +2,20 @@
  * AudioAnalyzerContext
  * 
  * CRITICAL: A MediaElementSourceNode can only be created ONCE per audio element.
- * This context creates the audio analysis chain once and shares the data with all
+ * The graph itself lives in lib/audioGraph (one source per deck, one shared analyser).
+ * This context connects the active deck and shares the analysis data with all
  * visualizer components, preventing the "HTMLMediaElement already connected" error.
  * 
  * Philosophy: Sound creates geometry. We analyze once, visualize everywhere.
+ *
+ * Tempo and beats come from lib/beatTracker, fed from the unsmoothed level analyser.
+ * Visualizers can subscribe to beats with onBeat to pulse in time with the music.
  */
 
-import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
 import { usePlayer } from './PlayerContext';
+import { connectMediaElement, getAnalyser, getAudioContext, getLevelAnalyser, isCaptureSafe } from '../lib/audioGraph';
+import { createBeatTracker } from '../lib/beatTracker';
 
 export interface FrequencyData {
     /** Raw frequency data (0-255 for each frequency bin) */
@@ -24,8 +30,23 @@ export interface FrequencyData {
     trebleEnergy: number;
     /** Overall volume level (0-1) */
     volume: number;
+    /** Detected tempo, null until it has locked on */
+    bpm: number | null;
+    /** How sure the tempo estimate is (0-1) */
+    beatConfidence: number;
+    /** Position inside the current beat (0 = on the beat) */
+    beatPhase: number;
 }
 
+export interface BeatEvent {
+    /** performance.now() time the beat landed */
+    time: number;
+    bpm: number;
+    confidence: number;
+}
+
+export type BeatListener = (beat: BeatEvent) => void;
+
 interface AudioAnalyzerContextType {
     frequencyData: FrequencyData | null;
     /** Get latest data without React state triggers (Zero allocation) */
@@ -35,6 +56,11 @@ interface AudioAnalyzerContextType {
     analyzer: AnalyserNode | null;
     /** Manually trigger initialization (useful for user interaction requirement) */
     initialize: () => void;
+    /** Detected tempo, rounded - null until it has locked on */
+    bpm: number | null;
+    beatConfidence: number;
+    /** Call the listener on every beat once the tempo has locked on. Returns the unsubscribe function. */
+    onBeat: (listener: BeatListener) => () => void;
 }
 
 const AudioAnalyzerContext = createContext<AudioAnalyzerContextType | undefined>(undefined);
@@ -43,7 +69,7 @@ const DEFAULT_FFT_SIZE = 2048;
 const SMOOTHING_TIME_CONSTANT = 0.8;
 
 export function AudioAnalyzerProvider({ children }: { children: ReactNode }) {
-    const { audio, isPlaying } = usePlayer();
+    const { audio, isPlaying, currentTrack } = usePlayer();
 
     // Use a Ref for frequencyData to allow components to read it without re-rendering
     // We still keep the state version for components that WANT to react (like smaller UI elements)
@@ -51,83 +77,53 @@ export function AudioAnalyzerProvider({ children }: { children: ReactNode }) {
     const frequencyDataRef = useRef<FrequencyData | null>(null);
     const [isInitialized, setIsInitialized] = useState(false);
 
-    // Singleton refs - only one AudioContext per app
+    // Shared graph nodes live in lib/audioGraph - these refs only mirror them for the render loop
     const audioContextRef = useRef<AudioContext | null>(null);
     const analyzerRef = useRef<AnalyserNode | null>(null);
-    const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+    // State mirror so consumers re-render once the shared analyser exists
+    const [analyzerNode, setAnalyzerNode] = useState<AnalyserNode | null>(null);
     const animationFrameRef = useRef<number | null>(null);
     const frequenciesBufferRef = useRef<Uint8Array | null>(null);
     const waveformBufferRef = useRef<Uint8Array | null>(null);
 
-    // Flag to track if we've attempted connection
-    const connectionAttemptedRef = useRef(false);
+    // Beat tracking
+    const levelAnalyserRef = useRef<AnalyserNode | null>(null);
+    const beatTrackerRef = useRef(createBeatTracker());
+    const beatListenersRef = useRef(new Set<BeatListener>());
+    const [bpm, setBpm] = useState<number | null>(null);
+    const [beatConfidence, setBeatConfidence] = useState(0);
 
     const initialize = () => {
         const audioElement = audio;
         if (!audioElement) return;
 
-        // If already connected successfully, don't try again
-        if (connectionAttemptedRef.current && isInitialized) return;
-
         if (!audioElement.src) {
             return;
         }
 
         // CRITICAL CORS SAFETY CHECK:
-        // Connecting a MediaElementSource to a cross-origin URL (like Jamendo's CDN) 
-        // without proper CORS headers will cause the browser to silence the audio 
-        // (outputs zeroes) for security.
-        // We MUST skip initialization if the URL is external and not yet proxied.
-        // Detect if proxied or internal (anything NOT direct Jamendo)
-        const isExternal = audioElement.src.includes('jamendo.com');
-        const isAppwrite = audioElement.src.includes('appwrite.io');
-        const isBlob = audioElement.src.startsWith('blob:');
-
-        if (isExternal && !isAppwrite && !isBlob) {
-
+        // We MUST skip initialization if the URL is external and not yet proxied,
+        // otherwise the browser silences the element.
+        if (!isCaptureSafe(audioElement.src)) {
             return;
         }
 
         try {
-            // Create audio context if it doesn't exist
-            if (!audioContextRef.current) {
-                const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-                audioContextRef.current = new AudioContextClass();
-            }
-            const audioContext = audioContextRef.current;
+            audioContextRef.current = getAudioContext();
 
-            // Create analyzer node if it doesn't exist
+            // Shared analyzer - configured once, reused for every deck
             if (!analyzerRef.current) {
-                const analyzer = audioContext.createAnalyser();
+                const analyzer = getAnalyser();
                 analyzer.fftSize = DEFAULT_FFT_SIZE;
                 analyzer.smoothingTimeConstant = SMOOTHING_TIME_CONSTANT;
                 analyzerRef.current = analyzer;
+                setAnalyzerNode(analyzer);
             }
             const analyzer = analyzerRef.current;
 
-            // Create source from audio element - THIS CAN ONLY BE DONE ONCE
-            if (!sourceRef.current) {
-                try {
-                    const source = audioContext.createMediaElementSource(audioElement);
-                    sourceRef.current = source;
-
-                    // Mark element as captured - PlayerContext will use this to know if it needs to reset
-                    (audioElement as any)._isCaptured = true;
-
-                    // Connect: source → analyzer → destination (speakers)
-                    source.connect(analyzer);
-                    analyzer.connect(audioContext.destination);
-
-                } catch (sourceError: any) {
-                    if (sourceError.name === 'InvalidStateError') {
-                        // Recovery: Audio source already connected.
-                    } else {
-                        throw sourceError;
-                    }
-                }
-            }
-
-            connectionAttemptedRef.current = true;
+            // Route this element through the graph - a no-op if the deck is already connected
+            connectMediaElement(audioElement);
+            levelAnalyserRef.current = getLevelAnalyser();
 
             // Initialize data buffers
             const bufferLength = analyzer.frequencyBinCount;
@@ -136,31 +132,20 @@ export function AudioAnalyzerProvider({ children }: { children: ReactNode }) {
 
             setIsInitialized(true);
 
-
         } catch (error) {
             console.error('[AudioAnalyzerContext] Failed to initialize:', error);
-            connectionAttemptedRef.current = false;
         }
     };
 
-    // Try to initialize when audio element becomes available and has a source
+    // Connect whichever deck is active once it has a source.
+    // The analyser is shared, so swapping decks doesn't reset initialization.
     useEffect(() => {
         const audioElement = audio;
-        if (!audioElement) return;
-
-        // Reset connection flag if the audio element instance changed
-        if ((audioElement as any)._lastInstance !== audioElement) {
-            sourceRef.current = null; // Recreate source node for the new element
-            connectionAttemptedRef.current = false;
-            (audioElement as any)._lastInstance = audioElement;
-            setIsInitialized(false);
-        }
+        if (!audioElement || !audioElement.src) return;
 
-        if (!connectionAttemptedRef.current && audioElement.src) {
-            // Small delay to ensure audio element is fully ready
-            const timeoutId = setTimeout(initialize, 100);
-            return () => clearTimeout(timeoutId);
-        }
+        // Small delay to ensure audio element is fully ready
+        const timeoutId = setTimeout(initialize, 100);
+        return () => clearTimeout(timeoutId);
     }, [audio, audio.src]);
 
     // Resume audio context on user interaction (required by browsers)
@@ -171,6 +156,11 @@ export function AudioAnalyzerProvider({ children }: { children: ReactNode }) {
         }
     }, [isPlaying]);
 
+    // A new track has its own tempo - start listening from scratch
+    useEffect(() => {
+        beatTrackerRef.current.reset();
+    }, [currentTrack?.$id]);
+
     // Analyze audio on every animation frame when playing
     useEffect(() => {
         if (!isInitialized) return;
@@ -183,9 +173,13 @@ export function AudioAnalyzerProvider({ children }: { children: ReactNode }) {
             midEnergy: 0,
             trebleEnergy: 0,
             volume: 0,
+            bpm: null,
+            beatConfidence: 0,
+            beatPhase: 0,
         };
+        let beatSpectrum: Uint8Array<ArrayBuffer> | null = null;
 
-        const analyze = () => {
+        const analyze = (time = performance.now()) => {
             const analyzer = analyzerRef.current;
             const frequencies = frequenciesBufferRef.current;
             const waveform = waveformBufferRef.current;
@@ -218,12 +212,37 @@ export function AudioAnalyzerProvider({ children }: { children: ReactNode }) {
             snapshot.trebleEnergy = Math.min(1, (trebleSum / ((frequencies.length - midEnd) || 1)) * sensitivity);
             snapshot.volume = Math.min(1, (volumeSum / (frequencies.length || 1)) * sensitivity);
 
-            // 3. Update Ref (Synchronous, zero-latency, zero-allocation)
+            // 3. Beat tracking on the unsmoothed spectrum
+            const levelAnalyser = levelAnalyserRef.current;
+            if (levelAnalyser) {
+                if (!beatSpectrum) beatSpectrum = new Uint8Array(levelAnalyser.frequencyBinCount);
+                levelAnalyser.getByteFrequencyData(beatSpectrum);
+                const beat = beatTrackerRef.current.process(beatSpectrum, time);
+                snapshot.bpm = beat.bpm;
+                snapshot.beatConfidence = beat.confidence;
+                snapshot.beatPhase = beat.phase;
+
+                if (beat.isBeat && beat.bpm !== null) {
+                    const event: BeatEvent = { time, bpm: beat.bpm, confidence: beat.confidence };
+                    for (const listener of beatListenersRef.current) {
+                        try {
+                            listener(event);
+                        } catch (error) {
+                            console.warn('[AudioAnalyzerContext] Beat listener failed:', error);
+                        }
+                    }
+                }
+            }
+
+            // 4. Update Ref (Synchronous, zero-latency, zero-allocation)
             frequencyDataRef.current = snapshot;
 
-            // 4. Throttled State Update (Reactive UI)
+            // 5. Throttled State Update (Reactive UI)
             // We only allocate when we actually want to trigger a React render
             if (frameCountRef.current % 4 === 0) {
+                // Rounded so the tempo readout only re-renders when it visibly changes
+                setBpm(snapshot.bpm === null ? null : Math.round(snapshot.bpm));
+                setBeatConfidence(Math.round(snapshot.beatConfidence * 20) / 20);
                 setFrequencyDataState({
                     ...snapshot,
                     frequencies: new Uint8Array(frequencies), // Immutable snapshot for React
@@ -256,13 +275,24 @@ export function AudioAnalyzerProvider({ children }: { children: ReactNode }) {
         };
     }, []);
 
+    // Stable, so subscribers don't resubscribe on every analysis render
+    const subscribeToBeats = useCallback((listener: BeatListener) => {
+        beatListenersRef.current.add(listener);
+        return () => {
+            beatListenersRef.current.delete(listener);
+        };
+    }, []);
+
     return (
         <AudioAnalyzerContext.Provider value={{
             frequencyData: frequencyDataState,
             getFrequencyData: () => frequencyDataRef.current,
-            analyzer: analyzerRef.current,
+            analyzer: analyzerNode,
             isInitialized,
-            initialize
+            initialize,
+            bpm,
+            beatConfidence,
+            onBeat: subscribeToBeats,
         }}>
             {children}
         </AudioAnalyzerContext.Provider>
@@ -0,0 +1,161 @@
+/**
+ * Downloads Context
+ * Offline download manager - downloads one item at a time, tracks per-item
+ * progress and storage use, and removes downloads (see services/download.service).
+ * The context and useDownloads live in hooks/useDownloads.
+ */
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { DownloadsContext, type ActiveDownload, type DownloadStatus } from '../hooks/useDownloads';
+import { downloadService, type DownloadedItem, type DownloadProgress, type StorageUsage } from '../services';
+import type { PlayableItem } from '../types';
+
+// Progress re-renders at most this often per download
+const PROGRESS_THROTTLE_MS = 250;
+
+function without<T>(record: Record<string, T>, key: string): Record<string, T> {
+    if (!(key in record)) return record;
+    const next = { ...record };
+    delete next[key];
+    return next;
+}
+
+export function DownloadsProvider({ children }: { children: ReactNode }) {
+    const isSupported = downloadService.isSupported();
+    const [downloads, setDownloads] = useState<Record<string, DownloadedItem>>(() => downloadService.getDownloads());
+    const [active, setActive] = useState<Record<string, ActiveDownload>>({});
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+    // The worker runs outside render - refs hold the queue and the running download
+    const queueRef = useRef<PlayableItem[]>([]);
+    const runningRef = useRef<{ itemId: string; controller: AbortController } | null>(null);
+
+    const refreshUsage = () => {
+        downloadService.getStorageUsage().then(setUsage);
+    };
+
+    useEffect(() => {
+        downloadService.getStorageUsage().then(setUsage);
+    }, []);
+
+    const runQueue = async () => {
+        if (runningRef.current) return;
+        const item = queueRef.current.shift();
+        if (!item) return;
+
+        const controller = new AbortController();
+        runningRef.current = { itemId: item.$id, controller };
+        setActive(prev => ({ ...prev, [item.$id]: { item, status: 'downloading', progress: null } }));
+
+        let lastReport = 0;
+        const reportProgress = (progress: DownloadProgress) => {
+            const now = Date.now();
+            if (now - lastReport < PROGRESS_THROTTLE_MS) return;
+            lastReport = now;
+            setActive(prev => prev[item.$id] ? { ...prev, [item.$id]: { ...prev[item.$id], progress } } : prev);
+        };
+
+        try {
+            const downloaded = await downloadService.download(item, reportProgress, controller.signal);
+            setDownloads(prev => ({ ...prev, [item.$id]: downloaded }));
+            setActive(prev => without(prev, item.$id));
+        } catch (error) {
+            if (controller.signal.aborted) {
+                setActive(prev => without(prev, item.$id));
+            } else {
+                console.warn('[Downloads] Download failed:', error);
+                const isQuota = error instanceof DOMException && error.name === 'QuotaExceededError';
+
+                // Storage is full - nothing else in the queue will fit either
+                const failed = isQuota ? [item, ...queueRef.current] : [item];
+                if (isQuota) queueRef.current = [];
+
+                setActive(prev => {
+                    const next = { ...prev };
+                    for (const failedItem of failed) {
+                        next[failedItem.$id] = { item: failedItem, status: 'failed', progress: null, error: isQuota ? 'quota' : 'failed' };
+                    }
+                    return next;
+                });
+            }
+        } finally {
+            runningRef.current = null;
+            refreshUsage();
+            runQueue();
+        }
+    };
+
+    const download = (items: PlayableItem[]) => {
+        if (!isSupported) return;
+        const queuedIds = new Set(queueRef.current.map(item => item.$id));
+        const toQueue = items.filter(item =>
+            !downloads[item.$id] &&
+            !queuedIds.has(item.$id) &&
+            runningRef.current?.itemId !== item.$id
+        );
+        if (toQueue.length === 0) return;
+
+        queueRef.current.push(...toQueue);
+        setActive(prev => {
+            const next = { ...prev };
+            for (const item of toQueue) next[item.$id] = { item, status: 'queued', progress: null };
+            return next;
+        });
+        runQueue();
+    };
+
+    const cancel = (itemId: string) => {
+        if (runningRef.current?.itemId === itemId) {
+            runningRef.current.controller.abort();
+        } else {
+            queueRef.current = queueRef.current.filter(item => item.$id !== itemId);
+            setActive(prev => without(prev, itemId));
+        }
+    };
+
+    const remove = async (itemIds: string[]) => {
+        for (const itemId of itemIds) {
+            cancel(itemId);
+            try {
+                await downloadService.remove(itemId);
+            } catch (error) {
+                console.error('[Downloads] Failed to remove download:', error);
+            }
+        }
+        setDownloads(downloadService.getDownloads());
+        refreshUsage();
+    };
+
+    const removeAll = async () => {
+        queueRef.current = [];
+        runningRef.current?.controller.abort();
+        setActive({});
+        try {
+            await downloadService.removeAll();
+        } catch (error) {
+            console.error('[Downloads] Failed to clear downloads:', error);
+        }
+        setDownloads(downloadService.getDownloads());
+        refreshUsage();
+    };
+
+    const getStatus = (itemId: string): DownloadStatus | null => {
+        if (downloads[itemId]) return 'downloaded';
+        return active[itemId]?.status ?? null;
+    };
+
+    return (
+        <DownloadsContext.Provider value={{
+            isSupported,
+            downloads,
+            active,
+            usage,
+            download,
+            cancel,
+            remove,
+            removeAll,
+            getStatus,
+        }}>
+            {children}
+        </DownloadsContext.Provider>
+    );
+}
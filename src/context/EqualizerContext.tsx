@@ -0,0 +1,121 @@
+/**
+ * Equalizer Context
+ * EQ curve, preset selection, user-saved curves and bypass - persisted to
+ * localStorage and pushed into the shared audio graph (see lib/audioGraph).
+ * The context and useEqualizer live in hooks/useEqualizer.
+ */
+import { useEffect, useState, type ReactNode } from 'react';
+import { EqualizerContext, type EqualizerState } from '../hooks/useEqualizer';
+import { setEqualizerBypassed, setEqualizerSettings } from '../lib/audioGraph';
+import {
+    EQ_PRESETS,
+    FLAT_EQ,
+    clampGain,
+    normalizeEqualizerSettings,
+    type EqualizerSettings,
+} from '../lib/equalizer';
+
+const STORAGE_KEY = 'music-app-equalizer';
+
+const DEFAULT_STATE: EqualizerState = {
+    settings: FLAT_EQ,
+    presetName: 'Flat',
+    customPresets: {},
+    bypassed: false,
+};
+
+function loadEqualizerState(): EqualizerState {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        if (!stored || typeof stored !== 'object') return DEFAULT_STATE;
+
+        const customPresets: Record<string, EqualizerSettings> = {};
+        for (const [name, curve] of Object.entries(stored.customPresets ?? {})) {
+            customPresets[name] = normalizeEqualizerSettings(curve as Partial<EqualizerSettings>);
+        }
+
+        return {
+            settings: normalizeEqualizerSettings(stored.settings),
+            presetName: typeof stored.presetName === 'string' ? stored.presetName : null,
+            customPresets,
+            bypassed: !!stored.bypassed,
+        };
+    } catch {
+        return DEFAULT_STATE;
+    }
+}
+
+export function EqualizerProvider({ children }: { children: ReactNode }) {
+    const [state, setState] = useState<EqualizerState>(loadEqualizerState);
+
+    // Persist
+    useEffect(() => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    }, [state]);
+
+    // Push into the graph - stored there until the nodes exist
+    useEffect(() => {
+        setEqualizerSettings(state.settings);
+    }, [state.settings]);
+
+    useEffect(() => {
+        setEqualizerBypassed(state.bypassed);
+    }, [state.bypassed]);
+
+    const editCurve = (update: (settings: EqualizerSettings) => EqualizerSettings) => {
+        setState(prev => ({ ...prev, settings: update(prev.settings), presetName: null }));
+    };
+
+    const setBand = (index: number, db: number) => {
+        editCurve(settings => ({
+            ...settings,
+            bands: settings.bands.map((gain, i) => i === index ? clampGain(db) : gain),
+        }));
+    };
+
+    const applyPreset = (name: string) => {
+        setState(prev => {
+            const preset = prev.customPresets[name] ?? EQ_PRESETS[name];
+            return preset ? { ...prev, settings: preset, presetName: name } : prev;
+        });
+    };
+
+    const saveCustomPreset = (name: string) => {
+        const trimmed = name.trim();
+        // Built-in names stay reserved so presets never shadow each other
+        if (!trimmed || EQ_PRESETS[trimmed]) return;
+        setState(prev => ({
+            ...prev,
+            customPresets: { ...prev.customPresets, [trimmed]: prev.settings },
+            presetName: trimmed,
+        }));
+    };
+
+    const deleteCustomPreset = (name: string) => {
+        setState(prev => {
+            const customPresets = { ...prev.customPresets };
+            delete customPresets[name];
+            return {
+                ...prev,
+                customPresets,
+                presetName: prev.presetName === name ? null : prev.presetName,
+            };
+        });
+    };
+
+    return (
+        <EqualizerContext.Provider value={{
+            ...state,
+            setBand,
+            setPreamp: (db) => editCurve(settings => ({ ...settings, preamp: clampGain(db) })),
+            setBass: (db) => editCurve(settings => ({ ...settings, bass: clampGain(db) })),
+            setTreble: (db) => editCurve(settings => ({ ...settings, treble: clampGain(db) })),
+            applyPreset,
+            saveCustomPreset,
+            deleteCustomPreset,
+            setBypassed: (bypassed) => setState(prev => ({ ...prev, bypassed })),
+        }}>
+            {children}
+        </EqualizerContext.Provider>
+    );
+}
@@ -2,10 +2,18 @@
  * Player Context
  * Global audio player state management with Spotify-like queue functionality
  */
-import { createContext, useContext, useReducer, type ReactNode } from 'react';
-import { historyService } from '../services';
-import type { PlayableItem, PlayerState } from '../types';
-import { useAudioElement } from '../hooks/useAudioElement';
+import { createContext, useContext, useEffect, useReducer, useRef, type ReactNode } from 'react';
+import { historyService, radioService, scrobbleService, sessionService, type PlayerSession, type RadioSeed, type RadioStation } from '../services';
+import type { ABLoop, NormalizationMode, PlayableItem, PlaybackError, PlayerState, SleepTimer } from '../types';
+import { isEpisode, isResumable } from '../utils/trackUtils';
+import { useAudioElement, MAX_CROSSFADE_SECONDS, MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE } from '../hooks/useAudioElement';
+import { useMediaSession } from '../hooks/useMediaSession';
+import { useSleepTimer } from '../hooks/useSleepTimer';
+import { useTabSync, type RemoteCommand, type RemotePlayback } from '../hooks/useTabSync';
+import { useListenEvents } from '../hooks/useListenEvents';
+import { useSkipSilence } from '../hooks/useSkipSilence';
+import { setVoiceBoostEnabled } from '../lib/audioGraph';
+import { useAuth } from './AuthContext';
 
 // Action types
 type PlayerAction =
@@ -15,17 +23,36 @@ type PlayerAction =
     | { type: 'SET_PROGRESS'; payload: number }
     | { type: 'SET_DURATION'; payload: number }
     | { type: 'SET_VOLUME'; payload: number }
-    | { type: 'SET_QUEUE'; payload: PlayableItem[] }
+    | { type: 'SET_QUEUE'; payload: PlayableItem[]; context?: string }
     | { type: 'ADD_TO_QUEUE'; payload: PlayableItem }
+    | { type: 'PLAY_NEXT'; payload: PlayableItem }
     | { type: 'NEXT' }
     | { type: 'PREVIOUS' }
     | { type: 'TOGGLE_SHUFFLE' }
     | { type: 'TOGGLE_REPEAT' }
+    | { type: 'SET_LOOP_POINT'; payload: { point: 'a' | 'b'; time: number } }
+    | { type: 'SET_LOOP'; payload: ABLoop }
+    | { type: 'CLEAR_LOOP' }
+    | { type: 'SET_CROSSFADE'; payload: number }
+    | { type: 'SET_RESUME_THRESHOLD'; payload: number }
+    | { type: 'SET_SLEEP_TIMER'; payload: SleepTimer | null }
+    | { type: 'SET_PLAYBACK_RATE'; payload: number }
+    | { type: 'SET_NORMALIZATION'; payload: NormalizationMode }
+    | { type: 'SET_PLAYBACK_ERROR'; payload: PlaybackError | null }
+    | { type: 'TOGGLE_AUTOPLAY' }
+    | { type: 'TOGGLE_SKIP_SILENCE' }
+    | { type: 'TOGGLE_VOICE_BOOST' }
+    | { type: 'START_RADIO'; payload: { station: RadioStation; queue: PlayableItem[] } }
+    | { type: 'EXTEND_QUEUE'; payload: PlayableItem[] }
     | { type: 'TOGGLE_MOOD_LIGHT' }
     | { type: 'TOGGLE_FULLSCREEN' }
     | { type: 'TOGGLE_AUDIO_CANVAS' }
     | { type: 'REMOVE_FROM_QUEUE'; payload: string }
-    | { type: 'CLEAR_QUEUE' };
+    | { type: 'REORDER_UPCOMING'; payload: PlayableItem[] }
+    | { type: 'REMOVE_FROM_NEXT_UP'; payload: string }
+    | { type: 'REORDER_NEXT_UP'; payload: PlayableItem[] }
+    | { type: 'CLEAR_QUEUE' }
+    | { type: 'HYDRATE'; payload: PlayerSession };
 
 interface PlayerContextType extends PlayerState {
     play: (item: PlayableItem) => void;
@@ -35,16 +62,56 @@ interface PlayerContextType extends PlayerState {
     setVolume: (volume: number) => void;
     next: () => void;
     previous: () => void;
+    /** Add to the end of the "Next up" lane */
     addToQueue: (item: PlayableItem) => void;
-    /** Set the entire queue - enables Spotify-like navigation */
-    setQueue: (items: PlayableItem[]) => void;
+    /** Put at the front of the "Next up" lane */
+    playNext: (item: PlayableItem) => void;
+    /** Set the entire context queue - enables Spotify-like navigation. `context` names it (album, playlist, page) */
+    setQueue: (items: PlayableItem[], context?: string) => void;
     toggleShuffle: () => void;
     toggleRepeat: () => void;
+    /** Set loop point A or B at a position (default: now). Setting B starts looping. */
+    setLoopPoint: (point: 'a' | 'b', time?: number) => void;
+    /** Loop a region of the current item, e.g. a saved loop */
+    setLoop: (loop: ABLoop) => void;
+    clearLoop: () => void;
+    /** Crossfade between queued tracks in seconds (0 = gapless) */
+    setCrossfade: (seconds: number) => void;
+    /** Minimum track length (minutes) that resumes from its saved position, 0 = episodes only */
+    setResumeThreshold: (minutes: number) => void;
+    /** Fade out and pause after a delay or a number of items - null cancels */
+    setSleepTimer: (timer: SleepTimer | null) => void;
+    /** Set the speed for the current show (or for music) - 0.5x to 3x */
+    setPlaybackRate: (rate: number) => void;
+    /** Loudness normalization: per track, per album, or off */
+    setNormalization: (mode: NormalizationMode) => void;
+    /** Keep playing similar tracks once the queue runs out */
+    toggleAutoplay: () => void;
+    /** Episodes: speed through silent stretches */
+    toggleSkipSilence: () => void;
+    /** Episodes: bring quiet voices forward */
+    toggleVoiceBoost: () => void;
+    /** Replace the queue with an endless station built around a track, artist or playlist */
+    startRadio: (seed: RadioSeed) => Promise<void>;
+    /** Station feeding the queue, if one was started */
+    radio: RadioStation | null;
     toggleMoodLight: () => void;
     toggleFullscreen: () => void;
     toggleAudioCanvas: () => void;
     removeFromQueue: (trackId: string) => void;
     clearQueue: () => void;
+    /** Context items still to play, in play order (the shuffle order while shuffling) */
+    upcoming: PlayableItem[];
+    /** Reorder the rest of the context - rewrites the shuffle order while shuffling */
+    reorderUpcoming: (items: PlayableItem[]) => void;
+    removeFromNextUp: (itemId: string) => void;
+    reorderNextUp: (items: PlayableItem[]) => void;
+    /** What the active player in another tab is playing, if another tab is in control */
+    remotePlayback: RemotePlayback | null;
+    /** Control the player in the other tab */
+    sendRemoteCommand: (command: RemoteCommand) => void;
+    /** Reload the failed item and try again */
+    retryPlayback: () => void;
     audio: HTMLAudioElement;
     audioRef: React.RefObject<HTMLAudioElement | null>;
     showMoodLight: boolean;
@@ -55,6 +122,20 @@ interface PlayerContextType extends PlayerState {
 }
 
 interface LocalState extends PlayerState {
+    /** The item NEXT will play - the deck engine preloads it */
+    upNext: PlayableItem | null;
+    /** Queue item ids in shuffled play order - only maintained while shuffle is on */
+    shuffleOrder: string[];
+    /** Last context item that played - the context resumes after it once "Next up" is drained */
+    contextCursor: string | null;
+    /** Items that actually played before the current one, oldest first - PREVIOUS pops it */
+    playHistory: PlayableItem[];
+    /** Remembered speeds, keyed by rateKey() */
+    playbackRates: Record<string, number>;
+    /** Restored track to load paused at a saved position (instead of auto-playing) */
+    cue: { itemId: string; position: number } | null;
+    /** Station feeding the queue - topped up as it runs out, regardless of autoplay */
+    radio: RadioStation | null;
     showMoodLight: boolean;
     showFullscreen: boolean;
     showAudioCanvas: boolean;
@@ -69,23 +150,296 @@ const initialState: LocalState = {
     queue: [],
     shuffle: false,
     repeat: 'none',
+    abLoop: null,
+    nextUp: [],
+    queueContext: null,
+    crossfade: 0,
+    resumeThreshold: 20,
+    sleepTimer: null,
+    playbackRate: 1,
+    normalization: 'track',
+    playbackError: null,
+    autoplay: true,
+    skipSilence: false,
+    voiceBoost: false,
+    radio: null,
+    playbackRates: {},
+    upNext: null,
+    shuffleOrder: [],
+    contextCursor: null,
+    playHistory: [],
+    cue: null,
     showMoodLight: false,
     showFullscreen: false,
     showAudioCanvas: false,
 };
 
+const CROSSFADE_STORAGE_KEY = 'music-app-crossfade';
+const RESUME_THRESHOLD_STORAGE_KEY = 'music-app-resume-threshold';
+const PLAYBACK_RATES_STORAGE_KEY = 'music-app-playback-rates';
+const NORMALIZATION_STORAGE_KEY = 'music-app-normalization';
+const AUTOPLAY_STORAGE_KEY = 'music-app-autoplay';
+const SKIP_SILENCE_STORAGE_KEY = 'music-app-skip-silence';
+const VOICE_BOOST_STORAGE_KEY = 'music-app-voice-boost';
+
+const NORMALIZATION_MODES: NormalizationMode[] = ['off', 'track', 'album'];
+
+// Progress is snapshotted in buckets of this many seconds (plus on unload)
+const SESSION_SAVE_INTERVAL = 5;
+
+// Resume positions are sent to the server at most this often during playback
+const RESUME_SAVE_INTERVAL = 15;
+
+// Upcoming items whose audio is downloaded ahead of time
+const PREFETCH_COUNT = 2;
+
+// How many played items PREVIOUS can walk back through
+const PLAY_HISTORY_LIMIT = 100;
+
+// Radio/autoplay tops the queue up once fewer than this many items are left
+const RADIO_REFILL_THRESHOLD = 2;
+const RADIO_BATCH_SIZE = 10;
+
+// Shortest A-B loop - anything tighter would stutter rather than loop
+const MIN_LOOP_SECONDS = 0.5;
+
+function clampCrossfade(seconds: number): number {
+    if (!Number.isFinite(seconds)) return 0;
+    return Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds));
+}
+
+function clampPlaybackRate(rate: number): number {
+    if (!Number.isFinite(rate)) return 1;
+    return Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+}
+
+/**
+ * Speeds are remembered per podcast show, and once for all music
+ */
+function rateKey(item: PlayableItem): string {
+    return isEpisode(item) ? `podcast:${item.podcast_id}` : 'music';
+}
+
+function loadPlaybackRates(): Record<string, number> {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PLAYBACK_RATES_STORAGE_KEY) || '{}');
+        return stored && typeof stored === 'object' ? stored : {};
+    } catch {
+        return {};
+    }
+}
+
+function loadInitialState(state: LocalState): LocalState {
+    const stored = Number(localStorage.getItem(CROSSFADE_STORAGE_KEY));
+    const storedThreshold = localStorage.getItem(RESUME_THRESHOLD_STORAGE_KEY);
+    const storedNormalization = localStorage.getItem(NORMALIZATION_STORAGE_KEY) as NormalizationMode | null;
+    return {
+        ...state,
+        autoplay: localStorage.getItem(AUTOPLAY_STORAGE_KEY) !== 'false',
+        skipSilence: localStorage.getItem(SKIP_SILENCE_STORAGE_KEY) === 'true',
+        voiceBoost: localStorage.getItem(VOICE_BOOST_STORAGE_KEY) === 'true',
+        normalization: storedNormalization && NORMALIZATION_MODES.includes(storedNormalization)
+            ? storedNormalization
+            : state.normalization,
+        playbackRates: loadPlaybackRates(),
+        crossfade: clampCrossfade(stored),
+        resumeThreshold: storedThreshold !== null
+            ? Math.max(0, Number(storedThreshold) || 0)
+            : state.resumeThreshold,
+    };
+}
+
+/**
+ * Fisher–Yates shuffle of queue ids. `firstId` (the current item) stays in front
+ * so the whole rest of the queue plays before anything repeats.
+ */
+function createShuffleOrder(queue: PlayableItem[], firstId?: string): string[] {
+    const ids = queue.map(t => t.$id).filter(id => id !== firstId);
+    for (let i = ids.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [ids[i], ids[j]] = [ids[j], ids[i]];
+    }
+    return firstId && queue.some(t => t.$id === firstId) ? [firstId, ...ids] : ids;
+}
+
+/**
+ * Keep the shuffle order in step with the queue: drop removed ids and slot
+ * new ones in at random positions among the items that haven't played yet.
+ */
+function syncShuffleOrder(order: string[], queue: PlayableItem[], currentId?: string): string[] {
+    const queueIds = new Set(queue.map(t => t.$id));
+    const next = order.filter(id => queueIds.has(id));
+    const known = new Set(next);
+
+    for (const item of queue) {
+        if (known.has(item.$id)) continue;
+        const firstUnplayed = next.indexOf(currentId ?? '') + 1;
+        const at = firstUnplayed + Math.floor(Math.random() * (next.length - firstUnplayed + 1));
+        next.splice(at, 0, item.$id);
+    }
+    return next;
+}
+
+/**
+ * Context queue ids in play order (the shuffle order while shuffling)
+ */
+function getPlayOrder(state: LocalState): string[] {
+    return state.shuffle ? state.shuffleOrder : state.queue.map(t => t.$id);
+}
+
+/**
+ * Context items still to play after the cursor, in play order
+ */
+function getUpcoming(state: LocalState): PlayableItem[] {
+    const order = getPlayOrder(state);
+    const cursorIdx = state.contextCursor ? order.indexOf(state.contextCursor) : -1;
+    return order
+        .slice(cursorIdx + 1)
+        .map(id => state.queue.find(t => t.$id === id))
+        .filter((t): t is PlayableItem => !!t);
+}
+
+/**
+ * Work out which item plays after the current one, so the deck engine
+ * preloads exactly what NEXT will play. "Next up" always goes first.
+ */
+function pickUpNext(state: LocalState): PlayableItem | null {
+    if (!state.currentTrack) return null;
+    if (state.nextUp.length > 0) return state.nextUp[0];
+    if (state.queue.length === 0) return null;
+
+    const upcoming = getUpcoming(state);
+    if (upcoming.length > 0) return upcoming[0];
+    if (state.repeat !== 'all') return null;
+
+    // Repeat all wraps to the start of the (shuffled) order
+    const firstId = getPlayOrder(state)[0];
+    return state.queue.find(t => t.$id === firstId) ?? null;
+}
+
+/**
+ * The next few items to download ahead - upNext first, then what follows it
+ */
+function getPrefetchItems(state: LocalState): PlayableItem[] {
+    if (!state.currentTrack || !state.upNext) return [];
+    const items = [state.upNext];
+    for (const item of [...state.nextUp, ...getUpcoming(state)]) {
+        if (items.length >= PREFETCH_COUNT) break;
+        if (item.$id !== state.currentTrack.$id && !items.some(t => t.$id === item.$id)) items.push(item);
+    }
+    return items;
+}
+
+/**
+ * Item PREVIOUS falls back to when there's no play history
+ */
+function pickPrevious(state: LocalState): PlayableItem | null {
+    const order = getPlayOrder(state);
+    if (order.length === 0) return null;
+
+    const cursorIdx = state.contextCursor ? order.indexOf(state.contextCursor) : -1;
+    // Nothing from the context played yet - use the last one
+    if (cursorIdx === -1) return state.queue.find(t => t.$id === order[order.length - 1]) ?? null;
+
+    // Playing something from "Next up" - back to the context item it interrupted
+    if (state.currentTrack?.$id !== state.contextCursor) {
+        return state.queue.find(t => t.$id === state.contextCursor) ?? null;
+    }
+
+    const prevIdx = cursorIdx > 0 ? cursorIdx - 1 : (state.repeat === 'all' ? order.length - 1 : cursorIdx);
+    return state.queue.find(t => t.$id === order[prevIdx]) ?? null;
+}
+
+/**
+ * Cursor for a newly current item - moves only when the item belongs to the context
+ */
+function cursorFor(state: LocalState, item: PlayableItem | null): string | null {
+    return item && state.queue.some(t => t.$id === item.$id) ? item.$id : state.contextCursor;
+}
+
 function playerReducer(state: LocalState, action: PlayerAction): LocalState {
+    let nextState = reducePlayerAction(state, action);
+    if (nextState === state) return nextState;
+
+    const sameTrack = nextState.currentTrack?.$id === state.currentTrack?.$id;
+
+    // A restored track only stays cued until something else is played
+    if (!sameTrack && nextState.cue && action.type !== 'HYDRATE') {
+        nextState = { ...nextState, cue: null };
+    }
+
+    // An error belongs to the item that failed
+    if (!sameTrack && nextState.playbackError) {
+        nextState = { ...nextState, playbackError: null };
+    }
+
+    // Each show (and music as a whole) plays at its remembered speed
+    if (!sameTrack && nextState.currentTrack) {
+        const playbackRate = clampPlaybackRate(nextState.playbackRates[rateKey(nextState.currentTrack)] ?? 1);
+        if (playbackRate !== nextState.playbackRate) nextState = { ...nextState, playbackRate };
+    }
+
+    // Remember what actually played so PREVIOUS can walk back through it
+    if (!sameTrack && state.currentTrack && action.type !== 'PREVIOUS' && action.type !== 'HYDRATE') {
+        nextState = {
+            ...nextState,
+            playHistory: [...nextState.playHistory, state.currentTrack].slice(-PLAY_HISTORY_LIMIT),
+        };
+    }
+
+    // Shuffle order: fresh permutation when shuffle turns on, otherwise follow queue edits
+    if (nextState.shuffle && (!state.shuffle || action.type === 'HYDRATE')) {
+        nextState = { ...nextState, shuffleOrder: createShuffleOrder(nextState.queue, nextState.contextCursor ?? undefined) };
+    } else if (nextState.shuffle && nextState.queue !== state.queue) {
+        nextState = { ...nextState, shuffleOrder: syncShuffleOrder(nextState.shuffleOrder, nextState.queue, nextState.contextCursor ?? undefined) };
+    } else if (!nextState.shuffle && nextState.shuffleOrder.length > 0) {
+        // Shuffle off - play order is the queue order again
+        nextState = { ...nextState, shuffleOrder: [] };
+    }
+
+    // A-B loops belong to the item they were set on
+    if (!sameTrack && (nextState.abLoop || nextState.repeat === 'ab')) {
+        nextState = { ...nextState, abLoop: null, repeat: nextState.repeat === 'ab' ? 'none' : nextState.repeat };
+    }
+
+    // Count down "stop after N tracks" - the last one is never skipped past
+    if (!sameTrack && state.currentTrack && nextState.sleepTimer?.mode === 'tracks') {
+        const remaining = Math.max(1, nextState.sleepTimer.remaining - 1);
+        nextState = { ...nextState, sleepTimer: { mode: 'tracks', remaining } };
+    }
+
+    if (sameTrack && nextState.queue === state.queue && nextState.shuffleOrder === state.shuffleOrder &&
+        nextState.nextUp === state.nextUp && nextState.contextCursor === state.contextCursor &&
+        nextState.shuffle === state.shuffle && nextState.repeat === state.repeat) {
+        return nextState;
+    }
+    return { ...nextState, upNext: pickUpNext(nextState) };
+}
+
+function reducePlayerAction(state: LocalState, action: PlayerAction): LocalState {
     switch (action.type) {
         case 'SET_TRACK': {
             const newTrack = action.payload;
-            // If track is not in queue, add it. If queue is empty, create queue with this track.
-            let newQueue = [...state.queue];
-            const trackIndex = newQueue.findIndex(t => t.$id === newTrack.$id);
-            if (trackIndex === -1) {
-                // Track not in queue, add it
-                newQueue = [...newQueue, newTrack];
+            // Playing something from outside the context doesn't touch the queue -
+            // the context picks up after it. Picking it out of "Next up" takes it off the lane.
+            const inContext = state.queue.some(t => t.$id === newTrack.$id);
+            const nextUp = state.nextUp.filter(t => t.$id !== newTrack.$id);
+
+            // Shuffling: the picked item plays now, the rest of the order stays as it was
+            let shuffleOrder = state.shuffleOrder;
+            if (state.shuffle && inContext) {
+                shuffleOrder = state.shuffleOrder.filter(id => id !== newTrack.$id);
+                const cursorIdx = shuffleOrder.indexOf(state.contextCursor ?? '');
+                shuffleOrder.splice(cursorIdx + 1, 0, newTrack.$id);
             }
-            return { ...state, currentTrack: newTrack, progress: 0, queue: newQueue };
+            return {
+                ...state,
+                currentTrack: newTrack,
+                progress: 0,
+                nextUp,
+                shuffleOrder,
+                contextCursor: cursorFor(state, newTrack),
+            };
         }
         case 'PLAY':
             return { ...state, isPlaying: true };
@@ -97,62 +451,140 @@ function playerReducer(state: LocalState, action: PlayerAction): LocalState {
             return { ...state, duration: action.payload };
         case 'SET_VOLUME':
             return { ...state, volume: action.payload };
-        case 'SET_QUEUE':
-            return { ...state, queue: action.payload };
+        case 'SET_QUEUE': {
+            const queue = action.payload;
+            const current = state.currentTrack;
+            return {
+                ...state,
+                queue,
+                queueContext: action.context ?? null,
+                contextCursor: current && queue.some(t => t.$id === current.$id) ? current.$id : null,
+                radio: null,
+            };
+        }
         case 'ADD_TO_QUEUE':
             // Avoid duplicates
-            if (state.queue.some(t => t.$id === action.payload.$id)) {
+            if (state.nextUp.some(t => t.$id === action.payload.$id)) {
                 return state;
             }
-            return { ...state, queue: [...state.queue, action.payload] };
+            return { ...state, nextUp: [...state.nextUp, action.payload] };
+        case 'PLAY_NEXT':
+            return {
+                ...state,
+                nextUp: [action.payload, ...state.nextUp.filter(t => t.$id !== action.payload.$id)],
+            };
         case 'TOGGLE_SHUFFLE':
             return { ...state, shuffle: !state.shuffle };
         case 'TOGGLE_REPEAT':
+            // Leaving A-B mode drops the loop - the cycle starts over from off
+            if (state.repeat === 'ab') return { ...state, repeat: 'none', abLoop: null };
             const repeatModes: PlayerState['repeat'][] = ['none', 'one', 'all'];
             const currentIndex = repeatModes.indexOf(state.repeat);
             return { ...state, repeat: repeatModes[(currentIndex + 1) % 3] };
+        case 'SET_LOOP_POINT': {
+            if (!state.currentTrack) return state;
+            const { point, time } = action.payload;
+            if (point === 'a') {
+                // An A at or past B starts over with just A
+                const b = state.abLoop?.b ?? null;
+                const keepB = b !== null && b - time >= MIN_LOOP_SECONDS;
+                return {
+                    ...state,
+                    abLoop: { a: time, b: keepB ? b : null },
+                    repeat: keepB ? 'ab' : (state.repeat === 'ab' ? 'none' : state.repeat),
+                };
+            }
+            // B without A loops from the start
+            const a = state.abLoop?.a ?? 0;
+            if (time - a < MIN_LOOP_SECONDS) return state;
+            return { ...state, abLoop: { a, b: time }, repeat: 'ab' };
+        }
+        case 'SET_LOOP': {
+            const { a, b } = action.payload;
+            if (!state.currentTrack || b === null || b - a < MIN_LOOP_SECONDS) return state;
+            return { ...state, abLoop: { a, b }, repeat: 'ab' };
+        }
+        case 'CLEAR_LOOP':
+            return { ...state, abLoop: null, repeat: state.repeat === 'ab' ? 'none' : state.repeat };
+        case 'SET_CROSSFADE':
+            return { ...state, crossfade: clampCrossfade(action.payload) };
+        case 'SET_RESUME_THRESHOLD':
+            return { ...state, resumeThreshold: Math.max(0, action.payload) };
+        case 'SET_SLEEP_TIMER':
+            return { ...state, sleepTimer: action.payload };
+        case 'SET_NORMALIZATION':
+            return { ...state, normalization: action.payload };
+        case 'SET_PLAYBACK_ERROR':
+            // Late reports for an item that is no longer current are dropped
+            if (action.payload && action.payload.itemId !== state.currentTrack?.$id) return state;
+            return { ...state, playbackError: action.payload };
+        case 'TOGGLE_AUTOPLAY':
+            return { ...state, autoplay: !state.autoplay };
+        case 'TOGGLE_SKIP_SILENCE':
+            return { ...state, skipSilence: !state.skipSilence };
+        case 'TOGGLE_VOICE_BOOST':
+            return { ...state, voiceBoost: !state.voiceBoost };
+        case 'START_RADIO': {
+            const { station, queue } = action.payload;
+            if (queue.length === 0) return state;
+            // A station never runs out, and it's only topped up when not repeating
+            return {
+                ...state,
+                repeat: 'none',
+                radio: station,
+                queue,
+                queueContext: station.name,
+                currentTrack: queue[0],
+                progress: 0,
+                contextCursor: queue[0].$id,
+            };
+        }
+        case 'EXTEND_QUEUE': {
+            const queuedIds = new Set(state.queue.map(t => t.$id));
+            const additions = action.payload.filter(t => !queuedIds.has(t.$id));
+            return additions.length > 0 ? { ...state, queue: [...state.queue, ...additions] } : state;
+        }
+        case 'SET_PLAYBACK_RATE': {
+            const playbackRate = clampPlaybackRate(action.payload);
+            if (!state.currentTrack) return { ...state, playbackRate };
+            return {
+                ...state,
+                playbackRate,
+                playbackRates: { ...state.playbackRates, [rateKey(state.currentTrack)]: playbackRate },
+            };
+        }
         case 'NEXT': {
-            if (!state.currentTrack || state.queue.length === 0) return state;
-            const currentIdx = state.queue.findIndex(t => t.$id === state.currentTrack?.$id);
+            if (!state.currentTrack) return state;
 
-            // If current track not found in queue, use first track
-            if (currentIdx === -1) {
-                return { ...state, currentTrack: state.queue[0], progress: 0 };
+            // upNext is resolved ahead of time (see pickUpNext) - null means end of queue
+            const next = state.upNext;
+            if (!next) {
+                return state.queue.length === 0 ? state : { ...state, progress: 0 };
             }
-
-            let nextIdx: number;
-            if (state.shuffle) {
-                // Shuffle: pick random different track
-                do {
-                    nextIdx = Math.floor(Math.random() * state.queue.length);
-                } while (nextIdx === currentIdx && state.queue.length > 1);
-            } else {
-                nextIdx = currentIdx + 1;
-                if (nextIdx >= state.queue.length) {
-                    nextIdx = state.repeat === 'all' ? 0 : currentIdx;
-                }
+            if (state.nextUp[0]?.$id === next.$id) {
+                return { ...state, currentTrack: next, progress: 0, nextUp: state.nextUp.slice(1) };
             }
-            return { ...state, currentTrack: state.queue[nextIdx], progress: 0 };
+            return { ...state, currentTrack: next, progress: 0, contextCursor: next.$id };
         }
         case 'PREVIOUS': {
-            if (!state.currentTrack || state.queue.length === 0) return state;
-            const currentIdx = state.queue.findIndex(t => t.$id === state.currentTrack?.$id);
+            if (!state.currentTrack) return state;
 
-            // If current track not found in queue, use last track
-            if (currentIdx === -1) {
-                return { ...state, currentTrack: state.queue[state.queue.length - 1], progress: 0 };
+            // Go back to what actually played before this
+            if (state.playHistory.length > 0) {
+                const previous = state.playHistory[state.playHistory.length - 1];
+                return {
+                    ...state,
+                    currentTrack: previous,
+                    progress: 0,
+                    playHistory: state.playHistory.slice(0, -1),
+                    contextCursor: cursorFor(state, previous),
+                };
             }
 
-            let prevIdx: number;
-            if (state.shuffle) {
-                // Shuffle: pick random different track
-                do {
-                    prevIdx = Math.floor(Math.random() * state.queue.length);
-                } while (prevIdx === currentIdx && state.queue.length > 1);
-            } else {
-                prevIdx = currentIdx > 0 ? currentIdx - 1 : (state.repeat === 'all' ? state.queue.length - 1 : currentIdx);
-            }
-            return { ...state, currentTrack: state.queue[prevIdx], progress: 0 };
+            const previous = pickPrevious(state);
+            return previous
+                ? { ...state, currentTrack: previous, progress: 0, contextCursor: previous.$id }
+                : state;
         }
         case 'TOGGLE_MOOD_LIGHT':
             return { ...state, showMoodLight: !state.showMoodLight };
@@ -164,16 +596,68 @@ function playerReducer(state: LocalState, action: PlayerAction): LocalState {
             const trackIdToRemove = action.payload;
             const newQueue = state.queue.filter(t => t.$id !== trackIdToRemove);
 
+            // Removing the cursor item: the context resumes after the item before it
+            let contextCursor = state.contextCursor;
+            if (contextCursor === trackIdToRemove) {
+                const order = getPlayOrder(state);
+                contextCursor = order[order.indexOf(trackIdToRemove) - 1] ?? null;
+            }
+
             // If we removed the currently playing track, we might want to skip to next
             // but usually remove just removes it from the list. 
             // If the track being removed is current, we keep it playing but it's no longer in queue.
             // This matches Spotify behavior (removing current track from queue doesn't stop playback).
-            return { ...state, queue: newQueue };
+            return { ...state, queue: newQueue, contextCursor };
+        }
+        case 'REORDER_UPCOMING': {
+            const upcomingIds = action.payload.map(t => t.$id);
+            if (state.shuffle) {
+                const cursorIdx = state.shuffleOrder.indexOf(state.contextCursor ?? '');
+                return { ...state, shuffleOrder: [...state.shuffleOrder.slice(0, cursorIdx + 1), ...upcomingIds] };
+            }
+            const cursorIdx = state.queue.findIndex(t => t.$id === state.contextCursor);
+            const played = cursorIdx >= 0 ? state.queue.slice(0, cursorIdx + 1) : [];
+            return { ...state, queue: [...played, ...action.payload] };
+        }
+        case 'REMOVE_FROM_NEXT_UP':
+            return { ...state, nextUp: state.nextUp.filter(t => t.$id !== action.payload) };
+        case 'REORDER_NEXT_UP':
+            return { ...state, nextUp: action.payload };
+        case 'CLEAR_QUEUE': {
+            // Spotify keeps current track - and clears "Next up" along with the context
+            const keepCurrent = !!state.currentTrack && state.queue.some(t => t.$id === state.currentTrack?.$id);
+            return {
+                ...state,
+                queue: keepCurrent ? [state.currentTrack!] : [],
+                nextUp: [],
+                contextCursor: keepCurrent ? state.currentTrack!.$id : null,
+                radio: null,
+            };
+        }
+        case 'HYDRATE': {
+            // The listener already started something - their choice wins over the stored session
+            if (state.currentTrack || state.queue.length > 0 || state.nextUp.length > 0) return state;
+
+            const session = action.payload;
+            return {
+                ...state,
+                queue: session.queue,
+                nextUp: session.nextUp,
+                queueContext: session.queueContext,
+                contextCursor: session.currentTrack && session.queue.some(t => t.$id === session.currentTrack?.$id)
+                    ? session.currentTrack.$id
+                    : null,
+                currentTrack: session.currentTrack,
+                progress: session.progress,
+                volume: session.volume,
+                shuffle: session.shuffle,
+                repeat: session.repeat,
+                isPlaying: false,
+                cue: session.currentTrack
+                    ? { itemId: session.currentTrack.$id, position: session.progress }
+                    : null,
+            };
         }
-        case 'CLEAR_QUEUE':
-            // Keep current track but clear everything else? Or clear everything?
-            // Spotify keeps current track.
-            return { ...state, queue: state.currentTrack ? [state.currentTrack] : [] };
         default:
             return state;
     }
@@ -182,31 +666,291 @@ function playerReducer(state: LocalState, action: PlayerAction): LocalState {
 const PlayerContext = createContext<PlayerContextType | undefined>(undefined);
 
 export function PlayerProvider({ children }: { children: ReactNode }) {
-    const [state, dispatch] = useReducer(playerReducer, initialState);
+    const [state, dispatch] = useReducer(playerReducer, initialState, loadInitialState);
+
+    // Persist crossfade preference
+    useEffect(() => {
+        localStorage.setItem(CROSSFADE_STORAGE_KEY, String(state.crossfade));
+    }, [state.crossfade]);
+
+    useEffect(() => {
+        localStorage.setItem(RESUME_THRESHOLD_STORAGE_KEY, String(state.resumeThreshold));
+    }, [state.resumeThreshold]);
+
+    useEffect(() => {
+        localStorage.setItem(PLAYBACK_RATES_STORAGE_KEY, JSON.stringify(state.playbackRates));
+    }, [state.playbackRates]);
+
+    useEffect(() => {
+        localStorage.setItem(NORMALIZATION_STORAGE_KEY, state.normalization);
+    }, [state.normalization]);
+
+    useEffect(() => {
+        localStorage.setItem(AUTOPLAY_STORAGE_KEY, String(state.autoplay));
+    }, [state.autoplay]);
+
+    useEffect(() => {
+        localStorage.setItem(SKIP_SILENCE_STORAGE_KEY, String(state.skipSilence));
+    }, [state.skipSilence]);
+
+    useEffect(() => {
+        localStorage.setItem(VOICE_BOOST_STORAGE_KEY, String(state.voiceBoost));
+    }, [state.voiceBoost]);
 
-    const { audio, audioRef, seek } = useAudioElement({
+    // Restore the previous session once - queue and position come back, playback doesn't start
+    const hydratedRef = useRef(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        const session = sessionService.load();
+        if (!session) {
+            hydratedRef.current = true;
+            return;
+        }
+
+        sessionService.resolve(session)
+            .then((restored) => {
+                if (!cancelled) dispatch({ type: 'HYDRATE', payload: restored });
+            })
+            .catch((err) => console.warn('[Player] Session restore failed:', err))
+            .finally(() => {
+                if (!cancelled) hydratedRef.current = true;
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    // Persist the session. Progress only triggers a save every few seconds; unload saves the exact position.
+    const latestSessionRef = useRef<PlayerSession | null>(null);
+    const progressBucket = Math.floor(state.progress / SESSION_SAVE_INTERVAL);
+
+    useEffect(() => {
+        latestSessionRef.current = {
+            queue: state.queue,
+            nextUp: state.nextUp,
+            queueContext: state.queueContext,
+            currentTrack: state.currentTrack,
+            progress: state.progress,
+            volume: state.volume,
+            shuffle: state.shuffle,
+            repeat: state.repeat,
+        };
+    });
+
+    useEffect(() => {
+        // Don't overwrite the stored session with the empty initial state before it's restored
+        if (!hydratedRef.current || !latestSessionRef.current) return;
+        sessionService.save(latestSessionRef.current);
+    }, [state.queue, state.nextUp, state.currentTrack, state.volume, state.shuffle, state.repeat, progressBucket]);
+
+    useEffect(() => {
+        const handlePageHide = () => {
+            if (hydratedRef.current && latestSessionRef.current) {
+                sessionService.save(latestSessionRef.current);
+            }
+        };
+        window.addEventListener('pagehide', handlePageHide);
+        return () => window.removeEventListener('pagehide', handlePageHide);
+    }, []);
+
+    // The engine stops at the end of the current item instead of advancing
+    const stopAtEnd = state.sleepTimer?.mode === 'tracks' && state.sleepTimer.remaining <= 1;
+
+    const { audio, audioRef, seek, retry: retryPlayback } = useAudioElement({
         currentTrack: state.currentTrack,
+        upNext: state.upNext,
+        prefetch: getPrefetchItems(state),
+        cue: state.cue,
         volume: state.volume,
         repeatMode: state.repeat,
+        abLoop: state.abLoop,
         shuffle: state.shuffle,
+        crossfade: state.crossfade,
+        resumeThreshold: state.resumeThreshold,
+        stopAtEnd,
+        playbackRate: state.playbackRate,
+        normalization: state.normalization,
         onProgress: (time) => dispatch({ type: 'SET_PROGRESS', payload: time }),
         onDuration: (duration) => dispatch({ type: 'SET_DURATION', payload: duration }),
-        onEnded: () => { /* Handle ended if needed specifically, but hook handles NEXT/REPEAT */ },
+        onEnded: () => {
+            // Hook handles NEXT/REPEAT - only a finished sleep timer needs handling here
+            if (stopAtEnd) {
+                dispatch({ type: 'PAUSE' });
+                dispatch({ type: 'SET_SLEEP_TIMER', payload: null });
+            }
+        },
         onPlay: () => dispatch({ type: 'PLAY' }),
         onPause: () => dispatch({ type: 'PAUSE' }),
-        onNext: () => dispatch({ type: 'NEXT' })
+        onNext: () => dispatch({ type: 'NEXT' }),
+        onError: (error) => dispatch({ type: 'SET_PLAYBACK_ERROR', payload: error })
     });
 
+    // OS-level controls (media keys, lock screen, now-playing widgets)
+    useMediaSession({
+        currentTrack: state.currentTrack,
+        isPlaying: state.isPlaying,
+        progress: state.progress,
+        duration: state.duration,
+        playbackRate: state.playbackRate,
+        onPlay: () => resume(),
+        onPause: () => pause(),
+        onNext: () => next(),
+        onPrevious: () => previous(),
+        onSeek: (time) => seek(time),
+    });
+
+    // Only one tab plays at a time - the others act as remotes
+    const { remote: remotePlayback, sendCommand: sendRemoteCommand } = useTabSync({
+        currentTrack: state.currentTrack,
+        isPlaying: state.isPlaying,
+        progress: state.progress,
+        duration: state.duration,
+        playbackRate: state.playbackRate,
+        onPause: () => pause(),
+        onCommand: (command) => {
+            if (command === 'play') resume();
+            else if (command === 'pause') pause();
+            else if (command === 'next') next();
+            else previous();
+        },
+    });
+
+    useSleepTimer({
+        sleepTimer: state.sleepTimer,
+        audioRef,
+        volume: state.volume,
+        progress: state.progress,
+        duration: state.duration,
+        playbackRate: state.playbackRate,
+        onExpire: () => {
+            pause();
+            dispatch({ type: 'SET_SLEEP_TIMER', payload: null });
+        },
+    });
+
+    // Starts, qualified plays, skips and seeks - only qualified plays count as history
+    useListenEvents({
+        currentTrack: state.currentTrack,
+        isPlaying: state.isPlaying,
+        progress: state.progress,
+        duration: state.duration,
+        playbackRate: state.playbackRate,
+        crossfade: state.crossfade,
+        abLoop: state.repeat === 'ab' ? state.abLoop : null,
+    });
+
+    // Spoken-word modes only ever apply to episodes
+    const episode = state.currentTrack && isEpisode(state.currentTrack) ? state.currentTrack : null;
+
+    useSkipSilence({
+        enabled: state.skipSilence && state.isPlaying,
+        episode,
+        audioRef,
+        volume: state.volume,
+        playbackRate: state.playbackRate,
+    });
+
+    useEffect(() => {
+        setVoiceBoostEnabled(state.voiceBoost && !!episode);
+    }, [state.voiceBoost, episode]);
+
+    // External scrobblers follow the same events
+    useEffect(() => scrobbleService.start(), []);
+
+    // Radio and autoplay: top the queue up with similar tracks before it runs out.
+    // Only while playing (a restored session doesn't fetch) and never when repeating.
+    const { user } = useAuth();
+    const radioRequestRef = useRef(0);
+    const remaining = state.nextUp.length + getUpcoming(state).length;
+    const needsRadio = !!state.currentTrack && state.isPlaying && state.repeat === 'none' &&
+        (state.autoplay || !!state.radio) && remaining < RADIO_REFILL_THRESHOLD;
+
+    const radioInputsRef = useRef({ state, userId: user?.$id });
+    useEffect(() => {
+        radioInputsRef.current = { state, userId: user?.$id };
+    });
+
+    useEffect(() => {
+        if (!needsRadio) return;
+        const { state: current, userId } = radioInputsRef.current;
+        if (!current.currentTrack) return;
+
+        const played = [...current.playHistory, current.currentTrack];
+        const station = current.radio ?? radioService.createStation({
+            type: 'history',
+            tracks: radioService.getHistorySeeds(played),
+        });
+        // Nothing to build on (e.g. only episodes played)
+        if (station.seedTracks.length === 0 && station.seedArtists.length === 0) return;
+
+        const requestId = ++radioRequestRef.current;
+        const exclude = new Set([...played, ...current.queue, ...current.nextUp].map(item => item.$id));
+        radioService.getStationTracks(station, { exclude, userId, limit: RADIO_BATCH_SIZE })
+            .then((tracks) => {
+                if (radioRequestRef.current === requestId && tracks.length > 0) {
+                    dispatch({ type: 'EXTEND_QUEUE', payload: tracks });
+                }
+            })
+            .catch((err) => console.warn('[Player] Radio top-up failed:', err));
+    }, [needsRadio, state.currentTrack?.$id]);
+
+    /**
+     * Save the resume position of the current item
+     * Best-effort - a failed write just means resuming from an older position.
+     */
+    function savePosition() {
+        const item = state.currentTrack;
+        const element = audioRef.current;
+        if (!item || !element || element.currentTime <= 0) return;
+        historyService.updatePosition(item.$id, element.currentTime, isEpisode(item))
+            .catch((err) => console.warn('[Player] Failed to save position:', err));
+    }
+
+    const savePositionRef = useRef(savePosition);
+    useEffect(() => {
+        savePositionRef.current = savePosition;
+    });
+
+    // Keep long items' positions fresh during playback, not only on pause
+    const resumable = !!state.currentTrack && isResumable(state.currentTrack, state.resumeThreshold);
+    const resumeBucket = Math.floor(state.progress / RESUME_SAVE_INTERVAL);
+
+    useEffect(() => {
+        if (!resumable || !state.isPlaying || resumeBucket === 0) return;
+        savePositionRef.current();
+    }, [resumable, state.isPlaying, resumeBucket]);
+
+    // The tab may never come back - save when it's hidden or unloaded
+    useEffect(() => {
+        if (!resumable) return;
+
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') savePositionRef.current();
+        };
+        const handlePageHide = () => savePositionRef.current();
+
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        window.addEventListener('pagehide', handlePageHide);
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            window.removeEventListener('pagehide', handlePageHide);
+        };
+    }, [resumable]);
+
     function play(item: PlayableItem) {
+        // A restored track is already loaded at its saved position - just start it
+        if (state.cue?.itemId === item.$id && state.currentTrack?.$id === item.$id) {
+            resume();
+            return;
+        }
         dispatch({ type: 'SET_TRACK', payload: item });
     }
 
     function pause() {
         // Save position before pausing
-        if (state.currentTrack) {
-            const isEpisode = 'episode_id' in state.currentTrack;
-            historyService.updatePosition(state.currentTrack.$id, audio.currentTime, isEpisode);
-        }
+        savePosition();
         audio.pause();
         dispatch({ type: 'PAUSE' });
     }
@@ -232,12 +976,16 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
         dispatch({ type: 'ADD_TO_QUEUE', payload: item });
     }
 
+    function playNext(item: PlayableItem) {
+        dispatch({ type: 'PLAY_NEXT', payload: item });
+    }
+
     /**
      * Set the entire playback queue - Spotify-like pattern
      * Call this when loading a list of tracks to enable seamless next/previous
      */
-    function setQueue(items: PlayableItem[]) {
-        dispatch({ type: 'SET_QUEUE', payload: items });
+    function setQueue(items: PlayableItem[], context?: string) {
+        dispatch({ type: 'SET_QUEUE', payload: items, context });
     }
 
     function toggleShuffle() {
@@ -248,6 +996,83 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
         dispatch({ type: 'TOGGLE_REPEAT' });
     }
 
+    function setLoopPoint(point: 'a' | 'b', time?: number) {
+        const position = time ?? audioRef.current?.currentTime ?? state.progress;
+        dispatch({ type: 'SET_LOOP_POINT', payload: { point, time: Math.max(0, position) } });
+    }
+
+    function setLoop(loop: ABLoop) {
+        dispatch({ type: 'SET_LOOP', payload: loop });
+        // Start from the top of the loop
+        seek(loop.a);
+    }
+
+    function clearLoop() {
+        dispatch({ type: 'CLEAR_LOOP' });
+    }
+
+    function setCrossfade(seconds: number) {
+        dispatch({ type: 'SET_CROSSFADE', payload: seconds });
+    }
+
+    function setResumeThreshold(minutes: number) {
+        dispatch({ type: 'SET_RESUME_THRESHOLD', payload: minutes });
+    }
+
+    function setSleepTimer(timer: SleepTimer | null) {
+        dispatch({ type: 'SET_SLEEP_TIMER', payload: timer });
+    }
+
+    function setPlaybackRate(rate: number) {
+        dispatch({ type: 'SET_PLAYBACK_RATE', payload: rate });
+    }
+
+    function setNormalization(mode: NormalizationMode) {
+        dispatch({ type: 'SET_NORMALIZATION', payload: mode });
+    }
+
+    function toggleAutoplay() {
+        dispatch({ type: 'TOGGLE_AUTOPLAY' });
+    }
+
+    function toggleSkipSilence() {
+        dispatch({ type: 'TOGGLE_SKIP_SILENCE' });
+    }
+
+    function toggleVoiceBoost() {
+        dispatch({ type: 'TOGGLE_VOICE_BOOST' });
+    }
+
+    /**
+     * Start a station. A track station plays the track straight away and the
+     * top-up below fills in after it; the others need their first batch up front.
+     */
+    async function startRadio(seed: RadioSeed) {
+        const requestId = ++radioRequestRef.current;
+        const station = radioService.createStation(seed);
+
+        if (seed.type === 'track') {
+            dispatch({ type: 'START_RADIO', payload: { station, queue: [seed.track] } });
+            return;
+        }
+
+        try {
+            const tracks = await radioService.getStationTracks(station, {
+                exclude: new Set(state.playHistory.map(item => item.$id)),
+                userId: user?.$id,
+                limit: RADIO_BATCH_SIZE,
+            });
+            if (radioRequestRef.current !== requestId) return;
+            if (tracks.length === 0) {
+                console.warn('[Player] No tracks found for station:', station.name);
+                return;
+            }
+            dispatch({ type: 'START_RADIO', payload: { station, queue: tracks } });
+        } catch (err) {
+            console.warn('[Player] Failed to start radio:', err);
+        }
+    }
+
     function toggleMoodLight() {
         dispatch({ type: 'TOGGLE_MOOD_LIGHT' });
     }
@@ -268,10 +1093,29 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
         dispatch({ type: 'CLEAR_QUEUE' });
     }
 
+    function reorderUpcoming(items: PlayableItem[]) {
+        dispatch({ type: 'REORDER_UPCOMING', payload: items });
+    }
+
+    function removeFromNextUp(itemId: string) {
+        dispatch({ type: 'REMOVE_FROM_NEXT_UP', payload: itemId });
+    }
+
+    function reorderNextUp(items: PlayableItem[]) {
+        dispatch({ type: 'REORDER_NEXT_UP', payload: items });
+    }
+
     return (
         <PlayerContext.Provider
             value={{
                 ...state,
+                upcoming: getUpcoming(state),
+                reorderUpcoming,
+                removeFromNextUp,
+                reorderNextUp,
+                remotePlayback,
+                sendRemoteCommand,
+                retryPlayback,
                 play,
                 pause,
                 resume,
@@ -280,9 +1124,22 @@ export function PlayerProvider({ children }: { children: ReactNode }) {
                 next,
                 previous,
                 addToQueue,
+                playNext,
                 setQueue,
                 toggleShuffle,
                 toggleRepeat,
+                setLoopPoint,
+                setLoop,
+                clearLoop,
+                setCrossfade,
+                setResumeThreshold,
+                setSleepTimer,
+                setPlaybackRate,
+                setNormalization,
+                toggleAutoplay,
+                toggleSkipSilence,
+                toggleVoiceBoost,
+                startRadio,
                 toggleMoodLight,
                 toggleFullscreen,
                 toggleAudioCanvas,
@@ -0,0 +1,178 @@
+/**
+ * Shortcuts Context
+ * Central keyboard shortcut registry: one global keydown listener, user-rebindable
+ * keys (persisted to localStorage) and per-action handlers.
+ *
+ * Player actions have built-in handlers. Components can take over an action while
+ * they're mounted with useShortcutHandler - the most recently registered handler wins,
+ * so the fullscreen player's queue button beats the docked player's.
+ * The context and its hooks live in hooks/useShortcuts.
+ */
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import { usePlayer } from './PlayerContext';
+import { useAuth } from './AuthContext';
+import { favoritesService } from '../services';
+import { isEpisode } from '../utils/trackUtils';
+import { ShortcutsContext } from '../hooks/useShortcuts';
+import {
+    DEFAULT_SHORTCUTS,
+    SEEK_STEP,
+    VOLUME_STEP,
+    eventToKey,
+    isEditableTarget,
+    isReservedKey,
+    type ShortcutAction,
+    type ShortcutBindings,
+} from '../lib/shortcuts';
+
+const STORAGE_KEY = 'music-app-shortcuts';
+
+// Holding these down should keep firing; toggles shouldn't flicker on key repeat
+const REPEATABLE_ACTIONS: ShortcutAction[] = ['seekBackward', 'seekForward', 'volumeUp', 'volumeDown'];
+
+function loadBindings(): ShortcutBindings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        return { ...DEFAULT_SHORTCUTS, ...stored };
+    } catch {
+        return { ...DEFAULT_SHORTCUTS };
+    }
+}
+
+export function ShortcutsProvider({ children }: { children: ReactNode }) {
+    const player = usePlayer();
+    const { user } = useAuth();
+
+    const [bindings, setBindings] = useState<ShortcutBindings>(loadBindings);
+    const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+    const [isCheatSheetOpen, setCheatSheetOpen] = useState(false);
+
+    // Registered component handlers, newest last
+    const handlersRef = useRef(new Map<ShortcutAction, (() => void)[]>());
+
+    // Latest values for the global listener (registered once)
+    const latestRef = useRef({ player, user, bindings, recordingAction });
+    useEffect(() => {
+        latestRef.current = { player, user, bindings, recordingAction };
+    });
+
+    // Persist bindings
+    useEffect(() => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+    }, [bindings]);
+
+    const rebind = (action: ShortcutAction, key: string) => {
+        setBindings(prev => {
+            const next = { ...prev, [action]: key };
+            const conflict = (Object.keys(prev) as ShortcutAction[]).find(a => a !== action && prev[a] === key);
+            if (conflict) next[conflict] = prev[action];
+            return next;
+        });
+    };
+
+    const resetBindings = () => setBindings({ ...DEFAULT_SHORTCUTS });
+
+    const registerHandler = useCallback((action: ShortcutAction, handler: () => void) => {
+        const stack = handlersRef.current.get(action) ?? [];
+        handlersRef.current.set(action, [...stack, handler]);
+
+        return () => {
+            const current = handlersRef.current.get(action) ?? [];
+            handlersRef.current.set(action, current.filter(h => h !== handler));
+        };
+    }, []);
+
+    useEffect(() => {
+        // Built-in handlers - used when no component has registered one
+        const defaultHandlers: Partial<Record<ShortcutAction, () => void>> = {
+            playPause: () => {
+                const { player } = latestRef.current;
+                if (!player.currentTrack) return;
+                if (player.isPlaying) player.pause();
+                else player.resume();
+            },
+            seekBackward: () => {
+                const { player } = latestRef.current;
+                player.seek(player.progress - SEEK_STEP);
+            },
+            seekForward: () => {
+                const { player } = latestRef.current;
+                player.seek(player.progress + SEEK_STEP);
+            },
+            volumeUp: () => {
+                const { player } = latestRef.current;
+                player.setVolume(Math.min(1, player.volume + VOLUME_STEP));
+            },
+            volumeDown: () => {
+                const { player } = latestRef.current;
+                player.setVolume(Math.max(0, player.volume - VOLUME_STEP));
+            },
+            next: () => latestRef.current.player.next(),
+            previous: () => latestRef.current.player.previous(),
+            shuffle: () => latestRef.current.player.toggleShuffle(),
+            repeat: () => latestRef.current.player.toggleRepeat(),
+            loopA: () => latestRef.current.player.setLoopPoint('a'),
+            loopB: () => latestRef.current.player.setLoopPoint('b'),
+            loopClear: () => latestRef.current.player.clearLoop(),
+            like: () => {
+                const { player, user } = latestRef.current;
+                const track = player.currentTrack;
+                if (!user || !track || isEpisode(track)) return;
+                favoritesService.toggleFavorite(track)
+                    .catch((err) => console.error('Failed to toggle favorite:', err));
+            },
+            fullscreen: () => latestRef.current.player.toggleFullscreen(),
+            cheatSheet: () => setCheatSheetOpen(open => !open),
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Leave browser/OS shortcuts alone
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+            const { bindings, recordingAction } = latestRef.current;
+            const key = eventToKey(e);
+
+            // Settings is waiting for a new key
+            if (recordingAction) {
+                if (key === 'Shift') return; // wait for the shifted key itself
+                e.preventDefault();
+                if (!isReservedKey(key)) rebind(recordingAction, key);
+                setRecordingAction(null);
+                return;
+            }
+
+            if (isEditableTarget(e.target)) return;
+
+            const action = (Object.keys(bindings) as ShortcutAction[]).find(a => bindings[a] === key);
+            if (!action) return;
+            if (e.repeat && !REPEATABLE_ACTIONS.includes(action)) return;
+
+            const stack = handlersRef.current.get(action) ?? [];
+            const handler = stack[stack.length - 1] ?? defaultHandlers[action];
+            if (!handler) return;
+
+            // Stops space from scrolling the page / clicking the focused button
+            e.preventDefault();
+            handler();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    return (
+        <ShortcutsContext.Provider value={{
+            bindings,
+            rebind,
+            resetBindings,
+            recordingAction,
+            startRecording: setRecordingAction,
+            cancelRecording: () => setRecordingAction(null),
+            isCheatSheetOpen,
+            setCheatSheetOpen,
+            registerHandler,
+        }}>
+            {children}
+        </ShortcutsContext.Provider>
+    );
+}
@@ -8,6 +8,7 @@
  */
 
 import { useEffect, useRef, useState } from 'react';
+import { createBeatTracker } from '../lib/beatTracker';
 
 export interface FrequencyData {
     /** Raw frequency data (0-255 for each frequency bin) */
@@ -31,7 +32,7 @@ interface UseAudioAnalyzerOptions {
     fftSize?: 256 | 512 | 1024 | 2048 | 4096 | 8192;
     /** Smoothing time constant (0-1, higher = smoother but less responsive) */
     smoothingTimeConstant?: number;
-    /** Enable BPM detection (more CPU intensive) */
+    /** Enable BPM detection (more CPU intensive, works best with little smoothing) */
     enableBpmDetection?: boolean;
 }
 
@@ -63,6 +64,7 @@ export function useAudioAnalyzer(
     const audioContextRef = useRef<AudioContext | null>(null);
     const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
     const animationFrameRef = useRef<number | null>(null);
+    const beatTrackerRef = useRef(createBeatTracker());
 
     // Buffers for frequency and waveform data
     const frequenciesRef = useRef<Uint8Array | null>(null);
@@ -154,12 +156,15 @@ export function useAudioAnalyzer(
             const midEnergy = midSum / (midEnd - bassEnd);
             const trebleEnergy = trebleSum / (frequencies.length - midEnd);
             const volume = volumeSum / frequencies.length;
+            const bpm = opts.enableBpmDetection
+                ? beatTrackerRef.current.process(frequencies, performance.now()).bpm
+                : null;
 
             // Update state with new analysis data
             setFrequencyData({
                 frequencies: new Uint8Array(frequencies.slice()), // Clone to prevent mutation
                 waveform: new Uint8Array(waveform.slice()),
-                bpm: null, // TODO: Implement BPM detection in future
+                bpm,
                 bassEnergy,
                 midEnergy,
                 trebleEnergy,
@@ -181,7 +186,7 @@ export function useAudioAnalyzer(
             // Don't disconnect source - it can only be created once per element
             // Audio context will be cleaned up when component unmounts completely
         };
-    }, [audioElement, opts.fftSize, opts.smoothingTimeConstant]);
+    }, [audioElement, opts.fftSize, opts.smoothingTimeConstant, opts.enableBpmDetection]);
 
     // Cleanup audio context on unmount
     useEffect(() => {
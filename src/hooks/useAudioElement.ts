@@ -1,111 +1,842 @@
 import { useState, useRef, useEffect } from 'react';
-import { storage, BUCKETS, getProxiedAudioUrlSync, fetchProxiedAudioBlob, isAudioProxied, fetchStorageAudioBlob } from '../lib/appwrite';
-import { historyService } from '../services';
-import type { PlayableItem, Track } from '../types';
+import {
+    storage, BUCKETS, getProxiedAudioUrlSync, fetchProxiedAudioBlob, isAudioProxied, fetchStorageAudioBlob,
+    offlineAudioCacheKey, pinAudioCache, preloadAudioProxy, preloadStorageAudio, storageAudioCacheKey
+} from '../lib/appwrite';
+import { connectMediaElement, getDeckGain, isAudioGraphRunning, isCaptureSafe, isMediaElementCaptured, setDeckNormalization } from '../lib/audioGraph';
+import { analyzeLoudness, getCachedLoudness, getNormalizationGain } from '../lib/loudness';
+import { downloadService, historyService } from '../services';
+import { isEpisode, isResumable } from '../utils/trackUtils';
+import type { ABLoop, NormalizationMode, PlayableItem, PlaybackError, PlaybackErrorKind, PlayerState, Track } from '../types';
+
+/** Upper bound for the user-selectable crossfade */
+export const MAX_CROSSFADE_SECONDS = 12;
+
+/** Playback speed bounds */
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 3;
+
+// Interval for volume-based fades on decks that aren't routed through Web Audio
+const FADE_STEP_MS = 50;
+
+// Don't hold up playback for more than this waiting on a saved position
+const RESUME_LOOKUP_TIMEOUT_MS = 1500;
+// Saved positions this close to either end count as "start over"
+const RESUME_MIN_POSITION = 5;
+const RESUME_END_MARGIN = 15;
+
+// Retries per item (alternating blob and direct source) before giving up on it
+const MAX_PLAYBACK_RETRIES = 3;
+// First retry delay - doubles with every attempt
+const RETRY_BASE_DELAY_MS = 1000;
+// Auto-skipping stops after this many items in a row failed to play
+const MAX_CONSECUTIVE_FAILURES = 3;
+const SKIP_DELAY_MS = 1500;
 
 interface UseAudioElementProps {
     currentTrack: PlayableItem | null;
+    /** Item NEXT will play - preloaded on the standby deck */
+    upNext: PlayableItem | null;
+    /** Upcoming items (from upNext on) whose audio is downloaded ahead of time */
+    prefetch: PlayableItem[];
+    /** Load this item paused at a position instead of playing it (restored sessions) */
+    cue: { itemId: string; position: number } | null;
     volume: number;
-    repeatMode: 'none' | 'one' | 'all';
+    repeatMode: PlayerState['repeat'];
+    /** Region looped while repeatMode is 'ab' */
+    abLoop: ABLoop | null;
     shuffle: boolean;
+    /** Crossfade in seconds, 0 = gapless */
+    crossfade: number;
+    /** Minimum track length (minutes) that resumes from its saved position, 0 = episodes only */
+    resumeThreshold: number;
+    /** Stop when the current item ends instead of advancing (sleep timer) */
+    stopAtEnd: boolean;
+    /** Speed of the active deck, pitch preserved */
+    playbackRate: number;
+    /** Loudness normalization applied to each deck's track */
+    normalization: NormalizationMode;
     onProgress: (time: number) => void;
     onDuration: (duration: number) => void;
     onEnded: () => void;
     onPlay: () => void;
     onPause: () => void;
     onNext: () => void;
+    /** Report a playback failure for the current item - null once it plays */
+    onError: (error: PlaybackError | null) => void;
+}
+
+// A deck with a seek waiting for its metadata to load
+type SeekableDeck = HTMLMediaElement & { _targetSeek?: number };
+
+interface PreloadedDeck {
+    itemId: string;
+    deck: HTMLAudioElement;
+    /** Saved resume position the deck was cued to */
+    startAt: number;
+}
+
+interface DeckFade {
+    timer: ReturnType<typeof setTimeout>;
+    interval?: ReturnType<typeof setInterval>;
+}
+
+interface PlaybackFailure {
+    itemId: string;
+    attempt: number;
+    /** Pending retry or skip */
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Repeat one and A-B loops keep the current item playing - nothing to preload or fade into
+ */
+function loopsCurrentItem(mode: PlayerState['repeat']): boolean {
+    return mode === 'one' || mode === 'ab';
 }
 
+function createDeck(volume: number): HTMLAudioElement {
+    const a = new Audio();
+    a.volume = volume;
+    a.preload = 'auto';
+    return a;
+}
+
+/**
+ * Blob cache keys an item may play from - its offline copy and its network one (see pinAudioCache)
+ */
+function getAudioCacheKeys(item: PlayableItem): string[] {
+    const keys = [offlineAudioCacheKey(item.$id)];
+    if ('audio_url' in item && item.audio_url) keys.push(item.audio_url);
+    else if ('audio_file_id' in item && item.audio_file_id) keys.push(storageAudioCacheKey(item.audio_file_id));
+    return keys;
+}
+
+/**
+ * Look up where a resumable item left off
+ * Resolves to 0 (start from the top) for short tracks, lookups that fail or take
+ * too long, and positions at the very start or end of the item.
+ */
+async function getStartPosition(item: PlayableItem, thresholdMinutes: number): Promise<number> {
+    if (!isResumable(item, thresholdMinutes)) return 0;
+
+    const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), RESUME_LOOKUP_TIMEOUT_MS));
+    const position = await Promise.race([
+        historyService.getResumePosition(item.$id, isEpisode(item)).catch(() => null),
+        timeout,
+    ]);
+
+    if (!position || position < RESUME_MIN_POSITION) return 0;
+    if (item.duration > 0 && position > item.duration - RESUME_END_MARGIN) return 0;
+    return position;
+}
+
+/**
+ * Map a failed play() or a media element error onto what went wrong
+ */
+function classifyPlaybackError(error: unknown, mediaError: MediaError | null): PlaybackErrorKind {
+    if (error instanceof DOMException && error.name === 'NotAllowedError') return 'not-allowed';
+
+    switch (mediaError?.code) {
+        case MediaError.MEDIA_ERR_NETWORK:
+            return 'network';
+        case MediaError.MEDIA_ERR_DECODE:
+            return 'decode';
+        case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+            // Also what a dead URL looks like - offline that's a network problem
+            return navigator.onLine ? 'unsupported' : 'network';
+    }
+
+    if (error instanceof DOMException && error.name === 'NotSupportedError') return 'unsupported';
+    return 'network';
+}
+
+/**
+ * Dual-deck audio engine
+ *
+ * The active deck plays the current track while the standby deck preloads `upNext`.
+ * When the active track ends (or enters its crossfade window) the decks swap roles,
+ * so NEXT starts from an already-buffered element instead of loading a new `src`.
+ */
 export function useAudioElement({
     currentTrack,
+    upNext,
+    prefetch,
+    cue,
     volume,
     repeatMode,
+    abLoop,
     shuffle: _shuffle,
+    crossfade,
+    resumeThreshold,
+    stopAtEnd,
+    playbackRate,
+    normalization,
     onProgress,
     onDuration,
     onEnded,
     onPlay,
     onPause,
-    onNext
+    onNext,
+    onError
 }: UseAudioElementProps) {
-    // Audio element state
-    const [audio, setAudio] = useState<HTMLAudioElement>(() => {
-        const a = new Audio();
-        a.volume = volume;
-        a.preload = 'auto';
-        return a;
-    });
+    // Audio element state - `audio` is always the active deck
+    const [audio, setAudio] = useState<HTMLAudioElement>(() => createDeck(volume));
+    const [standby, setStandby] = useState<HTMLAudioElement>(() => createDeck(volume));
 
     // Refs
     const audioRef = useRef<HTMLAudioElement | null>(audio);
+    const standbyRef = useRef<HTMLAudioElement>(standby);
     const repeatRef = useRef(repeatMode);
+    const abLoopRef = useRef(abLoop);
     const isSeekingRef = useRef(false);
     const playbackRequestId = useRef(0);
     const playPromiseRef = useRef<Promise<void> | null>(null);
 
+    // Deck engine refs
+    const preloadRef = useRef<PreloadedDeck | null>(null);
+    const preloadRequestId = useRef(0);
+    const handoffRef = useRef<string | null>(null);
+    const currentTrackIdRef = useRef<string | null>(currentTrack?.$id ?? null);
+    const fadingOutRef = useRef<HTMLAudioElement | null>(null);
+    const deckLevels = useRef(new WeakMap<HTMLAudioElement, number>());
+    const deckFades = useRef(new Map<HTMLAudioElement, DeckFade>());
+    const deckItems = useRef(new WeakMap<HTMLAudioElement, PlayableItem>());
+
+    // Error recovery refs
+    const failureRef = useRef<PlaybackFailure | null>(null);
+    const consecutiveFailuresRef = useRef(0);
+    const hasErrorRef = useRef(false);
+
     // Refs for values used in track change effect (preventing stale closures)
     const volumeRef = useRef(volume);
+    const upNextRef = useRef(upNext);
+    const prefetchRef = useRef(prefetch);
+    const currentTrackRef = useRef(currentTrack);
+    const cueRef = useRef(cue);
+    const crossfadeRef = useRef(crossfade);
+    const resumeThresholdRef = useRef(resumeThreshold);
+    const stopAtEndRef = useRef(stopAtEnd);
+    const normalizationRef = useRef(normalization);
     const onPlayRef = useRef(onPlay);
     const onNextRef = useRef(onNext);
+    const onDurationRef = useRef(onDuration);
+    const onErrorRef = useRef(onError);
 
     // Sync refs
     useEffect(() => {
         audioRef.current = audio;
     }, [audio]);
 
+    useEffect(() => {
+        standbyRef.current = standby;
+    }, [standby]);
+
     useEffect(() => {
         repeatRef.current = repeatMode;
     }, [repeatMode]);
 
+    useEffect(() => {
+        abLoopRef.current = abLoop;
+    }, [abLoop]);
+
     useEffect(() => {
         volumeRef.current = volume;
     }, [volume]);
 
+    useEffect(() => {
+        crossfadeRef.current = crossfade;
+    }, [crossfade]);
+
+    useEffect(() => {
+        resumeThresholdRef.current = resumeThreshold;
+    }, [resumeThreshold]);
+
+    useEffect(() => {
+        stopAtEndRef.current = stopAtEnd;
+    }, [stopAtEnd]);
+
+    useEffect(() => {
+        cueRef.current = cue;
+    }, [cue]);
+
+    useEffect(() => {
+        currentTrackIdRef.current = currentTrack?.$id ?? null;
+        currentTrackRef.current = currentTrack;
+    }, [currentTrack]);
+
+    useEffect(() => {
+        upNextRef.current = upNext;
+    }, [upNext]);
+
+    useEffect(() => {
+        prefetchRef.current = prefetch;
+    }, [prefetch]);
+
     useEffect(() => {
         onPlayRef.current = onPlay;
         onNextRef.current = onNext;
-    }, [onPlay, onNext]);
+        onDurationRef.current = onDuration;
+        onErrorRef.current = onError;
+    }, [onPlay, onNext, onDuration, onError]);
+
+    // --- Deck levels & fades ---
+
+    const getDeckLevel = (deck: HTMLAudioElement) => deckLevels.current.get(deck) ?? 1;
+
+    /**
+     * Apply a deck's crossfade level. Routed decks use their GainNode so user
+     * volume stays untouched; unrouted decks fold the level into element.volume.
+     */
+    const applyDeckLevel = (deck: HTMLAudioElement, level: number) => {
+        deckLevels.current.set(deck, level);
+        const gain = getDeckGain(deck);
+        if (gain) {
+            gain.gain.cancelScheduledValues(gain.context.currentTime);
+            gain.gain.setValueAtTime(level, gain.context.currentTime);
+            deck.volume = volumeRef.current;
+        } else {
+            deck.volume = volumeRef.current * level;
+        }
+    };
+
+    const cancelDeckFade = (deck: HTMLAudioElement) => {
+        const fade = deckFades.current.get(deck);
+        if (!fade) return;
+        clearTimeout(fade.timer);
+        if (fade.interval) clearInterval(fade.interval);
+        deckFades.current.delete(deck);
+    };
+
+    const fadeDeck = (deck: HTMLAudioElement, to: number, seconds: number, onDone?: () => void) => {
+        cancelDeckFade(deck);
+        const from = getDeckLevel(deck);
+        const gain = getDeckGain(deck);
+        const fade: DeckFade = {
+            timer: setTimeout(() => {
+                cancelDeckFade(deck);
+                applyDeckLevel(deck, to);
+                onDone?.();
+            }, seconds * 1000),
+        };
+
+        if (gain) {
+            // Sample-accurate ramp on the audio thread - unaffected by background-tab timer throttling
+            const now = gain.context.currentTime;
+            gain.gain.cancelScheduledValues(now);
+            gain.gain.setValueAtTime(from, now);
+            gain.gain.linearRampToValueAtTime(to, now + seconds);
+            deckLevels.current.set(deck, to);
+        } else {
+            const startedAt = performance.now();
+            fade.interval = setInterval(() => {
+                const t = Math.min(1, (performance.now() - startedAt) / (seconds * 1000));
+                const level = from + (to - from) * t;
+                deckLevels.current.set(deck, level);
+                deck.volume = volumeRef.current * level;
+            }, FADE_STEP_MS);
+        }
+
+        deckFades.current.set(deck, fade);
+    };
+
+    /**
+     * Route a deck through the shared graph when that is safe.
+     * Only done while the AudioContext is running - a suspended context would mute the deck.
+     */
+    const routeDeck = (deck: HTMLAudioElement) => {
+        if (isAudioGraphRunning() && isCaptureSafe(deck.src)) {
+            connectMediaElement(deck);
+        }
+    };
+
+    /**
+     * Apply an item's loudness normalization to the deck playing it. Items that
+     * haven't been measured are analyzed from their blob and adjusted when done.
+     *
+     * @param glide - ease into the new level (the deck is already audible)
+     */
+    const normalizeDeck = (deck: HTMLAudioElement, item: PlayableItem, url: string, glide = false) => {
+        deckItems.current.set(deck, item);
+        setDeckNormalization(deck, getNormalizationGain(item, normalizationRef.current), glide);
+        if (normalizationRef.current === 'off' || getCachedLoudness(item.$id)) return;
+
+        analyzeLoudness(item, url).then((info) => {
+            if (info && deckItems.current.get(deck)?.$id === item.$id) {
+                setDeckNormalization(deck, getNormalizationGain(item, normalizationRef.current), true);
+            }
+        });
+    };
+
+    const resetDeck = (deck: HTMLAudioElement) => {
+        cancelDeckFade(deck);
+        deckItems.current.delete(deck);
+        deck.pause();
+        deck.removeAttribute('src');
+        deck.load();
+        applyDeckLevel(deck, 1);
+    };
+
+    // --- Preloading ---
+
+    /**
+     * Load `upNext` onto the standby deck.
+     * Prefers the proxied blob so the deck can be routed (and crossfaded) through Web Audio.
+     */
+    const preloadUpcoming = () => {
+        const next = upNextRef.current;
+        const requestId = ++preloadRequestId.current;
+
+        // Standby is still fading out the previous track - we'll be called again when it's done
+        if (fadingOutRef.current === standbyRef.current) return;
+
+        if (!next || loopsCurrentItem(repeatRef.current) || next.$id === currentTrackIdRef.current) {
+            if (preloadRef.current) {
+                resetDeck(preloadRef.current.deck);
+                preloadRef.current = null;
+            }
+            return;
+        }
+
+        if (preloadRef.current?.itemId === next.$id) return;
+        preloadRef.current = null;
+
+        const loadDeck = async () => {
+            let url = '';
+            let isExternalSource = false;
+            const startPosition = getStartPosition(next, resumeThresholdRef.current);
+            const offlineUrl = await downloadService.getOfflineUrl(next.$id);
+
+            if (offlineUrl) {
+                url = offlineUrl;
+            } else if ('audio_url' in next && next.audio_url) {
+                url = await fetchProxiedAudioBlob(next.audio_url);
+                isExternalSource = true;
+            } else if ('audio_file_id' in next && next.audio_file_id) {
+                url = await fetchStorageAudioBlob(next.audio_file_id);
+            } else {
+                return;
+            }
+            const startAt = await startPosition;
+
+            if (preloadRequestId.current !== requestId || fadingOutRef.current === standbyRef.current) return;
+
+            let deck = standbyRef.current;
+
+            // A captured element would be silenced by an unproxied cross-origin source
+            if (isMediaElementCaptured(deck) && !isCaptureSafe(url)) {
+                deck = createDeck(volumeRef.current);
+                standbyRef.current = deck;
+                setStandby(deck);
+            }
+
+            // Never load over the deck that is actually playing
+            if (deck === audioRef.current) return;
+
+            cancelDeckFade(deck);
+            deck.pause();
+
+            // CORS Configuration
+            if (isExternalSource && !url.startsWith('blob:')) {
+                deck.removeAttribute('crossorigin');
+            } else {
+                deck.crossOrigin = 'anonymous';
+            }
+
+            deck.src = url;
+            deck.load();
+            routeDeck(deck);
+            applyDeckLevel(deck, 0);
+            normalizeDeck(deck, next, url);
+
+            // Buffer from the resume point rather than the top
+            if (startAt > 0) {
+                deck.addEventListener('loadedmetadata', () => {
+                    deck.currentTime = startAt;
+                }, { once: true });
+            }
+
+            preloadRef.current = { itemId: next.$id, deck, startAt };
+        };
+
+        loadDeck().catch((err) => console.warn('[Player] Preload failed:', err));
+    };
+
+    // --- Error recovery ---
+
+    const reportError = (error: PlaybackError | null) => {
+        hasErrorRef.current = error !== null;
+        onErrorRef.current(error);
+    };
+
+    const clearFailure = () => {
+        if (failureRef.current?.timer) clearTimeout(failureRef.current.timer);
+        failureRef.current = null;
+    };
+
+    /**
+     * Reload the active deck from the other source - the proxied blob if it was
+     * playing the direct URL, the direct URL if the blob failed - and try again
+     * from the same position.
+     */
+    const retryPlayback = async (item: PlayableItem) => {
+        const requestId = ++playbackRequestId.current;
+        let deck = audioRef.current ?? audio;
+        const position = (deck as SeekableDeck)._targetSeek ?? deck.currentTime;
+        // A cued (restored) item stays paused - it's only being reloaded
+        const shouldPlay = cueRef.current?.itemId !== item.$id || !deck.paused;
+        const useDirect = deck.src.startsWith('blob:');
+
+        let url = '';
+        if ('audio_url' in item && item.audio_url) {
+            url = useDirect ? item.audio_url : await fetchProxiedAudioBlob(item.audio_url);
+        } else if ('audio_file_id' in item && item.audio_file_id) {
+            url = useDirect
+                ? storage.getFileView(BUCKETS.AUDIO, item.audio_file_id).toString()
+                : await fetchStorageAudioBlob(item.audio_file_id);
+        }
+        if (!url) throw new Error('No audio source found');
+        if (playbackRequestId.current !== requestId) return;
+
+        // A captured element would be silenced by an unproxied cross-origin source
+        if (isMediaElementCaptured(deck) && !isCaptureSafe(url)) {
+            deck.pause();
+            deck.src = '';
+            deck = createDeck(volumeRef.current);
+            audioRef.current = deck;
+            setAudio(deck);
+        }
+
+        if (isCaptureSafe(url)) {
+            deck.crossOrigin = 'anonymous';
+        } else {
+            deck.removeAttribute('crossorigin');
+        }
+
+        deck.src = url;
+        (deck as SeekableDeck)._targetSeek = position;
+        deck.load();
+        normalizeDeck(deck, item, url);
+
+        if (shouldPlay) {
+            const playPromise = deck.play();
+            playPromiseRef.current = playPromise;
+            await playPromise;
+        } else {
+            // Never reaches 'playing' - loading is as far as a cued item goes
+            deck.addEventListener('canplay', () => {
+                if (playbackRequestId.current !== requestId) return;
+                clearFailure();
+                if (hasErrorRef.current) reportError(null);
+            }, { once: true });
+        }
+    };
+
+    /**
+     * Recover from a failed item: retry with backoff, then skip it - unless too
+     * many items in a row have failed, in which case wait for the listener.
+     */
+    const handlePlaybackFailure = (item: PlayableItem, error: unknown) => {
+        if (item.$id !== currentTrackIdRef.current) return;
+        const kind = classifyPlaybackError(error, audioRef.current?.error ?? null);
+
+        if (failureRef.current?.itemId !== item.$id) {
+            clearFailure();
+            failureRef.current = { itemId: item.$id, attempt: 0 };
+        }
+        const failure = failureRef.current!;
+        // The element error and the rejected play() often report the same failure
+        if (failure.timer) return;
+
+        // Autoplay blocked - only a user gesture can start playback
+        if (kind === 'not-allowed') {
+            reportError({ kind, itemId: item.$id, attempt: failure.attempt, status: 'stopped' });
+            return;
+        }
+
+        if (failure.attempt < MAX_PLAYBACK_RETRIES) {
+            const delay = RETRY_BASE_DELAY_MS * 2 ** failure.attempt;
+            failure.attempt++;
+            reportError({ kind, itemId: item.$id, attempt: failure.attempt, status: 'retrying' });
+            failure.timer = setTimeout(() => {
+                failure.timer = undefined;
+                retryPlayback(item).catch((err) => {
+                    if (err?.name !== 'AbortError') handlePlaybackFailure(item, err);
+                });
+            }, delay);
+            return;
+        }
+
+        consecutiveFailuresRef.current++;
+        if (consecutiveFailuresRef.current >= MAX_CONSECUTIVE_FAILURES) {
+            console.error('[Player] Giving up after repeated failures:', error);
+            reportError({ kind, itemId: item.$id, attempt: failure.attempt, status: 'stopped' });
+            return;
+        }
+
+        // End of the queue (or a single item on repeat) - nothing to skip to
+        const hasNext = () => {
+            const next = upNextRef.current;
+            return next !== null && next.$id !== item.$id;
+        };
+        if (!hasNext()) {
+            console.error('[Player] Playback failed, nothing to skip to:', error);
+            reportError({ kind, itemId: item.$id, attempt: failure.attempt, status: 'stopped' });
+            return;
+        }
+
+        console.error('[Player] Playback failed, skipping:', error);
+        reportError({ kind, itemId: item.$id, attempt: failure.attempt, status: 'skipping' });
+        failure.timer = setTimeout(() => {
+            failure.timer = undefined;
+            if (currentTrackIdRef.current !== item.$id) return;
+            // The queue may have changed while the skip was pending
+            if (hasNext()) {
+                onNextRef.current();
+            } else {
+                reportError({ kind, itemId: item.$id, attempt: failure.attempt, status: 'stopped' });
+            }
+        }, SKIP_DELAY_MS);
+    };
+
+    /**
+     * Manual retry from the error UI - starts the retry budget over
+     */
+    const retry = () => {
+        const item = currentTrackRef.current;
+        if (!item) return;
+        clearFailure();
+        consecutiveFailuresRef.current = 0;
+        reportError(null);
+
+        retryPlayback(item).catch((err) => {
+            if (err?.name !== 'AbortError') handlePlaybackFailure(item, err);
+        });
+    };
+
+    // --- Handoff ---
+
+    /** Silence the deck that is fading out and free it up for the next preload */
+    const finishFadeOut = () => {
+        const deck = fadingOutRef.current;
+        if (!deck) return;
+        fadingOutRef.current = null;
+        resetDeck(deck);
+        preloadUpcoming();
+    };
+
+    /**
+     * Swap to the preloaded deck.
+     *
+     * @param fadeSeconds - 0 for a gapless cut, otherwise the crossfade length
+     * @param advance - dispatch NEXT (auto-advance) or not (the track already changed)
+     * @returns false if nothing suitable was preloaded
+     */
+    const handoffToStandby = (itemId: string, fadeSeconds: number, advance: boolean): boolean => {
+        const preloaded = preloadRef.current;
+        const outgoing = audioRef.current;
+        if (!preloaded || !outgoing || preloaded.itemId !== itemId) return false;
+
+        const incoming = preloaded.deck;
+        // HAVE_FUTURE_DATA - enough buffered to start without stalling
+        if (incoming === outgoing || incoming.readyState < 3) return false;
+
+        preloadRef.current = null;
+        handoffRef.current = itemId;
+        ++playbackRequestId.current;
+
+        incoming.currentTime = preloaded.startAt;
+        routeDeck(incoming);
+
+        if (fadeSeconds > 0) {
+            applyDeckLevel(incoming, 0);
+            fadeDeck(incoming, 1, fadeSeconds);
+
+            fadingOutRef.current = outgoing;
+            fadeDeck(outgoing, 0, fadeSeconds, finishFadeOut);
+        } else {
+            applyDeckLevel(incoming, 1);
+            resetDeck(outgoing);
+        }
+
+        const playPromise = incoming.play();
+        playPromiseRef.current = playPromise;
+        playPromise.catch((e) => {
+            if (e.name !== 'AbortError') console.warn('[Player] Handoff play failed:', e);
+        });
+
+        // Swap roles - refs first so in-flight events from the outgoing deck are ignored
+        audioRef.current = incoming;
+        standbyRef.current = outgoing;
+        setAudio(incoming);
+        setStandby(outgoing);
+
+        if (advance) onNextRef.current();
+        return true;
+    };
+
+    // The effects below only re-run on deck and track changes - they reach the
+    // latest handlers through this ref
+    const handlersRef = useRef({ preloadUpcoming, finishFadeOut, handoffToStandby, handlePlaybackFailure });
+    useEffect(() => {
+        handlersRef.current = { preloadUpcoming, finishFadeOut, handoffToStandby, handlePlaybackFailure };
+    });
+
+    /**
+     * Jump back to A once the deck reaches B
+     */
+    const wrapLoop = (deck: HTMLAudioElement) => {
+        const loop = abLoopRef.current;
+        if (repeatRef.current !== 'ab' || !loop || loop.b === null) return;
+        if (deck.currentTime >= loop.b) deck.currentTime = loop.a;
+    };
+
+    // A-B loop: check every frame while it's set - timeupdate only fires a few
+    // times a second, which would overshoot B audibly
+    const hasLoop = repeatMode === 'ab' && !!abLoop && abLoop.b !== null;
+    useEffect(() => {
+        if (!hasLoop) return;
+        let frame: number;
+        const check = () => {
+            const deck = audioRef.current;
+            if (deck && !deck.paused) wrapLoop(deck);
+            frame = requestAnimationFrame(check);
+        };
+        frame = requestAnimationFrame(check);
+        return () => cancelAnimationFrame(frame);
+    }, [hasLoop]);
+
+    // Keep the standby deck loaded with whatever NEXT will play
+    useEffect(() => {
+        handlersRef.current.preloadUpcoming();
+    }, [upNext?.$id, currentTrack?.$id, repeatMode]);
+
+    // Keep the current and upcoming blobs cached, and download the upcoming ones
+    // now so the blob upgrade is already done when they start
+    const prefetchKey = prefetch.map(item => item.$id).join(',');
+    useEffect(() => {
+        const current = currentTrackRef.current;
+        const upcoming = prefetchRef.current;
+        const items = current ? [current, ...upcoming] : upcoming;
+        pinAudioCache(items.flatMap(getAudioCacheKeys));
+
+        for (const item of upcoming) {
+            if ('audio_url' in item && item.audio_url) {
+                preloadAudioProxy(item.audio_url);
+            } else if ('audio_file_id' in item && item.audio_file_id) {
+                preloadStorageAudio(item.audio_file_id);
+            }
+        }
+    }, [currentTrack?.$id, prefetchKey]);
+
+    // Re-level both decks when the normalization mode changes
+    useEffect(() => {
+        normalizationRef.current = normalization;
+        for (const deck of [audioRef.current, standbyRef.current]) {
+            const item = deck && deckItems.current.get(deck);
+            if (item) normalizeDeck(deck, item, deck.src, true);
+        }
+    }, [normalization]);
+
+    // Handle Speed Changes - the default rate survives src changes (load() resets playbackRate to it)
+    useEffect(() => {
+        audio.defaultPlaybackRate = playbackRate;
+        audio.playbackRate = playbackRate;
+        audio.preservesPitch = true;
+    }, [playbackRate, audio]);
 
     // Handle Volume Changes
     useEffect(() => {
-        if (audio) {
-            audio.volume = volume;
+        for (const deck of [audio, standby]) {
+            deck.volume = getDeckGain(deck) ? volume : volume * getDeckLevel(deck);
         }
-    }, [volume, audio]);
+    }, [volume, audio, standby]);
 
     // Attach Listeners
     useEffect(() => {
+        // The outgoing deck may still emit events until this effect re-runs
+        const isActive = () => audioRef.current === audio;
+
         const handleTimeUpdate = () => {
+            if (!isActive()) return;
             if (!isSeekingRef.current) {
                 onProgress(audio.currentTime);
             }
+
+            // Backstop for the A-B loop frame check, which doesn't run in background tabs
+            wrapLoop(audio);
+
+            // Start the crossfade once we're inside the window at the end of the track.
+            // Retries on every tick until the standby deck has buffered enough.
+            const fade = crossfadeRef.current;
+            const next = upNextRef.current;
+            if (fade > 0 && next && !loopsCurrentItem(repeatRef.current) && !stopAtEndRef.current) {
+                // Wall-clock seconds left at the current speed
+                const remaining = (audio.duration - audio.currentTime) / audio.playbackRate;
+                const fadeWindow = Math.min(fade, audio.duration / 2);
+                if (Number.isFinite(remaining) && remaining > 0 && remaining <= fadeWindow) {
+                    handlersRef.current.handoffToStandby(next.$id, remaining, true);
+                }
+            }
         };
 
         const handleLoadedMetadata = () => {
+            if (!isActive()) return;
             onDuration(audio.duration);
         };
 
         const handleEnded = () => {
-            // Local repeat one logic
-            if (repeatRef.current === 'one') {
-                audio.currentTime = 0;
+            if (!isActive()) return;
+            const next = upNextRef.current;
+
+            // Sleep timer - let playback stop here
+            if (stopAtEndRef.current) {
+                onEnded();
+                return;
+            }
+
+            // Local repeat one logic (a single-item queue on repeat all loops the same way).
+            // A loop ending at the very end of the item comes back here too.
+            if (loopsCurrentItem(repeatRef.current) || next?.$id === currentTrackIdRef.current) {
+                audio.currentTime = repeatRef.current === 'ab' ? abLoopRef.current?.a ?? 0 : 0;
                 audio.play().catch(() => { });
-            } else {
+            } else if (!next || !handlersRef.current.handoffToStandby(next.$id, 0, true)) {
                 onNext();
             }
             onEnded();
         };
 
         const handleCanPlay = () => {
-            const targetSeek = (audio as any)._targetSeek;
+            const targetSeek = (audio as SeekableDeck)._targetSeek;
             if (targetSeek !== undefined) {
                 audio.currentTime = targetSeek;
-                delete (audio as any)._targetSeek;
+                delete (audio as SeekableDeck)._targetSeek;
             }
         };
 
-        const handlePlayEvent = () => onPlay();
-        const handlePauseEvent = () => onPause();
+        const handlePlayEvent = () => {
+            if (isActive()) onPlay();
+        };
+
+        const handlePlaying = () => {
+            if (!isActive()) return;
+            // Recovered - the next failure starts a fresh count
+            clearFailure();
+            consecutiveFailuresRef.current = 0;
+            if (hasErrorRef.current) reportError(null);
+        };
+
+        const handleError = () => {
+            const item = currentTrackRef.current;
+            if (!isActive() || !item || !audio.getAttribute('src')) return;
+            handlersRef.current.handlePlaybackFailure(item, null);
+        };
+        const handlePauseEvent = () => {
+            if (!isActive()) return;
+            // Pausing mid-crossfade shouldn't leave the previous track playing out
+            handlersRef.current.finishFadeOut();
+            onPause();
+        };
 
         audio.addEventListener('timeupdate', handleTimeUpdate);
         audio.addEventListener('loadedmetadata', handleLoadedMetadata);
@@ -113,6 +844,8 @@ export function useAudioElement({
         audio.addEventListener('canplay', handleCanPlay);
         audio.addEventListener('play', handlePlayEvent);
         audio.addEventListener('pause', handlePauseEvent);
+        audio.addEventListener('playing', handlePlaying);
+        audio.addEventListener('error', handleError);
 
         return () => {
             audio.removeEventListener('timeupdate', handleTimeUpdate);
@@ -121,19 +854,38 @@ export function useAudioElement({
             audio.removeEventListener('canplay', handleCanPlay);
             audio.removeEventListener('play', handlePlayEvent);
             audio.removeEventListener('pause', handlePauseEvent);
+            audio.removeEventListener('playing', handlePlaying);
+            audio.removeEventListener('error', handleError);
         };
     }, [audio, onProgress, onDuration, onEnded, onNext, onPlay, onPause]);
 
     // Handle Track Changes & Playback
     useEffect(() => {
         if (currentTrack) {
+            // A different item - drop any retry or skip still pending for the last one
+            if (failureRef.current && failureRef.current.itemId !== currentTrack.$id) clearFailure();
+
+            // Manual skip onto the preloaded item - swap decks instead of reloading
+            if (handoffRef.current !== currentTrack.$id) {
+                handlersRef.current.handoffToStandby(currentTrack.$id, 0, false);
+            }
+
             const currentRequestId = ++playbackRequestId.current;
+            const isHandoff = handoffRef.current === currentTrack.$id;
+            handoffRef.current = null;
+            const cue = cueRef.current?.itemId === currentTrack.$id ? cueRef.current : null;
+
+            // Look up a saved position while the previous track winds down
+            const startPosition = isHandoff || cue
+                ? Promise.resolve(0)
+                : getStartPosition(currentTrack, resumeThresholdRef.current);
 
             const startPlayback = async () => {
                 // 1. Determine safe Audio URL
                 let audioUrl = '';
                 let isExternalSource = false;
                 let originalExternalUrl: string | null = null;
+                let isOffline = false;
 
                 try {
                     if ('audio_url' in currentTrack && currentTrack.audio_url) {
@@ -147,59 +899,83 @@ export function useAudioElement({
                         throw new Error('No audio source found');
                     }
 
-                    // 2. Handle AudioContext "Capture" (Silence Fix)
-                    let currentAudio = audio;
-                    const isElementCaptured = (currentAudio as any)._isCaptured;
+                    // Downloaded items play from their offline copy
+                    if (!isHandoff) {
+                        const offlineUrl = await downloadService.getOfflineUrl(currentTrack.$id);
+                        if (playbackRequestId.current !== currentRequestId) return;
+                        if (offlineUrl) {
+                            audioUrl = offlineUrl;
+                            isOffline = true;
+                        }
+                    }
 
-                    // If captured and switching to external (non-proxied usually), we need a fresh element
-                    if (isElementCaptured && isExternalSource && !audioUrl.startsWith('blob:')) {
-                        currentAudio.pause();
-                        currentAudio.src = '';
+                    let currentAudio = audioRef.current ?? audio;
 
-                        const newAudio = new Audio();
-                        newAudio.volume = volumeRef.current;
-                        newAudio.preload = 'auto';
-                        setAudio(newAudio);
-                        currentAudio = newAudio;
+                    if (isHandoff) {
+                        // Already buffered and playing on the deck we just swapped in
+                        audioUrl = currentAudio.src;
+                        onDurationRef.current(currentAudio.duration);
                     } else {
-                        currentAudio.pause();
-                    }
+                        // 2. Handle AudioContext "Capture" (Silence Fix)
+                        const isElementCaptured = isMediaElementCaptured(currentAudio);
 
-                    // Cancel previous play promise
-                    if (playPromiseRef.current) {
-                        playPromiseRef.current.catch(() => { });
-                    }
+                        // If captured and switching to external (non-proxied usually), we need a fresh element
+                        if (isElementCaptured && isExternalSource && !audioUrl.startsWith('blob:')) {
+                            currentAudio.pause();
+                            currentAudio.src = '';
 
-                    if (playbackRequestId.current !== currentRequestId) return;
+                            const newAudio = createDeck(volumeRef.current);
+                            audioRef.current = newAudio;
+                            setAudio(newAudio);
+                            currentAudio = newAudio;
+                        } else {
+                            currentAudio.pause();
+                        }
 
-                    currentAudio.currentTime = 0;
+                        // Cancel previous play promise
+                        if (playPromiseRef.current) {
+                            playPromiseRef.current.catch(() => { });
+                        }
 
-                    // CORS Configuration
-                    if (isExternalSource && !isAudioProxied(originalExternalUrl!)) {
-                        currentAudio.removeAttribute('crossorigin');
-                    } else {
-                        currentAudio.crossOrigin = 'anonymous';
-                    }
+                        const startAt = await startPosition;
+                        if (playbackRequestId.current !== currentRequestId) return;
 
-                    currentAudio.src = audioUrl;
-                    currentAudio.load();
+                        cancelDeckFade(currentAudio);
+                        applyDeckLevel(currentAudio, 1);
+                        currentAudio.currentTime = 0;
 
-                    // 3. Play
-                    const playPromise = currentAudio.play();
-                    playPromiseRef.current = playPromise;
-                    await playPromise;
+                        // CORS Configuration
+                        if (isExternalSource && !isOffline && !isAudioProxied(originalExternalUrl!)) {
+                            currentAudio.removeAttribute('crossorigin');
+                        } else {
+                            currentAudio.crossOrigin = 'anonymous';
+                        }
 
-                    if (playbackRequestId.current === currentRequestId) {
-                        onPlayRef.current();
+                        currentAudio.src = audioUrl;
+                        currentAudio.load();
+                        normalizeDeck(currentAudio, currentTrack, audioUrl);
+
+                        if (cue) {
+                            // Restored session: load paused at the saved position
+                            (currentAudio as SeekableDeck)._targetSeek = cue.position;
+                        } else {
+                            // Continue where the listener left off
+                            if (startAt > 0) (currentAudio as SeekableDeck)._targetSeek = startAt;
 
-                        // History
-                        const isEpisode = 'episode_id' in currentTrack;
-                        const trackSource = 'audio_url' in currentTrack ? 'jamendo' : 'appwrite';
-                        historyService.recordPlay(currentTrack.$id, isEpisode, trackSource, currentTrack as Track);
+                            // 3. Play
+                            const playPromise = currentAudio.play();
+                            playPromiseRef.current = playPromise;
+                            await playPromise;
+                        }
                     }
 
-                    // 4. Background Proxy Upgrade (Blob)
-                    if (playbackRequestId.current === currentRequestId) {
+                    // A cued track waits for the listener to press play (plays are counted by useListenEvents)
+                    if (playbackRequestId.current === currentRequestId && !cue) {
+                        onPlayRef.current();
+                    }
+
+                    // 4. Background Proxy Upgrade (Blob) - offline copies are already local
+                    if (!isOffline && playbackRequestId.current === currentRequestId) {
                         try {
                             let blobUrl = '';
                             if (isExternalSource && !isAudioProxied(originalExternalUrl!)) {
@@ -210,12 +986,14 @@ export function useAudioElement({
                             }
 
                             if (blobUrl && playbackRequestId.current === currentRequestId && currentAudio.src !== blobUrl) {
-                                const currentTime = currentAudio.currentTime;
+                                // A pending seek (e.g. a cued position) hasn't been applied yet - carry it over
+                                const currentTime = (currentAudio as SeekableDeck)._targetSeek ?? currentAudio.currentTime;
                                 const wasPlaying = !currentAudio.paused;
 
                                 currentAudio.crossOrigin = 'anonymous';
                                 currentAudio.src = blobUrl;
-                                (currentAudio as any)._targetSeek = currentTime;
+                                (currentAudio as SeekableDeck)._targetSeek = currentTime;
+                                normalizeDeck(currentAudio, currentTrack, blobUrl, true);
 
                                 if (wasPlaying) {
                                     const resumePromise = currentAudio.play();
@@ -235,13 +1013,8 @@ export function useAudioElement({
                         if (err.name === 'AbortError') {
                             // Expected
                         } else {
-                            console.error('[Player] Playback failed:', err);
-
-                            // Auto-skip logic could go here or be handled by the parent
-                            // For complex recovery, we might trigger onNext() after a timeout
-                            setTimeout(() => {
-                                onNextRef.current();
-                            }, 1500);
+                            console.warn('[Player] Playback failed:', err);
+                            handlersRef.current.handlePlaybackFailure(currentTrack, err);
                         }
                     }
                 }
@@ -262,7 +1035,7 @@ export function useAudioElement({
         isSeekingRef.current = true;
 
         if (audio.readyState < 1) {
-            (audio as any)._targetSeek = safeTime;
+            (audio as SeekableDeck)._targetSeek = safeTime;
         } else {
             audio.currentTime = safeTime;
         }
@@ -278,6 +1051,7 @@ export function useAudioElement({
     return {
         audio,
         audioRef,
-        seek
+        seek,
+        retry
     };
 }
@@ -0,0 +1,44 @@
+/**
+ * useDownloads Hook
+ *
+ * Offline downloads from DownloadsProvider: what's downloaded or in progress,
+ * storage use, and the actions to download and remove.
+ */
+import { createContext, useContext } from 'react';
+import type { DownloadedItem, DownloadProgress, StorageUsage } from '../services';
+import type { PlayableItem } from '../types';
+
+export interface ActiveDownload {
+    item: PlayableItem;
+    status: 'queued' | 'downloading' | 'failed';
+    progress: DownloadProgress | null;
+    /** Why a failed download failed - 'quota' means storage is full */
+    error?: 'quota' | 'failed';
+}
+
+export type DownloadStatus = ActiveDownload['status'] | 'downloaded';
+
+interface DownloadsContextType {
+    isSupported: boolean;
+    /** Completed downloads, keyed by item id */
+    downloads: Record<string, DownloadedItem>;
+    /** Queued, in-progress and failed downloads, keyed by item id */
+    active: Record<string, ActiveDownload>;
+    usage: StorageUsage | null;
+    /** Queue items for download - already downloaded or queued ones are skipped, failed ones retried */
+    download: (items: PlayableItem[]) => void;
+    cancel: (itemId: string) => void;
+    remove: (itemIds: string[]) => Promise<void>;
+    removeAll: () => Promise<void>;
+    getStatus: (itemId: string) => DownloadStatus | null;
+}
+
+export const DownloadsContext = createContext<DownloadsContextType | undefined>(undefined);
+
+export function useDownloads() {
+    const context = useContext(DownloadsContext);
+    if (context === undefined) {
+        throw new Error('useDownloads must be used within a DownloadsProvider');
+    }
+    return context;
+}
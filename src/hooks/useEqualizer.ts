@@ -0,0 +1,38 @@
+/**
+ * useEqualizer Hook
+ *
+ * The equalizer state and controls held by EqualizerProvider.
+ */
+import { createContext, useContext } from 'react';
+import type { EqualizerSettings } from '../lib/equalizer';
+
+export interface EqualizerState {
+    settings: EqualizerSettings;
+    /** Name of the preset the curve came from, null once it's been edited */
+    presetName: string | null;
+    customPresets: Record<string, EqualizerSettings>;
+    bypassed: boolean;
+}
+
+interface EqualizerContextType extends EqualizerState {
+    setBand: (index: number, db: number) => void;
+    setPreamp: (db: number) => void;
+    setBass: (db: number) => void;
+    setTreble: (db: number) => void;
+    /** Load a built-in or custom preset by name */
+    applyPreset: (name: string) => void;
+    /** Save the current curve under a name (overwrites a custom preset with the same name) */
+    saveCustomPreset: (name: string) => void;
+    deleteCustomPreset: (name: string) => void;
+    setBypassed: (bypassed: boolean) => void;
+}
+
+export const EqualizerContext = createContext<EqualizerContextType | undefined>(undefined);
+
+export function useEqualizer() {
+    const context = useContext(EqualizerContext);
+    if (context === undefined) {
+        throw new Error('useEqualizer must be used within an EqualizerProvider');
+    }
+    return context;
+}
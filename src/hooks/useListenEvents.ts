@@ -0,0 +1,154 @@
+/**
+ * useListenEvents Hook
+ *
+ * Turns playback into listen events (see services/listen.service): a start when an
+ * item begins playing, a qualified play once enough of it has actually been heard,
+ * a seek for every jump, and a skip or a completion when the listener moves on.
+ * Only qualified plays reach the server-side history.
+ */
+import { useEffect, useRef } from 'react';
+import { listenService, type ListenEventType } from '../services';
+import type { ABLoop, PlayableItem } from '../types';
+
+// A play counts once this much has been heard...
+const QUALIFY_SECONDS = 30;
+// ...or this share of a shorter item
+const QUALIFY_FRACTION = 0.5;
+
+// Progress moving further than this (at 1x) between updates is a seek, not playback
+const MAX_PROGRESS_STEP = 3;
+
+// Leaving an item this close to its end counts as finishing it
+const END_TOLERANCE_SECONDS = 2;
+
+interface UseListenEventsProps {
+    currentTrack: PlayableItem | null;
+    isPlaying: boolean;
+    progress: number;
+    duration: number;
+    playbackRate: number;
+    /** Crossfades leave an item this many seconds early - still a completion */
+    crossfade: number;
+    /** Active A-B loop - going round it is listening, not seeking */
+    abLoop: ABLoop | null;
+}
+
+interface ListenSession {
+    item: PlayableItem;
+    started: boolean;
+    qualified: boolean;
+    /** Seconds heard, excluding seeks */
+    listened: number;
+    /** Last position seen - null until the first progress update */
+    position: number | null;
+}
+
+export function useListenEvents({
+    currentTrack,
+    isPlaying,
+    progress,
+    duration,
+    playbackRate,
+    crossfade,
+    abLoop,
+}: UseListenEventsProps) {
+    const sessionRef = useRef<ListenSession | null>(null);
+    const currentTrackRef = useRef(currentTrack);
+
+    // Progress updates read the latest playback state without re-running on it
+    const playbackRef = useRef({ isPlaying, duration, playbackRate, crossfade, abLoop });
+    useEffect(() => {
+        playbackRef.current = { isPlaying, duration, playbackRate, crossfade, abLoop };
+        currentTrackRef.current = currentTrack;
+    });
+
+    const emit = (session: ListenSession, type: ListenEventType, extra: { position?: number; from?: number } = {}) => {
+        listenService.record(session.item, {
+            type,
+            position: extra.position ?? session.position ?? 0,
+            duration: playbackRef.current.duration,
+            listened: Math.round(session.listened),
+            ...(extra.from !== undefined ? { from: extra.from } : {}),
+        });
+    };
+
+    const isNearEnd = (position: number | null) => {
+        const { duration, crossfade } = playbackRef.current;
+        return duration > 0 && position !== null &&
+            position >= duration - Math.max(END_TOLERANCE_SECONDS, crossfade + 1);
+    };
+
+    // Send plays left over from an earlier visit, and whatever is waiting when the tab goes away
+    useEffect(() => {
+        listenService.flush();
+
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') listenService.flush();
+        };
+        const handlePageHide = () => listenService.flush();
+
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        window.addEventListener('pagehide', handlePageHide);
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            window.removeEventListener('pagehide', handlePageHide);
+        };
+    }, []);
+
+    // Item change: close out the previous session
+    useEffect(() => {
+        const previous = sessionRef.current;
+        if (previous?.started) {
+            emit(previous, isNearEnd(previous.position) ? 'complete' : 'skip');
+        }
+        const item = currentTrackRef.current;
+        sessionRef.current = item
+            ? { item, started: false, qualified: false, listened: 0, position: null }
+            : null;
+    }, [currentTrack?.$id]);
+
+    // First time the item actually plays (a restored, cued item waits for the listener)
+    useEffect(() => {
+        const session = sessionRef.current;
+        if (!isPlaying || !session || session.started) return;
+        session.started = true;
+        emit(session, 'start');
+    }, [isPlaying, currentTrack?.$id]);
+
+    useEffect(() => {
+        const session = sessionRef.current;
+        if (!session) return;
+
+        const last = session.position;
+        session.position = progress;
+        if (last === null) return;
+
+        const { isPlaying, duration, playbackRate, abLoop } = playbackRef.current;
+        const step = progress - last;
+
+        if (step > 0 && step <= MAX_PROGRESS_STEP * Math.max(1, playbackRate)) {
+            if (isPlaying) session.listened += step;
+        } else if (Math.abs(step) > MAX_PROGRESS_STEP * Math.max(1, playbackRate)) {
+            if (step < 0 && isNearEnd(last) && progress < END_TOLERANCE_SECONDS) {
+                // Repeat-one wrapped around: that was a full listen, and this is a new one
+                emit(session, 'complete', { position: last });
+                sessionRef.current = { ...session, qualified: false, listened: 0 };
+                emit(sessionRef.current, 'start');
+                return;
+            }
+            // Went round the A-B loop
+            if (step < 0 && abLoop && abLoop.b !== null &&
+                last >= abLoop.b - MAX_PROGRESS_STEP && Math.abs(progress - abLoop.a) <= MAX_PROGRESS_STEP) {
+                return;
+            }
+            // Jumps before anything was heard are the resume position being applied
+            if (session.listened > 0) emit(session, 'seek', { from: last, position: progress });
+        }
+
+        const qualifiesAt = duration > 0 ? Math.min(QUALIFY_SECONDS, duration * QUALIFY_FRACTION) : QUALIFY_SECONDS;
+        if (session.started && !session.qualified && session.listened >= qualifiesAt) {
+            session.qualified = true;
+            emit(session, 'play');
+        }
+    }, [progress]);
+}
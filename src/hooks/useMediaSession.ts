@@ -0,0 +1,137 @@
+/**
+ * useMediaSession Hook
+ *
+ * Publishes the current item to navigator.mediaSession so hardware media keys,
+ * lock screens and OS now-playing widgets can show and control playback.
+ */
+import { useEffect, useRef } from 'react';
+import { getTrackCoverUrl, isEpisode } from '../utils/trackUtils';
+import type { PlayableItem } from '../types';
+
+// Default skip for seekbackward/seekforward when the OS doesn't send an offset
+const DEFAULT_SEEK_OFFSET = 10;
+const ARTWORK_SIZES = [96, 256, 512];
+
+interface UseMediaSessionProps {
+    currentTrack: PlayableItem | null;
+    isPlaying: boolean;
+    progress: number;
+    duration: number;
+    playbackRate: number;
+    onPlay: () => void;
+    onPause: () => void;
+    onNext: () => void;
+    onPrevious: () => void;
+    onSeek: (time: number) => void;
+}
+
+function buildMetadata(item: PlayableItem): MediaMetadata {
+    if (isEpisode(item)) {
+        return new MediaMetadata({ title: item.title, artist: 'Podcast' });
+    }
+
+    const artwork: MediaImage[] = [];
+    for (const size of ARTWORK_SIZES) {
+        const src = getTrackCoverUrl(item, size, size);
+        if (src) artwork.push({ src, sizes: `${size}x${size}` });
+    }
+
+    return new MediaMetadata({
+        title: item.title,
+        artist: item.artist,
+        album: item.album ?? '',
+        artwork,
+    });
+}
+
+export function useMediaSession({
+    currentTrack,
+    isPlaying,
+    progress,
+    duration,
+    playbackRate,
+    onPlay,
+    onPause,
+    onNext,
+    onPrevious,
+    onSeek,
+}: UseMediaSessionProps) {
+    const supported = typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+    // Handlers are registered once - refs keep them pointing at the latest callbacks
+    const handlersRef = useRef({ onPlay, onPause, onNext, onPrevious, onSeek });
+    const progressRef = useRef(progress);
+
+    useEffect(() => {
+        handlersRef.current = { onPlay, onPause, onNext, onPrevious, onSeek };
+        progressRef.current = progress;
+    });
+
+    // Metadata
+    useEffect(() => {
+        if (!supported) return;
+        navigator.mediaSession.metadata = currentTrack ? buildMetadata(currentTrack) : null;
+    }, [supported, currentTrack]);
+
+    // Playback state
+    useEffect(() => {
+        if (!supported) return;
+        navigator.mediaSession.playbackState = currentTrack ? (isPlaying ? 'playing' : 'paused') : 'none';
+    }, [supported, currentTrack, isPlaying]);
+
+    // Position - the OS extrapolates between updates, so this just has to stay in sync
+    useEffect(() => {
+        if (!supported || !navigator.mediaSession.setPositionState) return;
+        if (!currentTrack || !Number.isFinite(duration) || duration <= 0) return;
+
+        try {
+            navigator.mediaSession.setPositionState({
+                duration,
+                position: Math.max(0, Math.min(progress, duration)),
+                playbackRate,
+            });
+        } catch (error) {
+            // Throws on inconsistent values mid track-change - the next update corrects it
+            console.warn('[MediaSession] setPositionState failed:', error);
+        }
+    }, [supported, currentTrack, progress, duration, playbackRate]);
+
+    // Action handlers
+    useEffect(() => {
+        if (!supported) return;
+
+        const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+            ['play', () => handlersRef.current.onPlay()],
+            ['pause', () => handlersRef.current.onPause()],
+            ['previoustrack', () => handlersRef.current.onPrevious()],
+            ['nexttrack', () => handlersRef.current.onNext()],
+            ['seekto', (details) => {
+                if (details.seekTime !== undefined) handlersRef.current.onSeek(details.seekTime);
+            }],
+            ['seekbackward', (details) => {
+                handlersRef.current.onSeek(progressRef.current - (details.seekOffset ?? DEFAULT_SEEK_OFFSET));
+            }],
+            ['seekforward', (details) => {
+                handlersRef.current.onSeek(progressRef.current + (details.seekOffset ?? DEFAULT_SEEK_OFFSET));
+            }],
+        ];
+
+        for (const [action, handler] of actions) {
+            try {
+                navigator.mediaSession.setActionHandler(action, handler);
+            } catch {
+                // Action not supported by this browser
+            }
+        }
+
+        return () => {
+            for (const [action] of actions) {
+                try {
+                    navigator.mediaSession.setActionHandler(action, null);
+                } catch {
+                    // Action not supported by this browser
+                }
+            }
+        };
+    }, [supported]);
+}
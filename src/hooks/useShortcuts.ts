@@ -0,0 +1,50 @@
+/**
+ * useShortcuts Hooks
+ *
+ * Access to the shortcut registry in ShortcutsProvider: bindings and the cheat sheet
+ * through useShortcuts, component-level action handlers through useShortcutHandler.
+ */
+import { createContext, useContext, useEffect, useRef } from 'react';
+import type { ShortcutAction, ShortcutBindings } from '../lib/shortcuts';
+
+interface ShortcutsContextType {
+    bindings: ShortcutBindings;
+    /** Assign a key to an action. If another action had that key, the two swap. */
+    rebind: (action: ShortcutAction, key: string) => void;
+    resetBindings: () => void;
+    /** Action waiting for its new key (Settings "press a key" state) */
+    recordingAction: ShortcutAction | null;
+    startRecording: (action: ShortcutAction) => void;
+    cancelRecording: () => void;
+    isCheatSheetOpen: boolean;
+    setCheatSheetOpen: (open: boolean) => void;
+    /** Register a handler for an action. Returns the unregister function. */
+    registerHandler: (action: ShortcutAction, handler: () => void) => () => void;
+}
+
+export const ShortcutsContext = createContext<ShortcutsContextType | undefined>(undefined);
+
+export function useShortcuts() {
+    const context = useContext(ShortcutsContext);
+    if (context === undefined) {
+        throw new Error('useShortcuts must be used within a ShortcutsProvider');
+    }
+    return context;
+}
+
+/**
+ * Handle a shortcut action while this component is mounted (and `enabled`)
+ */
+export function useShortcutHandler(action: ShortcutAction, handler: () => void, enabled = true) {
+    const { registerHandler } = useShortcuts();
+    const handlerRef = useRef(handler);
+
+    useEffect(() => {
+        handlerRef.current = handler;
+    });
+
+    useEffect(() => {
+        if (!enabled) return;
+        return registerHandler(action, () => handlerRef.current());
+    }, [action, enabled, registerHandler]);
+}
@@ -0,0 +1,115 @@
+/**
+ * useSkipSilence Hook
+ *
+ * Smart speed for spoken audio: listens to the mix through the level analyser and
+ * plays silent stretches (pauses between sentences, dead air) at a higher speed,
+ * dropping back to the chosen speed as soon as anyone talks again. The listening
+ * time saved is logged per episode (see services/timeSaved.service).
+ *
+ * Only works on decks routed through Web Audio - an unrouted deck is invisible to
+ * the analyser and would look silent throughout.
+ */
+import { useEffect, useRef } from 'react';
+import { getDeckGain, getLevelAnalyser, isAudioGraphRunning } from '../lib/audioGraph';
+import { timeSavedService } from '../services';
+import type { Episode } from '../types';
+
+// How often the level is checked
+const POLL_INTERVAL_MS = 50;
+// Below this level (dBFS, before the user volume) counts as silence
+const SILENCE_THRESHOLD_DB = -45;
+// Silence has to last this long before speeding up - natural pauses shorter than this are left alone
+const MIN_SILENCE_MS = 300;
+// Silent stretches play this much faster than the chosen speed...
+const SILENCE_SPEEDUP = 3;
+// ...capped here
+const MAX_SILENCE_RATE = 4;
+
+interface UseSkipSilenceProps {
+    /** Skip silence is on and an episode is playing */
+    enabled: boolean;
+    episode: Episode | null;
+    audioRef: React.RefObject<HTMLAudioElement | null>;
+    volume: number;
+    playbackRate: number;
+}
+
+interface SilenceSpan {
+    deck: HTMLAudioElement;
+    /** Media time the speed-up started at */
+    from: number;
+    /** performance.now() at the start */
+    startedAt: number;
+    rate: number;
+}
+
+export function useSkipSilence({ enabled, episode, audioRef, volume, playbackRate }: UseSkipSilenceProps) {
+    // The poll reads the latest volume and speed without restarting
+    const latestRef = useRef({ volume, playbackRate });
+    useEffect(() => {
+        latestRef.current = { volume, playbackRate };
+    });
+
+    useEffect(() => {
+        if (!enabled || !episode) return;
+
+        let buffer: Float32Array<ArrayBuffer> | null = null;
+        let silentSince: number | null = null;
+        let span: SilenceSpan | null = null;
+
+        // Back to the chosen speed, booking the time the span saved
+        const endSpan = () => {
+            if (!span) return;
+            const { deck, from, startedAt, rate } = span;
+            const { playbackRate } = latestRef.current;
+            deck.playbackRate = playbackRate;
+
+            // A seek during the span mustn't count as time saved
+            const covered = Math.min(deck.currentTime - from, (performance.now() - startedAt) / 1000 * rate);
+            if (covered > 0) timeSavedService.record(episode, covered / playbackRate - covered / rate);
+            span = null;
+        };
+
+        const poll = () => {
+            const deck = audioRef.current;
+            const { volume, playbackRate } = latestRef.current;
+            if (span && span.deck !== deck) endSpan();
+
+            if (!deck || deck.paused || volume <= 0 || !getDeckGain(deck) || !isAudioGraphRunning()) {
+                silentSince = null;
+                endSpan();
+                return;
+            }
+
+            const analyser = getLevelAnalyser();
+            if (!buffer) buffer = new Float32Array(analyser.fftSize);
+            analyser.getFloatTimeDomainData(buffer);
+            let sum = 0;
+            for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+            // The level analyser hears the element volume - take it back out
+            const level = Math.sqrt(sum / buffer.length) / volume;
+            const db = level > 0 ? 20 * Math.log10(level) : -Infinity;
+
+            if (db >= SILENCE_THRESHOLD_DB) {
+                silentSince = null;
+                endSpan();
+                return;
+            }
+
+            const now = performance.now();
+            if (silentSince === null) silentSince = now;
+            if (!span && now - silentSince >= MIN_SILENCE_MS) {
+                const rate = Math.min(MAX_SILENCE_RATE, playbackRate * SILENCE_SPEEDUP);
+                if (rate <= playbackRate) return;
+                span = { deck, from: deck.currentTime, startedAt: now, rate };
+                deck.playbackRate = rate;
+            }
+        };
+
+        const interval = setInterval(poll, POLL_INTERVAL_MS);
+        return () => {
+            clearInterval(interval);
+            endSpan();
+        };
+    }, [enabled, episode, audioRef]);
+}
@@ -0,0 +1,124 @@
+/**
+ * useSleepTimer Hook
+ *
+ * Drives the player's sleep timer: fades the output down through the master
+ * GainNode, then pauses. Minute timers fade over their last 30 seconds; track
+ * timers fade over the closing seconds of the final item.
+ */
+import { useCallback, useEffect, useRef } from 'react';
+import { getDeckGain, getMasterGain } from '../lib/audioGraph';
+import type { SleepTimer } from '../types';
+
+const MINUTES_FADE_SECONDS = 30;
+const TRACK_FADE_SECONDS = 10;
+// Interval for volume-based fades when the deck isn't routed through Web Audio
+const FADE_STEP_MS = 100;
+
+interface UseSleepTimerProps {
+    sleepTimer: SleepTimer | null;
+    audioRef: React.RefObject<HTMLAudioElement | null>;
+    volume: number;
+    progress: number;
+    duration: number;
+    playbackRate: number;
+    /** Called when a minute timer runs out - should pause and clear the timer */
+    onExpire: () => void;
+}
+
+export function useSleepTimer({
+    sleepTimer,
+    audioRef,
+    volume,
+    progress,
+    duration,
+    playbackRate,
+    onExpire,
+}: UseSleepTimerProps) {
+    const volumeRef = useRef(volume);
+    const onExpireRef = useRef(onExpire);
+    const fadeIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    // How the current fade is applied, null when not fading
+    const fadeModeRef = useRef<'gain' | 'volume' | null>(null);
+
+    useEffect(() => {
+        volumeRef.current = volume;
+        onExpireRef.current = onExpire;
+    });
+
+    const startFade = useCallback((seconds: number) => {
+        const deck = audioRef.current;
+        if (fadeModeRef.current || !deck) return;
+
+        if (getDeckGain(deck)) {
+            fadeModeRef.current = 'gain';
+            const master = getMasterGain();
+            const now = master.context.currentTime;
+            master.gain.cancelScheduledValues(now);
+            master.gain.setValueAtTime(master.gain.value, now);
+            master.gain.linearRampToValueAtTime(0, now + seconds);
+            return;
+        }
+
+        // Unrouted deck - step element.volume instead
+        fadeModeRef.current = 'volume';
+        const startedAt = performance.now();
+        fadeIntervalRef.current = setInterval(() => {
+            const t = Math.min(1, (performance.now() - startedAt) / (seconds * 1000));
+            const element = audioRef.current;
+            if (element) element.volume = volumeRef.current * (1 - t);
+        }, FADE_STEP_MS);
+    }, [audioRef]);
+
+    /** Undo a fade - called once the player has paused or the timer was cancelled */
+    const restoreLevel = useCallback(() => {
+        const mode = fadeModeRef.current;
+        fadeModeRef.current = null;
+
+        if (mode === 'volume') {
+            if (fadeIntervalRef.current) clearInterval(fadeIntervalRef.current);
+            fadeIntervalRef.current = null;
+            if (audioRef.current) audioRef.current.volume = volumeRef.current;
+        } else if (mode === 'gain') {
+            const master = getMasterGain();
+            master.gain.cancelScheduledValues(master.context.currentTime);
+            master.gain.setValueAtTime(1, master.context.currentTime);
+        }
+    }, [audioRef]);
+
+    // Minute timers run on the wall clock, whatever the player is doing
+    const endsAt = sleepTimer?.mode === 'minutes' ? sleepTimer.endsAt : null;
+
+    useEffect(() => {
+        if (endsAt === null) return;
+
+        const remaining = endsAt - Date.now();
+        const fadeSeconds = Math.min(MINUTES_FADE_SECONDS, Math.max(0, remaining / 1000));
+        const fadeTimer = setTimeout(() => startFade(fadeSeconds), Math.max(0, remaining - fadeSeconds * 1000));
+        const expireTimer = setTimeout(() => onExpireRef.current(), Math.max(0, remaining));
+
+        return () => {
+            clearTimeout(fadeTimer);
+            clearTimeout(expireTimer);
+            restoreLevel();
+        };
+    }, [endsAt, startFade, restoreLevel]);
+
+    // Track timers fade out the end of the last item - the engine stops instead of advancing
+    const isLastTrack = sleepTimer?.mode === 'tracks' && sleepTimer.remaining <= 1;
+    const trackRemaining = (duration - progress) / playbackRate;
+
+    useEffect(() => {
+        if (!isLastTrack || !Number.isFinite(trackRemaining) || duration <= 0) return;
+        if (trackRemaining > 0 && trackRemaining <= TRACK_FADE_SECONDS) {
+            startFade(trackRemaining);
+        } else if (trackRemaining > TRACK_FADE_SECONDS) {
+            // Seeked back out of the fade window
+            restoreLevel();
+        }
+    }, [isLastTrack, trackRemaining, duration, startFade, restoreLevel]);
+
+    useEffect(() => {
+        if (!isLastTrack) return;
+        return () => restoreLevel();
+    }, [isLastTrack, restoreLevel]);
+}
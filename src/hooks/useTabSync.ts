@@ -0,0 +1,158 @@
+/**
+ * useTabSync Hook
+ *
+ * Coordinates players across browser tabs over a BroadcastChannel so only one
+ * tab plays at a time. The tab that last started playback is the active tab: it
+ * publishes its now-playing state, and every other tab can show it and send it
+ * play/pause/next/previous commands.
+ */
+import { useEffect, useRef, useState } from 'react';
+import type { PlayableItem } from '../types';
+
+const CHANNEL_NAME = 'music-app-player';
+
+// The active tab re-publishes its position in buckets of this many seconds
+const STATE_PROGRESS_INTERVAL = 5;
+
+export type RemoteCommand = 'play' | 'pause' | 'next' | 'previous';
+
+/** Now-playing state of the active tab, as seen from another tab */
+export interface RemotePlayback {
+    tabId: string;
+    currentTrack: PlayableItem | null;
+    isPlaying: boolean;
+    progress: number;
+    duration: number;
+    playbackRate: number;
+    /** When `progress` was sampled (epoch ms) - remotes extrapolate from here */
+    updatedAt: number;
+}
+
+type TabMessage =
+    | { type: 'hello'; tabId: string }
+    | { type: 'claim'; tabId: string }
+    | { type: 'release'; tabId: string }
+    | { type: 'state'; state: RemotePlayback }
+    | { type: 'command'; tabId: string; command: RemoteCommand };
+
+interface UseTabSyncProps {
+    currentTrack: PlayableItem | null;
+    isPlaying: boolean;
+    progress: number;
+    duration: number;
+    playbackRate: number;
+    /** Another tab started playing */
+    onPause: () => void;
+    /** A remote tab sent this (active) tab a command */
+    onCommand: (command: RemoteCommand) => void;
+}
+
+function createTabId(): string {
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function useTabSync({
+    currentTrack,
+    isPlaying,
+    progress,
+    duration,
+    playbackRate,
+    onPause,
+    onCommand,
+}: UseTabSyncProps) {
+    const supported = typeof BroadcastChannel !== 'undefined';
+    const [tabId] = useState(createTabId);
+    const [remote, setRemote] = useState<RemotePlayback | null>(null);
+
+    const channelRef = useRef<BroadcastChannel | null>(null);
+    // True while this tab is the one others should control
+    const isActiveRef = useRef(false);
+
+    // Handlers and local state are read from message callbacks - keep them current
+    const handlersRef = useRef({ onPause, onCommand });
+    const snapshotRef = useRef<RemotePlayback | null>(null);
+
+    useEffect(() => {
+        handlersRef.current = { onPause, onCommand };
+        snapshotRef.current = { tabId, currentTrack, isPlaying, progress, duration, playbackRate, updatedAt: Date.now() };
+    });
+
+    const publish = () => {
+        if (isActiveRef.current && snapshotRef.current) {
+            channelRef.current?.postMessage({ type: 'state', state: snapshotRef.current } satisfies TabMessage);
+        }
+    };
+
+    // Channel lifecycle
+    useEffect(() => {
+        if (!supported) return;
+
+        const channel = new BroadcastChannel(CHANNEL_NAME);
+        channelRef.current = channel;
+
+        channel.onmessage = (event: MessageEvent<TabMessage>) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'hello':
+                    // A new tab wants to know what's playing
+                    publish();
+                    break;
+                case 'claim':
+                    if (isActiveRef.current) {
+                        isActiveRef.current = false;
+                        channel.postMessage({ type: 'release', tabId } satisfies TabMessage);
+                    }
+                    if (snapshotRef.current?.isPlaying) handlersRef.current.onPause();
+                    break;
+                case 'release':
+                    setRemote(prev => prev?.tabId === message.tabId ? null : prev);
+                    break;
+                case 'state':
+                    setRemote(message.state);
+                    break;
+                case 'command':
+                    if (message.tabId === tabId && isActiveRef.current) {
+                        handlersRef.current.onCommand(message.command);
+                    }
+                    break;
+            }
+        };
+
+        channel.postMessage({ type: 'hello', tabId } satisfies TabMessage);
+
+        // Closing the active tab leaves nothing to control
+        const release = () => {
+            if (isActiveRef.current) channel.postMessage({ type: 'release', tabId } satisfies TabMessage);
+        };
+        window.addEventListener('pagehide', release);
+
+        return () => {
+            release();
+            window.removeEventListener('pagehide', release);
+            channel.close();
+            channelRef.current = null;
+        };
+    }, [supported, tabId]);
+
+    // Starting playback here makes this the active tab and pauses everyone else
+    useEffect(() => {
+        if (!isPlaying || isActiveRef.current) return;
+        isActiveRef.current = true;
+        channelRef.current?.postMessage({ type: 'claim', tabId } satisfies TabMessage);
+    }, [isPlaying, tabId]);
+
+    // Keep remotes up to date
+    const progressBucket = Math.floor(progress / STATE_PROGRESS_INTERVAL);
+    useEffect(() => {
+        publish();
+    }, [currentTrack?.$id, isPlaying, progressBucket, duration, playbackRate]);
+
+    const sendCommand = (command: RemoteCommand) => {
+        if (!remote) return;
+        channelRef.current?.postMessage({ type: 'command', tabId: remote.tabId, command } satisfies TabMessage);
+    };
+
+    return { remote, sendCommand };
+}
@@ -0,0 +1,12 @@
+/**
+ * useVisualQuality Hook
+ *
+ * The quality governor's current tier for components that size or style themselves
+ * by it. Canvas loops should read it per frame through runFrameLoop instead.
+ */
+import { useSyncExternalStore } from 'react';
+import { getVisualQuality, subscribeToVisualQuality, type VisualQuality } from '../lib/qualityGovernor';
+
+export function useVisualQuality(): VisualQuality {
+    return useSyncExternalStore(subscribeToVisualQuality, getVisualQuality);
+}
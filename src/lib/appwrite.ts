@@ -75,12 +75,125 @@ export type BucketName = typeof BUCKETS[keyof typeof BUCKETS];
  * Blob URLs are same-origin, so Web Audio API can analyze them.
  */
 
-// Cache for proxied audio blob URLs (original URL -> blob URL)
-const audioProxyCache = new Map<string, string>();
+/**
+ * Blob cache - an LRU bounded by total blob size.
+ * Evicted blob URLs are revoked so their memory is released. Pinned keys (the
+ * current and upcoming tracks) are never evicted while an element may need them.
+ * Offline downloads read from Cache Storage are held here too.
+ */
+const AUDIO_CACHE_BUDGET_BYTES = 200 * 1024 * 1024;
+
+interface CachedAudio {
+    url: string;
+    size: number;
+}
+
+// Original URL (or storage:<fileId>, offline:<itemId>) -> blob. Map order is recency, oldest first.
+const audioProxyCache = new Map<string, CachedAudio>();
+let audioProxyCacheBytes = 0;
+const pinnedAudioKeys = new Set<string>();
+
+/**
+ * Cached blob URL for a key. Reading marks it as recently used unless `touch` is false.
+ */
+export function getCachedAudio(key: string, touch = true): string | undefined {
+    const entry = audioProxyCache.get(key);
+    if (entry && touch) {
+        audioProxyCache.delete(key);
+        audioProxyCache.set(key, entry);
+    }
+    return entry?.url;
+}
+
+/**
+ * Drop least recently used, unpinned blobs until `reserve` more bytes fit the budget
+ */
+function evictAudioCache(reserve = 0): void {
+    for (const [key, entry] of audioProxyCache) {
+        if (audioProxyCacheBytes + reserve <= AUDIO_CACHE_BUDGET_BYTES) break;
+        if (pinnedAudioKeys.has(key)) continue;
+        URL.revokeObjectURL(entry.url);
+        audioProxyCache.delete(key);
+        audioProxyCacheBytes -= entry.size;
+    }
+}
+
+/**
+ * Hand out a blob URL for `blob` under `key`, counted against the cache budget
+ */
+export function cacheAudioBlob(key: string, blob: Blob): string {
+    // A blob already stored under this key is replaced, not leaked
+    revokeProxiedAudioUrl(key);
+    // Make room first - the new blob is about to be handed to an element
+    evictAudioCache(blob.size);
+    const url = URL.createObjectURL(blob);
+    audioProxyCache.set(key, { url, size: blob.size });
+    audioProxyCacheBytes += blob.size;
+    return url;
+}
+
+/** Cache key for an Appwrite Storage audio file */
+export function storageAudioCacheKey(fileId: string): string {
+    return `storage:${fileId}`;
+}
+
+/** Cache key for a downloaded item's offline copy */
+export function offlineAudioCacheKey(itemId: string): string {
+    return `offline:${itemId}`;
+}
+
+/**
+ * Protect these cache keys (original URLs, storageAudioCacheKey()s or offlineAudioCacheKey()s) from
+ * eviction, replacing the previous set. The player pins what is playing and what's next.
+ */
+export function pinAudioCache(keys: string[]): void {
+    pinnedAudioKeys.clear();
+    for (const key of keys) pinnedAudioKeys.add(key);
+    evictAudioCache();
+}
 
 // Pending proxy requests to avoid duplicate fetches
 const pendingProxyRequests = new Map<string, Promise<string>>();
 
+/**
+ * True for URLs served by our own Appwrite instance - fetchable without the proxy
+ */
+export function isInternalAppwriteUrl(url: string): boolean {
+    const appwriteEndpoint = import.meta.env.VITE_APPWRITE_ENDPOINT;
+    return url.includes(appwriteEndpoint || 'appwrite.io') ||
+        url.includes('cloud.appwrite.io') ||
+        url.includes('audioos.appwrite.network');
+}
+
+/**
+ * Run the audio proxy function, which copies a cross-origin file into Storage,
+ * and return the Storage view URL for the copy (fetchable with CORS)
+ */
+export async function getProxiedStorageUrl(originalUrl: string): Promise<string> {
+    const functionId = import.meta.env.VITE_FUNCTION_AUDIO_PROXY;
+    if (!functionId) throw new Error('Audio proxy function ID missing');
+
+    const execution = await functions.createExecution(
+        functionId,
+        '', // No body needed
+        false, // synchronous execution
+        `/?url=${encodeURIComponent(originalUrl)}`
+    );
+
+    if (execution.status !== 'completed' || !execution.responseBody) {
+        throw new Error(`Proxy failed: ${execution.status}`);
+    }
+
+    // Parse the response to get the fileId
+    const result = JSON.parse(execution.responseBody);
+    if (!result.success || !result.fileId) {
+        throw new Error(result.error || 'Proxy failed to return file ID');
+    }
+
+    // Generate a Storage View URL
+    return storage.getFileView(BUCKETS.AUDIO, result.fileId).toString();
+}
+
 /**
  * Fetch audio through CORS proxy and return a Blob URL
  * This enables Web Audio API visualization for cross-origin audio
@@ -90,9 +203,8 @@ const pendingProxyRequests = new Map<string, Promise<string>>();
  */
 export async function fetchProxiedAudioBlob(originalUrl: string): Promise<string> {
     // Return cached blob URL if available
-    if (audioProxyCache.has(originalUrl)) {
-        return audioProxyCache.get(originalUrl)!;
-    }
+    const cached = getCachedAudio(originalUrl);
+    if (cached) return cached;
 
     // Return pending request if already in progress
     if (pendingProxyRequests.has(originalUrl)) {
@@ -104,12 +216,7 @@ export async function fetchProxiedAudioBlob(originalUrl: string): Promise<string
         try {
             // OPTIMIZATION: If the URL is already from our Appwrite instance, skip the proxy function!
             // This avoids "Unauthorized domain" errors when proxying our own files.
-            const appwriteEndpoint = import.meta.env.VITE_APPWRITE_ENDPOINT;
-            const isInternalAppwrite = originalUrl.includes(appwriteEndpoint || 'appwrite.io') ||
-                originalUrl.includes('cloud.appwrite.io') ||
-                originalUrl.includes('audioos.appwrite.network');
-
-            if (isInternalAppwrite) {
+            if (isInternalAppwriteUrl(originalUrl)) {
                 // Determine if we need to fetch as blob (for visualization) or just return URL
                 // For visualization to work with CORS, we often need a blob URL even for same-origin if headers are strict
                 // But for Appwrite, we can try direct fetch first.
@@ -118,9 +225,7 @@ export async function fetchProxiedAudioBlob(originalUrl: string): Promise<string
                     const response = await fetch(originalUrl);
                     if (!response.ok) throw new Error(`Internal fetch failed: ${response.status}`);
                     const blob = await response.blob();
-                    const blobUrl = URL.createObjectURL(blob);
-                    audioProxyCache.set(originalUrl, blobUrl);
-                    return blobUrl;
+                    return cacheAudioBlob(originalUrl, blob);
                 } catch (e) {
                     console.warn('[AudioProxy] Internal blob fetch failed, falling back to original URL', e);
                     return originalUrl;
@@ -133,37 +238,14 @@ export async function fetchProxiedAudioBlob(originalUrl: string): Promise<string
                 return originalUrl;
             }
 
-            const execution = await functions.createExecution(
-                functionId,
-                '', // No body needed
-                false, // synchronous execution
-                `/?url=${encodeURIComponent(originalUrl)}`
-            );
-
-            if (execution.status !== 'completed' || !execution.responseBody) {
-                throw new Error(`Proxy failed: ${execution.status}`);
-            }
-
-            // Parse the response to get the fileId
-            const result = JSON.parse(execution.responseBody);
-            if (!result.success || !result.fileId) {
-                throw new Error(result.error || 'Proxy failed to return file ID');
-            }
-
-            // Generate a Storage View URL
-            const storageUrl = storage.getFileView(BUCKETS.AUDIO, result.fileId).toString();
+            const storageUrl = await getProxiedStorageUrl(originalUrl);
 
             // Convert to real Blob URL for perfect seeking & visualization
             const response = await fetch(storageUrl);
             if (!response.ok) throw new Error(`Failed to fetch file data: ${response.statusText}`);
 
             const blob = await response.blob();
-            const blobUrl = URL.createObjectURL(blob);
-
-            audioProxyCache.set(originalUrl, blobUrl);
-
-
-            return blobUrl;
+            return cacheAudioBlob(originalUrl, blob);
 
 
         } catch (error: any) {
@@ -190,12 +272,11 @@ export async function fetchProxiedAudioBlob(originalUrl: string): Promise<string
  * Useful for visualization of admin-uploaded files
  */
 export async function fetchStorageAudioBlob(fileId: string): Promise<string> {
-    const cacheKey = `storage:${fileId}`;
+    const cacheKey = storageAudioCacheKey(fileId);
 
     // Return cached blob URL if available
-    if (audioProxyCache.has(cacheKey)) {
-        return audioProxyCache.get(cacheKey)!;
-    }
+    const cached = getCachedAudio(cacheKey);
+    if (cached) return cached;
 
     // Return pending request if already in progress
     if (pendingProxyRequests.has(cacheKey)) {
@@ -212,11 +293,7 @@ export async function fetchStorageAudioBlob(fileId: string): Promise<string> {
             if (!response.ok) throw new Error(`Failed to fetch file data: ${response.statusText}`);
 
             const blob = await response.blob();
-            const blobUrl = URL.createObjectURL(blob);
-
-            audioProxyCache.set(cacheKey, blobUrl);
-
-            return blobUrl;
+            return cacheAudioBlob(cacheKey, blob);
         } catch (error) {
             console.error('[StorageProxy] Failed:', error);
             // Fallback to direct view URL if blob fetch fails
@@ -237,12 +314,8 @@ export async function fetchStorageAudioBlob(fileId: string): Promise<string> {
  * Used for initial audio element src before proxy fetch completes
  */
 export function getProxiedAudioUrlSync(originalUrl: string): string {
-    // Return cached blob URL if available
-    if (audioProxyCache.has(originalUrl)) {
-        return audioProxyCache.get(originalUrl)!;
-    }
-    // Otherwise return original for immediate playback
-    return originalUrl;
+    // Return cached blob URL if available, otherwise the original for immediate playback
+    return getCachedAudio(originalUrl) ?? originalUrl;
 }
 
 /**
@@ -253,13 +326,14 @@ export function isAudioProxied(originalUrl: string): boolean {
 }
 
 /**
- * Cleanup blob URLs when no longer needed
+ * Cleanup blob URLs when no longer needed - takes any cache key, not only original URLs
  */
 export function revokeProxiedAudioUrl(originalUrl: string): void {
-    const blobUrl = audioProxyCache.get(originalUrl);
-    if (blobUrl && blobUrl.startsWith('blob:')) {
-        URL.revokeObjectURL(blobUrl);
+    const entry = audioProxyCache.get(originalUrl);
+    if (entry) {
+        URL.revokeObjectURL(entry.url);
         audioProxyCache.delete(originalUrl);
+        audioProxyCacheBytes -= entry.size;
     }
 }
 
@@ -273,3 +347,12 @@ export function preloadAudioProxy(originalUrl: string): void {
         // Ignore errors during preload
     });
 }
+
+/**
+ * Preload an Appwrite Storage audio file into the blob cache
+ */
+export function preloadStorageAudio(fileId: string): void {
+    fetchStorageAudioBlob(fileId).catch(() => {
+        // Ignore errors during preload
+    });
+}
@@ -0,0 +1,390 @@
+/**
+ * Audio Graph
+ * Single Web Audio routing shared by the player decks and the analyzer.
+ *
+ * CRITICAL: A MediaElementSourceNode can only be created ONCE per audio element.
+ * The player runs two decks (see useAudioElement), so this module owns the one
+ * AudioContext and keeps exactly one source/gain pair per element:
+ *
+ *   deck A source → deck A loudness → deck A gain ─┐
+ *                                                  ├→ master gain → [voice] → [EQ] → analyser → destination
+ *   deck B source → deck B loudness → deck B gain ─┘        └→ level analyser
+ *
+ *   [voice] = high-pass → presence peak → compressor → makeup gain (only while voice boost is on)
+ *   [EQ] = preamp → bass shelf → 10 peaking bands → treble shelf (skipped when bypassed)
+ *
+ * The level analyser sees the mix before any processing - skip silence and the beat
+ * tracker listen to it.
+ * Clip recording taps the analyser output (createOutputStream).
+ * Loudness gains hold each deck's normalization (see lib/loudness), deck gains are
+ * what the crossfade engine ramps, and the master gain is the sleep timer's.
+ * User volume stays on element.volume.
+ */
+import {
+    BASS_SHELF_FREQUENCY,
+    EQ_BAND_Q,
+    EQ_FREQUENCIES,
+    FLAT_EQ,
+    TREBLE_SHELF_FREQUENCY,
+    type EqualizerSettings,
+} from './equalizer';
+
+// Time constant for gain changes - fast, but without zipper noise while dragging sliders
+const EQ_SMOOTHING = 0.02;
+
+// Voice boost: rumble cut, a lift where speech intelligibility lives, then
+// compression so quiet guests come up to the host's level
+const VOICE_HIGHPASS_FREQUENCY = 80;
+const VOICE_PRESENCE_FREQUENCY = 3000;
+const VOICE_PRESENCE_GAIN = 5;
+const VOICE_COMPRESSOR = { threshold: -30, knee: 12, ratio: 4, attack: 0.005, release: 0.25 };
+const VOICE_MAKEUP_GAIN_DB = 8;
+
+interface DeckNodes {
+    source: MediaElementAudioSourceNode;
+    loudness: GainNode;
+    gain: GainNode;
+}
+
+let audioContext: AudioContext | null = null;
+let analyser: AnalyserNode | null = null;
+let masterGain: GainNode | null = null;
+
+interface EqualizerNodes {
+    preamp: GainNode;
+    bass: BiquadFilterNode;
+    bands: BiquadFilterNode[];
+    treble: BiquadFilterNode;
+}
+
+interface VoiceBoostNodes {
+    input: BiquadFilterNode;
+    output: GainNode;
+}
+
+let equalizer: EqualizerNodes | null = null;
+let voiceBoost: VoiceBoostNodes | null = null;
+let voiceBoostEnabled = false;
+let levelAnalyser: AnalyserNode | null = null;
+// Kept even before the graph exists, so nodes start out with the saved curve
+let eqSettings: EqualizerSettings = FLAT_EQ;
+let eqBypassed = false;
+
+// Element -> nodes. WeakMap so discarded decks don't pin their nodes in memory.
+const deckNodes = new WeakMap<HTMLMediaElement, DeckNodes>();
+// Normalization (dB) per element - applied once the element is routed
+const deckLoudness = new WeakMap<HTMLMediaElement, number>();
+// Elements with a MediaElementSource - that's permanent, so they stay here until discarded
+const capturedElements = new WeakSet<HTMLMediaElement>();
+
+// Safari before 14.1 only has the prefixed constructor
+type LegacyWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+/**
+ * Get (or lazily create) the app-wide AudioContext
+ */
+export function getAudioContext(): AudioContext {
+    if (!audioContext) {
+        const AudioContextClass = window.AudioContext || (window as LegacyWindow).webkitAudioContext;
+        audioContext = new AudioContextClass();
+    }
+    return audioContext;
+}
+
+/**
+ * True once the graph exists and the browser has let it start.
+ * A suspended context outputs silence, so decks should only be routed into a running one.
+ */
+export function isAudioGraphRunning(): boolean {
+    return audioContext !== null && audioContext.state === 'running';
+}
+
+/**
+ * Get (or lazily create) the shared analyser, already connected to the speakers
+ */
+export function getAnalyser(): AnalyserNode {
+    if (!analyser) {
+        const context = getAudioContext();
+        analyser = context.createAnalyser();
+        analyser.connect(context.destination);
+    }
+    return analyser;
+}
+
+/**
+ * Get (or lazily create) the gain every deck feeds into, ahead of the analyser
+ */
+export function getMasterGain(): GainNode {
+    if (!masterGain) {
+        masterGain = getAudioContext().createGain();
+        routeMasterOutput();
+    }
+    return masterGain;
+}
+
+/**
+ * Get (or lazily create) the EQ chain, already feeding the analyser
+ */
+function getEqualizer(): EqualizerNodes {
+    if (!equalizer) {
+        const context = getAudioContext();
+
+        const preamp = context.createGain();
+        const bass = context.createBiquadFilter();
+        bass.type = 'lowshelf';
+        bass.frequency.value = BASS_SHELF_FREQUENCY;
+
+        const bands = EQ_FREQUENCIES.map((frequency) => {
+            const band = context.createBiquadFilter();
+            band.type = 'peaking';
+            band.frequency.value = frequency;
+            band.Q.value = EQ_BAND_Q;
+            return band;
+        });
+
+        const treble = context.createBiquadFilter();
+        treble.type = 'highshelf';
+        treble.frequency.value = TREBLE_SHELF_FREQUENCY;
+
+        const chain: AudioNode[] = [preamp, bass, ...bands, treble, getAnalyser()];
+        for (let i = 0; i < chain.length - 1; i++) {
+            chain[i].connect(chain[i + 1]);
+        }
+
+        equalizer = { preamp, bass, bands, treble };
+        applyEqualizerSettings(false);
+    }
+    return equalizer;
+}
+
+/**
+ * Get (or lazily create) the voice boost chain. Its output is wired up by routeMasterOutput.
+ */
+function getVoiceBoost(): VoiceBoostNodes {
+    if (!voiceBoost) {
+        const context = getAudioContext();
+
+        const highpass = context.createBiquadFilter();
+        highpass.type = 'highpass';
+        highpass.frequency.value = VOICE_HIGHPASS_FREQUENCY;
+
+        const presence = context.createBiquadFilter();
+        presence.type = 'peaking';
+        presence.frequency.value = VOICE_PRESENCE_FREQUENCY;
+        presence.gain.value = VOICE_PRESENCE_GAIN;
+
+        const compressor = context.createDynamicsCompressor();
+        compressor.threshold.value = VOICE_COMPRESSOR.threshold;
+        compressor.knee.value = VOICE_COMPRESSOR.knee;
+        compressor.ratio.value = VOICE_COMPRESSOR.ratio;
+        compressor.attack.value = VOICE_COMPRESSOR.attack;
+        compressor.release.value = VOICE_COMPRESSOR.release;
+
+        const makeup = context.createGain();
+        makeup.gain.value = Math.pow(10, VOICE_MAKEUP_GAIN_DB / 20);
+
+        highpass.connect(presence);
+        presence.connect(compressor);
+        compressor.connect(makeup);
+
+        voiceBoost = { input: highpass, output: makeup };
+    }
+    return voiceBoost;
+}
+
+/** Master → [voice boost] → EQ → analyser, skipping the stages that are off */
+function routeMasterOutput() {
+    if (!masterGain) return;
+    const output = eqBypassed ? getAnalyser() : getEqualizer().preamp;
+
+    masterGain.disconnect();
+    if (voiceBoostEnabled) {
+        const nodes = getVoiceBoost();
+        nodes.output.disconnect();
+        nodes.output.connect(output);
+        masterGain.connect(nodes.input);
+    } else {
+        masterGain.connect(output);
+    }
+    if (levelAnalyser) masterGain.connect(levelAnalyser);
+}
+
+function applyEqualizerSettings(smooth: boolean) {
+    if (!equalizer) return;
+    const now = equalizer.preamp.context.currentTime;
+    const set = (param: AudioParam, value: number) => {
+        if (smooth) param.setTargetAtTime(value, now, EQ_SMOOTHING);
+        else param.value = value;
+    };
+
+    set(equalizer.preamp.gain, Math.pow(10, eqSettings.preamp / 20));
+    set(equalizer.bass.gain, eqSettings.bass);
+    set(equalizer.treble.gain, eqSettings.treble);
+    equalizer.bands.forEach((band, i) => set(band.gain, eqSettings.bands[i] ?? 0));
+}
+
+/**
+ * Set the EQ curve. Applied immediately if the graph exists, otherwise when it's built.
+ */
+export function setEqualizerSettings(settings: EqualizerSettings): void {
+    eqSettings = settings;
+    // A suspended context's clock is frozen - scheduled ramps would never land
+    applyEqualizerSettings(isAudioGraphRunning());
+}
+
+/**
+ * Take the EQ out of (or back into) the signal path
+ */
+export function setEqualizerBypassed(bypassed: boolean): void {
+    if (eqBypassed === bypassed) return;
+    eqBypassed = bypassed;
+    routeMasterOutput();
+}
+
+/**
+ * Put the voice boost chain into (or take it out of) the signal path
+ */
+export function setVoiceBoostEnabled(enabled: boolean): void {
+    if (voiceBoostEnabled === enabled) return;
+    voiceBoostEnabled = enabled;
+    routeMasterOutput();
+}
+
+/**
+ * Get (or lazily create) an analyser on the mix ahead of voice boost and the EQ.
+ * Levels still include the user volume (element.volume). Unsmoothed, so spectra keep
+ * sharp onsets for beat tracking. Not connected to the speakers.
+ */
+export function getLevelAnalyser(): AnalyserNode {
+    if (!levelAnalyser) {
+        levelAnalyser = getAudioContext().createAnalyser();
+        levelAnalyser.fftSize = 1024;
+        levelAnalyser.smoothingTimeConstant = 0;
+        routeMasterOutput();
+    }
+    return levelAnalyser;
+}
+
+/**
+ * Combined magnitude response (dB) of the EQ chain at the given frequencies,
+ * including the preamp. Reflects the current settings even while bypassed.
+ */
+export function getEqualizerResponse(frequencies: Float32Array<ArrayBuffer>): Float32Array<ArrayBuffer> {
+    const nodes = getEqualizer();
+    const total = new Float32Array(frequencies.length).fill(eqSettings.preamp);
+    const magnitude = new Float32Array(frequencies.length);
+    const phase = new Float32Array(frequencies.length);
+
+    for (const filter of [nodes.bass, ...nodes.bands, nodes.treble]) {
+        filter.getFrequencyResponse(frequencies, magnitude, phase);
+        for (let i = 0; i < total.length; i++) {
+            total[i] += 20 * Math.log10(magnitude[i]);
+        }
+    }
+    return total;
+}
+
+/**
+ * Tap the final mix (what reaches the speakers) as a MediaStream - for recording clips.
+ * Call the returned stop function to disconnect the tap.
+ */
+export function createOutputStream(): { stream: MediaStream; stop: () => void } {
+    const destination = getAudioContext().createMediaStreamDestination();
+    const output = getAnalyser();
+    output.connect(destination);
+    return {
+        stream: destination.stream,
+        stop: () => output.disconnect(destination),
+    };
+}
+
+/**
+ * True once the element has been routed into the graph. Its output then only plays
+ * through Web Audio, so it can't take an unproxied cross-origin source.
+ */
+export function isMediaElementCaptured(element: HTMLMediaElement): boolean {
+    return capturedElements.has(element);
+}
+
+/**
+ * CORS safety check for routing an element through Web Audio.
+ * Connecting a MediaElementSource to a cross-origin URL (like Jamendo's CDN)
+ * without proper CORS headers makes the browser silence the audio (outputs zeroes).
+ * Only proxied (blob) or internal sources are safe.
+ */
+export function isCaptureSafe(src: string): boolean {
+    if (!src) return false;
+
+    const isExternal = src.includes('jamendo.com');
+    const isAppwrite = src.includes('appwrite.io');
+    const isBlob = src.startsWith('blob:');
+
+    return !(isExternal && !isAppwrite && !isBlob);
+}
+
+/**
+ * Route an audio element into the graph: element → loudness gain → deck gain → master gain.
+ * Safe to call repeatedly - the source node is only ever created once per element.
+ *
+ * @returns The deck's nodes, or null if the element was captured elsewhere
+ */
+export function connectMediaElement(element: HTMLMediaElement): DeckNodes | null {
+    const existing = deckNodes.get(element);
+    if (existing) return existing;
+
+    const context = getAudioContext();
+
+    try {
+        const source = context.createMediaElementSource(element);
+        const loudness = context.createGain();
+        const gain = context.createGain();
+
+        loudness.gain.value = Math.pow(10, (deckLoudness.get(element) ?? 0) / 20);
+        source.connect(loudness);
+        loudness.connect(gain);
+        gain.connect(getMasterGain());
+
+        const nodes = { source, loudness, gain };
+        deckNodes.set(element, nodes);
+
+        // Mark element as captured - the player uses this to know if it needs a fresh element
+        capturedElements.add(element);
+
+        return nodes;
+    } catch (error) {
+        if (error instanceof DOMException && error.name === 'InvalidStateError') {
+            // Already connected by another context - nothing we can route
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Get the crossfade gain for a deck, if it is routed through the graph
+ */
+export function getDeckGain(element: HTMLMediaElement): GainNode | null {
+    return deckNodes.get(element)?.gain ?? null;
+}
+
+/**
+ * Set a deck's loudness normalization in dB. Remembered for decks that aren't
+ * routed yet - unrouted decks play unnormalized.
+ *
+ * @param glide - ease into the new level (the track is already audible)
+ */
+export function setDeckNormalization(element: HTMLMediaElement, db: number, glide = false): void {
+    deckLoudness.set(element, db);
+    const nodes = deckNodes.get(element);
+    if (!nodes) return;
+
+    const param = nodes.loudness.gain;
+    const now = nodes.loudness.context.currentTime;
+    const value = Math.pow(10, db / 20);
+    param.cancelScheduledValues(now);
+    if (glide && isAudioGraphRunning()) {
+        param.setTargetAtTime(value, now, 0.1);
+    } else {
+        param.setValueAtTime(value, now);
+    }
+}
@@ -0,0 +1,256 @@
+/**
+ * Beat Tracker
+ * Real-time tempo and beat tracking from analyser spectra, one frame at a time:
+ *
+ *   spectrum → spectral flux (onset strength) → autocorrelation → tempo
+ *                                             → comb alignment  → beat phase → predicted beats
+ *
+ * Frames arrive at the display rate, so the onset signal is resampled onto a fixed
+ * grid first. Tempo is re-estimated every half second over the last few seconds;
+ * between estimates, beats are predicted from the last aligned beat and the period.
+ */
+
+export interface BeatState {
+    /** Tempo estimate, null until there's enough signal */
+    bpm: number | null;
+    /** How clearly periodic the onsets are (0-1) */
+    confidence: number;
+    /** Position inside the current beat (0 = on the beat, approaching 1 = just before the next) */
+    phase: number;
+    /** A beat landed since the previous frame */
+    isBeat: boolean;
+}
+
+export interface BeatTracker {
+    /**
+     * Feed one analyser frame (getByteFrequencyData output) taken at `time` (ms)
+     */
+    process(spectrum: Uint8Array, time: number): BeatState;
+    /** Forget everything - e.g. on a track change */
+    reset(): void;
+}
+
+// Onset signal sample rate (Hz) and how much of it is kept
+const ODF_RATE = 60;
+const ODF_SECONDS = 8;
+const ODF_LENGTH = ODF_RATE * ODF_SECONDS;
+
+// Tempo search range, and the prior that settles octave ambiguity (120 vs 60 vs 240)
+const MIN_BPM = 60;
+const MAX_BPM = 190;
+const PREFERRED_BPM = 120;
+const PRIOR_WIDTH_OCTAVES = 0.9;
+
+// Seconds of onset signal needed before the first estimate
+const MIN_HISTORY_SECONDS = 4;
+const ESTIMATE_INTERVAL_MS = 500;
+
+// A new tempo has to win this many estimates in a row to replace the current one
+const TEMPO_SWITCH_VOTES = 3;
+// Estimates within this ratio of the current tempo refine it instead
+const TEMPO_TOLERANCE = 0.04;
+
+// Beats aren't reported below this confidence
+export const MIN_BEAT_CONFIDENCE = 0.25;
+
+// Only bins below roughly this share of the spectrum carry useful onsets (kick, snare, hats)
+const FLUX_BIN_FRACTION = 0.5;
+
+/**
+ * Prior weight for a tempo - log-Gaussian around PREFERRED_BPM
+ */
+function tempoPrior(bpm: number): number {
+    const octaves = Math.log2(bpm / PREFERRED_BPM);
+    return Math.exp(-0.5 * (octaves / PRIOR_WIDTH_OCTAVES) ** 2);
+}
+
+export function createBeatTracker(): BeatTracker {
+    const odf = new Float32Array(ODF_LENGTH);
+    let odfCount = 0; // samples written (the ring index is odfCount % ODF_LENGTH)
+    let lastSampleTime: number | null = null;
+    let previousSpectrum: Float32Array | null = null;
+
+    let bpm: number | null = null;
+    let confidence = 0;
+    let candidate: { bpm: number; votes: number } | null = null;
+    let lastEstimate = 0;
+    // Time (ms) of the next predicted beat
+    let nextBeat: number | null = null;
+
+    /** Onset sample `age` samples back (0 = newest) */
+    const sampleAt = (age: number) => odf[(odfCount - 1 - age + ODF_LENGTH * 2) % ODF_LENGTH];
+
+    const pushSample = (value: number) => {
+        odf[odfCount % ODF_LENGTH] = value;
+        odfCount++;
+    };
+
+    /**
+     * Positive spectral change across the lower spectrum, in dB-ish byte units
+     */
+    const spectralFlux = (spectrum: Uint8Array): number => {
+        const bins = Math.max(1, Math.floor(spectrum.length * FLUX_BIN_FRACTION));
+        if (!previousSpectrum || previousSpectrum.length !== bins) {
+            previousSpectrum = new Float32Array(bins);
+            for (let i = 0; i < bins; i++) previousSpectrum[i] = spectrum[i];
+            return 0;
+        }
+        let flux = 0;
+        for (let i = 0; i < bins; i++) {
+            const diff = spectrum[i] - previousSpectrum[i];
+            if (diff > 0) flux += diff;
+            previousSpectrum[i] = spectrum[i];
+        }
+        return flux / bins;
+    };
+
+    /**
+     * Autocorrelate the recent onset signal over the tempo range
+     */
+    const estimateTempo = (): { bpm: number; confidence: number } | null => {
+        const length = Math.min(odfCount, ODF_LENGTH);
+        if (length < MIN_HISTORY_SECONDS * ODF_RATE) return null;
+
+        // Zero-mean copy, oldest first
+        const signal = new Float32Array(length);
+        let mean = 0;
+        for (let i = 0; i < length; i++) {
+            signal[i] = sampleAt(length - 1 - i);
+            mean += signal[i];
+        }
+        mean /= length;
+        let energy = 0;
+        for (let i = 0; i < length; i++) {
+            signal[i] -= mean;
+            energy += signal[i] * signal[i];
+        }
+        if (energy <= 0) return null;
+
+        const minLag = Math.floor((60 / MAX_BPM) * ODF_RATE);
+        const maxLag = Math.ceil((60 / MIN_BPM) * ODF_RATE);
+        const scores = new Float32Array(maxLag + 2);
+        let bestLag = -1;
+        let bestScore = 0;
+        for (let lag = minLag; lag <= maxLag + 1; lag++) {
+            let sum = 0;
+            for (let i = lag; i < length; i++) sum += signal[i] * signal[i - lag];
+            // Normalized autocorrelation, unbiased for the shrinking overlap
+            scores[lag] = (sum / (length - lag)) / (energy / length);
+            if (lag > maxLag) continue;
+            const weighted = scores[lag] * tempoPrior((60 * ODF_RATE) / lag);
+            if (weighted > bestScore) {
+                bestScore = weighted;
+                bestLag = lag;
+            }
+        }
+        if (bestLag < 0) return null;
+
+        // Parabolic interpolation between neighbouring lags for a sub-sample period
+        const left = scores[bestLag - 1] ?? scores[bestLag];
+        const right = scores[bestLag + 1] ?? scores[bestLag];
+        const curvature = left - 2 * scores[bestLag] + right;
+        const offset = curvature < 0 ? 0.5 * (left - right) / curvature : 0;
+        const lag = bestLag + Math.max(-0.5, Math.min(0.5, offset));
+
+        return {
+            bpm: (60 * ODF_RATE) / lag,
+            confidence: Math.max(0, Math.min(1, scores[bestLag])),
+        };
+    };
+
+    /**
+     * Where the last beat fell (ms), found by sliding a comb of beat-spaced teeth over the signal
+     */
+    const alignBeat = (period: number, now: number): number => {
+        const periodSamples = (period / 1000) * ODF_RATE;
+        const teeth = Math.floor(Math.min(odfCount, ODF_LENGTH) / periodSamples) - 1;
+        let bestOffset = 0;
+        let bestScore = -Infinity;
+        for (let offset = 0; offset < Math.ceil(periodSamples); offset++) {
+            let score = 0;
+            for (let k = 0; k < Math.max(1, Math.min(teeth, 4)); k++) {
+                score += sampleAt(Math.round(offset + k * periodSamples));
+            }
+            if (score > bestScore) {
+                bestScore = score;
+                bestOffset = offset;
+            }
+        }
+        return now - (bestOffset / ODF_RATE) * 1000;
+    };
+
+    const updateTempo = (now: number) => {
+        const estimate = estimateTempo();
+        if (!estimate) return;
+        confidence = confidence * 0.5 + estimate.confidence * 0.5;
+
+        if (bpm === null || Math.abs(estimate.bpm / bpm - 1) <= TEMPO_TOLERANCE) {
+            bpm = bpm === null ? estimate.bpm : bpm * 0.7 + estimate.bpm * 0.3;
+            candidate = null;
+        } else if (candidate && Math.abs(estimate.bpm / candidate.bpm - 1) <= TEMPO_TOLERANCE) {
+            candidate.votes++;
+            if (candidate.votes >= TEMPO_SWITCH_VOTES) {
+                bpm = estimate.bpm;
+                candidate = null;
+            }
+        } else {
+            candidate = { bpm: estimate.bpm, votes: 1 };
+        }
+
+        // Re-anchor predictions on the signal, keeping them from drifting
+        const period = 60000 / bpm;
+        const lastBeat = alignBeat(period, now);
+        nextBeat = lastBeat + period;
+        while (nextBeat <= now) nextBeat += period;
+    };
+
+    return {
+        process(spectrum, time) {
+            const flux = spectralFlux(spectrum);
+
+            // Resample onto the fixed grid - hold the value across dropped frames
+            if (lastSampleTime === null) {
+                lastSampleTime = time;
+                pushSample(flux);
+            } else {
+                const step = 1000 / ODF_RATE;
+                // A long gap (hidden tab, pause) would only smear the signal
+                if (time - lastSampleTime > 1000) lastSampleTime = time - step;
+                while (time - lastSampleTime >= step) {
+                    pushSample(flux);
+                    lastSampleTime += step;
+                }
+            }
+
+            if (time - lastEstimate >= ESTIMATE_INTERVAL_MS) {
+                lastEstimate = time;
+                updateTempo(time);
+            }
+
+            let isBeat = false;
+            let phase = 0;
+            if (bpm !== null && nextBeat !== null) {
+                const period = 60000 / bpm;
+                if (time >= nextBeat) {
+                    isBeat = confidence >= MIN_BEAT_CONFIDENCE;
+                    while (nextBeat <= time) nextBeat += period;
+                }
+                phase = 1 - (nextBeat - time) / period;
+            }
+
+            return { bpm, confidence, phase, isBeat };
+        },
+
+        reset() {
+            odf.fill(0);
+            odfCount = 0;
+            lastSampleTime = null;
+            previousSpectrum = null;
+            bpm = null;
+            confidence = 0;
+            candidate = null;
+            lastEstimate = 0;
+            nextBeat = null;
+        },
+    };
+}
@@ -0,0 +1,200 @@
+/**
+ * Clip Recorder
+ * Records a visualizer canvas as a WebM clip with the audio that's playing.
+ *
+ * The visualizer is copied each frame onto a composite canvas that also carries a
+ * title/artist overlay - the composite is what gets captured, so the source canvas
+ * can be replaced mid-recording (CymaticsVisualizer swaps canvases on quality
+ * changes). Audio comes from the audio graph's final mix; tracks that aren't routed
+ * through Web Audio (cross-origin streams) record as silence.
+ */
+import { createOutputStream } from './audioGraph';
+
+export const MAX_CLIP_SECONDS = 30;
+
+const FRAME_RATE = 30;
+// Longest side of the recorded video
+const MAX_VIDEO_SIZE = 1920;
+const MIME_TYPES = [
+    'video/webm;codecs=vp9,opus',
+    'video/webm;codecs=vp8,opus',
+    'video/webm',
+];
+
+export interface ClipOverlay {
+    title: string;
+    artist: string;
+}
+
+export interface ClipRecordingOptions {
+    overlay: ClipOverlay;
+    /** Stops by itself after this long */
+    maxSeconds?: number;
+    /** Seconds recorded so far, about once a second */
+    onProgress?: (seconds: number) => void;
+    onComplete: (clip: Blob) => void;
+    onError?: (error: unknown) => void;
+}
+
+export interface ClipRecording {
+    /** Stop early - the clip is still delivered to onComplete */
+    stop: () => void;
+}
+
+export function isClipRecordingSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' &&
+        typeof HTMLCanvasElement !== 'undefined' &&
+        'captureStream' in HTMLCanvasElement.prototype;
+}
+
+function pickMimeType(): string | undefined {
+    return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+function drawOverlay(ctx: CanvasRenderingContext2D, width: number, height: number, { title, artist }: ClipOverlay) {
+    const unit = Math.max(12, Math.round(Math.min(width, height) / 30));
+    const padding = unit * 1.5;
+
+    const gradient = ctx.createLinearGradient(0, height - unit * 6, 0, height);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0.7)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, height - unit * 6, width, unit * 6);
+
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
+    ctx.font = `600 ${Math.round(unit * 1.4)}px "Space Grotesk", sans-serif`;
+    ctx.fillText(title, padding, height - padding - unit * 1.4, width - padding * 2);
+    ctx.fillStyle = 'rgba(212, 175, 55, 0.9)';
+    ctx.font = `500 ${unit}px "Manrope", sans-serif`;
+    ctx.fillText(artist, padding, height - padding, width - padding * 2);
+}
+
+/**
+ * Start recording whatever canvas `getSource` returns. Throws if the browser can't
+ * record; later failures go to onError.
+ */
+export function startClipRecording(
+    getSource: () => HTMLCanvasElement | null,
+    { overlay, maxSeconds = MAX_CLIP_SECONDS, onProgress, onComplete, onError }: ClipRecordingOptions
+): ClipRecording {
+    if (!isClipRecordingSupported()) throw new Error('Clip recording is not supported in this browser');
+
+    const source = getSource();
+    if (!source || source.width === 0) throw new Error('Nothing to record');
+
+    // Size the video from the visualizer, even-sized for the encoder
+    const scale = Math.min(1, MAX_VIDEO_SIZE / Math.max(source.width, source.height));
+    const composite = document.createElement('canvas');
+    composite.width = Math.round((source.width * scale) / 2) * 2;
+    composite.height = Math.round((source.height * scale) / 2) * 2;
+    const ctx = composite.getContext('2d');
+    if (!ctx) throw new Error('No 2d context for the clip canvas');
+
+    let frameId: number | null = null;
+    const drawFrame = () => {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, composite.width, composite.height);
+
+        const current = getSource();
+        if (current && current.width > 0 && current.height > 0) {
+            const fit = Math.min(composite.width / current.width, composite.height / current.height);
+            const drawWidth = current.width * fit;
+            const drawHeight = current.height * fit;
+            ctx.drawImage(
+                current,
+                (composite.width - drawWidth) / 2,
+                (composite.height - drawHeight) / 2,
+                drawWidth,
+                drawHeight
+            );
+        }
+        drawOverlay(ctx, composite.width, composite.height, overlay);
+        frameId = requestAnimationFrame(drawFrame);
+    };
+
+    const video = composite.captureStream(FRAME_RATE);
+    const audio = createOutputStream();
+    const stream = new MediaStream([...video.getVideoTracks(), ...audio.stream.getAudioTracks()]);
+
+    // The recorder can refuse the stream or the MIME type - set it up before the
+    // draw loop starts, so a failure only has the streams to stop
+    const mimeType = pickMimeType();
+    let recorder: MediaRecorder;
+    try {
+        recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    } catch (error) {
+        stream.getTracks().forEach(track => track.stop());
+        audio.stop();
+        throw error;
+    }
+    drawFrame();
+
+    const chunks: Blob[] = [];
+    const startedAt = performance.now();
+    let stopped = false;
+    let failed = false;
+    let cleanedUp = false;
+
+    const cleanUp = () => {
+        if (cleanedUp) return;
+        cleanedUp = true;
+        if (frameId !== null) cancelAnimationFrame(frameId);
+        frameId = null;
+        clearTimeout(limitTimeout);
+        clearInterval(progressInterval);
+        stream.getTracks().forEach(track => track.stop());
+        audio.stop();
+    };
+
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+        cleanUp();
+        if (!failed) onComplete(new Blob(chunks, { type: mimeType ?? 'video/webm' }));
+    };
+    recorder.onerror = (event) => {
+        console.warn('[ClipRecorder] Recording failed:', event);
+        stopped = true;
+        failed = true;
+        cleanUp();
+        onError?.(event);
+    };
+
+    const stop = () => {
+        if (stopped) return;
+        stopped = true;
+        if (recorder.state !== 'inactive') recorder.stop();
+    };
+
+    const limitTimeout = setTimeout(stop, maxSeconds * 1000);
+    const progressInterval = setInterval(() => {
+        onProgress?.(Math.min(maxSeconds, Math.floor((performance.now() - startedAt) / 1000)));
+    }, 1000);
+
+    // Flush a chunk every second so a long clip isn't held in one buffer
+    try {
+        recorder.start(1000);
+    } catch (error) {
+        cleanUp();
+        throw error;
+    }
+    return { stop };
+}
+
+/**
+ * Save a recorded clip as a .webm download named after the track.
+ */
+export function downloadClip(clip: Blob, name: string): void {
+    const fileName = `${name.replace(/[\\/:*?"<>|]+/g, '').trim() || 'clip'}.webm`;
+    const url = URL.createObjectURL(clip);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the download a moment to start before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,85 @@
+/**
+ * Equalizer Definitions
+ * Band layout, gain limits and built-in presets shared by the audio graph,
+ * EqualizerContext and the EQ panel. All gains are in dB.
+ */
+
+export interface EqualizerSettings {
+    /** Input gain ahead of the filters - pull it down when boosting to avoid clipping */
+    preamp: number;
+    /** Low shelf */
+    bass: number;
+    /** High shelf */
+    treble: number;
+    /** Peaking filters, one per EQ_FREQUENCIES entry */
+    bands: number[];
+}
+
+/** Centre frequencies (Hz) of the 10 peaking bands */
+export const EQ_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+/** Shelf corner frequencies (Hz) */
+export const BASS_SHELF_FREQUENCY = 100;
+export const TREBLE_SHELF_FREQUENCY = 8000;
+
+/** Peaking filter Q - roughly one octave wide, matching the band spacing */
+export const EQ_BAND_Q = 1.4;
+
+/** Every slider runs from -EQ_GAIN_RANGE to +EQ_GAIN_RANGE dB */
+export const EQ_GAIN_RANGE = 12;
+
+export const FLAT_EQ: EqualizerSettings = {
+    preamp: 0,
+    bass: 0,
+    treble: 0,
+    bands: EQ_FREQUENCIES.map(() => 0),
+};
+
+export const EQ_PRESETS: Record<string, EqualizerSettings> = {
+    'Flat': FLAT_EQ,
+    'Bass Boost': {
+        preamp: -5,
+        bass: 3,
+        treble: 0,
+        bands: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0],
+    },
+    'Vocal': {
+        preamp: -3,
+        bass: -1,
+        treble: 0,
+        bands: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1],
+    },
+    'Podcast': {
+        preamp: -3,
+        bass: -2,
+        treble: -1,
+        bands: [-6, -4, -1, 1, 3, 4, 3, 1, -1, -3],
+    },
+    'Late Night': {
+        preamp: 0,
+        bass: -3,
+        treble: -2,
+        bands: [-4, -3, -2, 0, 1, 1, 0, -1, -2, -3],
+    },
+};
+
+export function clampGain(db: number): number {
+    if (!Number.isFinite(db)) return 0;
+    return Math.max(-EQ_GAIN_RANGE, Math.min(EQ_GAIN_RANGE, db));
+}
+
+/**
+ * Coerce stored/untrusted settings into a valid curve
+ */
+export function normalizeEqualizerSettings(settings: Partial<EqualizerSettings> | null | undefined): EqualizerSettings {
+    return {
+        preamp: clampGain(Number(settings?.preamp ?? 0)),
+        bass: clampGain(Number(settings?.bass ?? 0)),
+        treble: clampGain(Number(settings?.treble ?? 0)),
+        bands: EQ_FREQUENCIES.map((_, i) => clampGain(Number(settings?.bands?.[i] ?? 0))),
+    };
+}
+
+export function formatFrequency(hz: number): string {
+    return hz >= 1000 ? `${hz / 1000}K` : String(hz);
+}
@@ -132,6 +132,14 @@ export function getPodcasts<T>(params: PodcastParams = {}) {
 
 export type HistoryAction = 'record' | 'update_position' | 'get_history' | 'get_resume' | 'clear';
 
+export interface HistoryRecord {
+    itemId: string;
+    isEpisode: boolean;
+    /** When the play qualified (ISO) */
+    playedAt: string;
+    metadata?: unknown;
+}
+
 export interface HistoryParams {
     action: HistoryAction;
     itemId?: string;
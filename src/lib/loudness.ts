@@ -0,0 +1,225 @@
+/**
+ * Loudness Analysis
+ * Estimates integrated loudness (ITU-R BS.1770: K-weighting plus gating) from the
+ * audio blob the player already downloaded, caches it per track ID and turns it
+ * into a normalization gain for the deck playing that track.
+ */
+import { isEpisode } from '../utils/trackUtils';
+import type { NormalizationMode, PlayableItem } from '../types';
+
+export interface LoudnessInfo {
+    /** Integrated loudness in LUFS */
+    lufs: number;
+    /** Sample peak, linear (1 = full scale) */
+    peak: number;
+    /** Album key for album-mode normalization, if the track has one */
+    album?: string;
+}
+
+/** Level everything is normalized to - matches the common streaming reference */
+export const TARGET_LUFS = -14;
+
+// Normalization never moves a track by more than this
+const MAX_GAIN_DB = 12;
+// Boosts stop this far below full scale so quiet tracks with loud peaks don't clip
+const PEAK_HEADROOM_DB = 1;
+
+// Decoding at a reduced rate is plenty for an estimate and keeps memory down
+const ANALYSIS_SAMPLE_RATE = 22050;
+// Skip anything bigger than a long album track - decoding holds the whole file in memory
+const MAX_ANALYSIS_BYTES = 40 * 1024 * 1024;
+const MAX_ANALYSIS_SECONDS = 20 * 60;
+
+// BS.1770 gating
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+const STORAGE_KEY = 'music-app-loudness';
+// Oldest measurements are dropped beyond this many
+const CACHE_LIMIT = 2000;
+
+let cache: Map<string, LoudnessInfo> | null = null;
+const pendingAnalyses = new Map<string, Promise<LoudnessInfo | null>>();
+
+function getCache(): Map<string, LoudnessInfo> {
+    if (!cache) {
+        cache = new Map();
+        try {
+            const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+            for (const [trackId, info] of Object.entries(stored ?? {})) {
+                const entry = info as LoudnessInfo;
+                if (Number.isFinite(entry?.lufs) && Number.isFinite(entry?.peak)) {
+                    cache.set(trackId, entry);
+                }
+            }
+        } catch {
+            // Corrupt cache - start over
+        }
+    }
+    return cache;
+}
+
+function saveCache() {
+    const entries = getCache();
+    while (entries.size > CACHE_LIMIT) {
+        entries.delete(entries.keys().next().value!);
+    }
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+    } catch (error) {
+        console.warn('[Loudness] Failed to save cache:', error);
+    }
+}
+
+function albumKey(item: PlayableItem): string | undefined {
+    if (isEpisode(item) || !item.album) return undefined;
+    return `${item.artist}::${item.album}`;
+}
+
+/** Mean loudness computed in the energy domain */
+function meanLoudness(values: number[]): number {
+    const energy = values.reduce((sum, lufs) => sum + Math.pow(10, lufs / 10), 0) / values.length;
+    return 10 * Math.log10(energy);
+}
+
+function blockLoudness(meanSquare: number): number {
+    return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+/**
+ * Integrated loudness and sample peak of an encoded audio file
+ */
+async function measureLoudness(blob: Blob): Promise<Omit<LoudnessInfo, 'album'>> {
+    const data = await blob.arrayBuffer();
+    const decoded = await new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE).decodeAudioData(data);
+
+    let peak = 0;
+    for (let c = 0; c < decoded.numberOfChannels; c++) {
+        const samples = decoded.getChannelData(c);
+        for (let i = 0; i < samples.length; i++) {
+            const value = Math.abs(samples[i]);
+            if (value > peak) peak = value;
+        }
+    }
+
+    // K-weighting: high-frequency shelf followed by the low-cut (RLB) filter
+    const context = new OfflineAudioContext(decoded.numberOfChannels, decoded.length, decoded.sampleRate);
+    const source = context.createBufferSource();
+    source.buffer = decoded;
+    const shelf = context.createBiquadFilter();
+    shelf.type = 'highshelf';
+    shelf.frequency.value = 1500;
+    shelf.gain.value = 4;
+    const lowCut = context.createBiquadFilter();
+    lowCut.type = 'highpass';
+    lowCut.frequency.value = 38;
+    lowCut.Q.value = 0.5;
+    source.connect(shelf).connect(lowCut).connect(context.destination);
+    source.start();
+    const weighted = await context.startRendering();
+
+    // Energy per 100ms step, summed over channels - a 400ms block is four steps
+    const step = Math.round(STEP_SECONDS * weighted.sampleRate);
+    const stepCount = Math.floor(weighted.length / step);
+    const stepEnergy = new Float64Array(stepCount);
+    for (let c = 0; c < weighted.numberOfChannels; c++) {
+        const samples = weighted.getChannelData(c);
+        for (let s = 0; s < stepCount; s++) {
+            let sum = 0;
+            for (let i = s * step; i < (s + 1) * step; i++) {
+                sum += samples[i] * samples[i];
+            }
+            stepEnergy[s] += sum;
+        }
+    }
+
+    const stepsPerBlock = Math.round(BLOCK_SECONDS / STEP_SECONDS);
+    const blocks: number[] = [];
+    for (let s = 0; s + stepsPerBlock <= stepCount; s++) {
+        let sum = 0;
+        for (let i = s; i < s + stepsPerBlock; i++) sum += stepEnergy[i];
+        const meanSquare = sum / (stepsPerBlock * step);
+        if (blockLoudness(meanSquare) > ABSOLUTE_GATE_LUFS) blocks.push(meanSquare);
+    }
+
+    if (blocks.length === 0) return { lufs: ABSOLUTE_GATE_LUFS, peak };
+
+    const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+    const relativeGate = blockLoudness(average(blocks)) + RELATIVE_GATE_LU;
+    const gated = blocks.filter(meanSquare => blockLoudness(meanSquare) > relativeGate);
+
+    return { lufs: blockLoudness(average(gated.length > 0 ? gated : blocks)), peak };
+}
+
+/**
+ * Cached loudness for a track, if it has been analyzed
+ */
+export function getCachedLoudness(trackId: string): LoudnessInfo | null {
+    return getCache().get(trackId) ?? null;
+}
+
+/**
+ * Analyze a track from its downloaded blob URL and cache the result.
+ * Only blob URLs are analyzed (anything else would mean a second download), and
+ * episodes and very long files are skipped. Resolves to null when skipped or failed.
+ */
+export function analyzeLoudness(item: PlayableItem, blobUrl: string): Promise<LoudnessInfo | null> {
+    const cached = getCachedLoudness(item.$id);
+    if (cached) return Promise.resolve(cached);
+
+    if (isEpisode(item) || !blobUrl.startsWith('blob:') || item.duration > MAX_ANALYSIS_SECONDS) {
+        return Promise.resolve(null);
+    }
+
+    const pending = pendingAnalyses.get(item.$id);
+    if (pending) return pending;
+
+    const analysis = (async () => {
+        try {
+            const blob = await (await fetch(blobUrl)).blob();
+            if (blob.size > MAX_ANALYSIS_BYTES) return null;
+
+            const info: LoudnessInfo = { ...await measureLoudness(blob), album: albumKey(item) };
+            getCache().set(item.$id, info);
+            saveCache();
+            return info;
+        } catch (error) {
+            console.warn('[Loudness] Analysis failed:', error);
+            return null;
+        } finally {
+            pendingAnalyses.delete(item.$id);
+        }
+    })();
+
+    pendingAnalyses.set(item.$id, analysis);
+    return analysis;
+}
+
+/**
+ * Gain (dB) that brings an item to TARGET_LUFS.
+ * Album mode uses the loudness of every analyzed track from the same album, so the
+ * album's own dynamics survive; tracks without an album fall back to track mode.
+ * 0 when off or not analyzed yet.
+ */
+export function getNormalizationGain(item: PlayableItem, mode: NormalizationMode): number {
+    if (mode === 'off') return 0;
+    const info = getCachedLoudness(item.$id);
+    if (!info) return 0;
+
+    let lufs = info.lufs;
+    let peak = info.peak;
+    if (mode === 'album' && info.album) {
+        const albumTracks = [...getCache().values()].filter(entry => entry.album === info.album);
+        lufs = meanLoudness(albumTracks.map(entry => entry.lufs));
+        peak = Math.max(...albumTracks.map(entry => entry.peak));
+    }
+
+    let gain = TARGET_LUFS - lufs;
+    if (gain > 0 && peak > 0) {
+        // Only boosts are peak-limited - attenuation can't clip
+        gain = Math.min(gain, Math.max(0, -20 * Math.log10(peak) - PEAK_HEADROOM_DB));
+    }
+    return Math.max(-MAX_GAIN_DB, Math.min(MAX_GAIN_DB, gain));
+}
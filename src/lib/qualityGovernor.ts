@@ -0,0 +1,282 @@
+/**
+ * Quality Governor
+ * One frame-budget monitor for every animated canvas. Canvases draw through
+ * runFrameLoop, which measures the frame rate they achieve together; when it drops
+ * below the target the governor steps detail (particle/iteration counts), canvas
+ * resolution and optional effects down a tier, and back up once there's headroom.
+ * The target is the display's refresh rate (capped at 60fps), so a 30 or 50Hz
+ * display isn't mistaken for a slow one. Canvases drawn in a worker report the
+ * frames it couldn't keep up with through reportDroppedFrame.
+ *
+ * Also the single place that stops animation: nothing draws while the tab is hidden,
+ * and with prefers-reduced-motion canvases draw a still frame at the lowest tier.
+ * A manual override in Settings pins a tier.
+ */
+
+export type QualityOverride = 'auto' | 'high' | 'medium' | 'low';
+
+export interface VisualQuality {
+    /** 0 = full quality, higher = cheaper */
+    tier: number;
+    /** Multiplier for particle and iteration counts (0-1) */
+    detail: number;
+    /** devicePixelRatio to size canvases with */
+    pixelRatio: number;
+    /** Optional effects - glows, blurs, secondary layers */
+    effects: boolean;
+    /** prefers-reduced-motion: draw still frames only */
+    reducedMotion: boolean;
+    /** Tab hidden: draw nothing */
+    paused: boolean;
+}
+
+interface QualityTier {
+    detail: number;
+    maxPixelRatio: number;
+    effects: boolean;
+}
+
+const TIERS: QualityTier[] = [
+    { detail: 1, maxPixelRatio: 2, effects: true },
+    { detail: 0.7, maxPixelRatio: 1.5, effects: true },
+    { detail: 0.45, maxPixelRatio: 1, effects: false },
+    { detail: 0.25, maxPixelRatio: 0.75, effects: false },
+];
+
+const OVERRIDE_TIERS: Record<Exclude<QualityOverride, 'auto'>, number> = {
+    high: 0,
+    medium: 1,
+    low: TIERS.length - 1,
+};
+
+const STORAGE_KEY = 'music-app-visual-quality';
+
+// Displays refreshing faster aren't held to more than this
+const MAX_TARGET_FPS = 60;
+// Shorter intervals are duplicate callbacks, not the display's refresh
+const MIN_FRAME_INTERVAL_MS = 4;
+// Measured over windows this long...
+const SAMPLE_WINDOW_MS = 2000;
+// ...stepping down below this share of the target...
+const DOWNGRADE_RATIO = 0.85;
+// ...and up above this one, after this many good windows in a row
+const UPGRADE_RATIO = 0.95;
+const UPGRADE_WINDOWS = 3;
+// Longer gaps are stalls (tab switch, debugger), not slow frames
+const MAX_FRAME_INTERVAL_MS = 250;
+
+function readOverride(): QualityOverride {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored === 'high' || stored === 'medium' || stored === 'low') return stored;
+    } catch {
+        // Fall through to auto
+    }
+    return 'auto';
+}
+
+let override: QualityOverride = readOverride();
+let autoTier = 0;
+let reducedMotion = false;
+let hidden = false;
+let quality = computeQuality();
+const listeners = new Set<() => void>();
+
+// Frame rate sampling
+let lastFrameTime: number | null = null;
+let windowStart: number | null = null;
+let windowFrames = 0;
+let windowDuration = 0;
+let windowDropped = 0;
+let goodWindows = 0;
+// Shortest frame interval seen - the display's refresh interval
+let refreshInterval: number | null = null;
+
+function computeQuality(): VisualQuality {
+    const tier = reducedMotion
+        ? TIERS.length - 1
+        : override === 'auto' ? autoTier : OVERRIDE_TIERS[override];
+    const { detail, maxPixelRatio, effects } = TIERS[tier];
+    const devicePixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+
+    return {
+        tier,
+        detail,
+        pixelRatio: Math.min(devicePixelRatio, maxPixelRatio),
+        effects,
+        reducedMotion,
+        paused: hidden,
+    };
+}
+
+function resetSampling() {
+    lastFrameTime = null;
+    windowStart = null;
+    windowFrames = 0;
+    windowDuration = 0;
+    windowDropped = 0;
+    goodWindows = 0;
+}
+
+function getTargetFps(): number {
+    return refreshInterval === null ? MAX_TARGET_FPS : Math.min(MAX_TARGET_FPS, 1000 / refreshInterval);
+}
+
+function update() {
+    const next = computeQuality();
+    if (
+        next.tier === quality.tier &&
+        next.pixelRatio === quality.pixelRatio &&
+        next.reducedMotion === quality.reducedMotion &&
+        next.paused === quality.paused
+    ) return;
+    quality = next;
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Feed one frame timestamp. Loops sharing an animation frame report the same
+ * time, which only counts once.
+ */
+function recordFrame(time: number) {
+    if (override !== 'auto' || reducedMotion) return;
+    if (lastFrameTime === time) return;
+
+    if (lastFrameTime !== null) {
+        const interval = time - lastFrameTime;
+        if (interval > MAX_FRAME_INTERVAL_MS) {
+            resetSampling();
+        } else {
+            windowFrames++;
+            windowDuration += interval;
+            if (interval >= MIN_FRAME_INTERVAL_MS && (refreshInterval === null || interval < refreshInterval)) {
+                refreshInterval = interval;
+            }
+        }
+    }
+    lastFrameTime = time;
+    if (windowStart === null) windowStart = time;
+    if (time - windowStart < SAMPLE_WINDOW_MS || windowDuration === 0) return;
+
+    const fps = (Math.max(0, windowFrames - windowDropped) * 1000) / windowDuration;
+    const targetFps = getTargetFps();
+    windowStart = time;
+    windowFrames = 0;
+    windowDuration = 0;
+    windowDropped = 0;
+
+    if (fps < targetFps * DOWNGRADE_RATIO) {
+        goodWindows = 0;
+        if (autoTier < TIERS.length - 1) {
+            autoTier++;
+            update();
+        }
+    } else if (fps >= targetFps * UPGRADE_RATIO) {
+        goodWindows++;
+        if (goodWindows >= UPGRADE_WINDOWS && autoTier > 0) {
+            goodWindows = 0;
+            autoTier--;
+            update();
+        }
+    } else {
+        goodWindows = 0;
+    }
+}
+
+if (typeof window !== 'undefined') {
+    const motionQuery = window.matchMedia?.('(prefers-reduced-motion: reduce)');
+    if (motionQuery) {
+        reducedMotion = motionQuery.matches;
+        motionQuery.addEventListener('change', (e) => {
+            reducedMotion = e.matches;
+            update();
+        });
+    }
+    hidden = document.hidden;
+    document.addEventListener('visibilitychange', () => {
+        hidden = document.hidden;
+        resetSampling();
+        update();
+    });
+    quality = computeQuality();
+}
+
+/**
+ * Current quality. The object only changes when something in it does.
+ */
+export function getVisualQuality(): VisualQuality {
+    return quality;
+}
+
+/**
+ * Listen for quality changes. Returns the unsubscribe function.
+ */
+export function subscribeToVisualQuality(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getQualityOverride(): QualityOverride {
+    return override;
+}
+
+export function setQualityOverride(next: QualityOverride): void {
+    override = next;
+    try {
+        localStorage.setItem(STORAGE_KEY, next);
+    } catch (error) {
+        console.warn('[QualityGovernor] Failed to save override:', error);
+    }
+    // Auto starts over from full quality
+    autoTier = 0;
+    resetSampling();
+    update();
+}
+
+/**
+ * Count a frame that was scheduled but never drawn - for canvases drawn in a
+ * worker, whose cost doesn't show in the main thread's frame rate.
+ */
+export function reportDroppedFrame(): void {
+    if (override !== 'auto' || reducedMotion || windowStart === null) return;
+    windowDropped++;
+}
+
+/**
+ * Run `draw` on every animation frame, governed: frames feed the monitor, nothing
+ * runs while paused, and reduced motion gets one still frame per quality change.
+ * Returns the stop function.
+ */
+export function runFrameLoop(draw: (time: number, quality: VisualQuality) => void): () => void {
+    let frameId: number | null = null;
+    let stopped = false;
+    let drewStill = false;
+
+    const tick = (time: number) => {
+        frameId = null;
+        recordFrame(time);
+        draw(time, quality);
+        if (quality.reducedMotion) drewStill = true;
+        schedule();
+    };
+
+    const schedule = () => {
+        if (stopped || frameId !== null || quality.paused) return;
+        if (quality.reducedMotion && drewStill) return;
+        frameId = requestAnimationFrame(tick);
+    };
+
+    const unsubscribe = subscribeToVisualQuality(() => {
+        drewStill = false;
+        schedule();
+    });
+    schedule();
+
+    return () => {
+        stopped = true;
+        unsubscribe();
+        if (frameId !== null) cancelAnimationFrame(frameId);
+    };
+}
@@ -0,0 +1,115 @@
+/**
+ * Keyboard Shortcut Registry
+ * Action ids, default bindings and key helpers shared by ShortcutsContext,
+ * the cheat sheet overlay and the Settings rebinding panel.
+ */
+
+export type ShortcutAction =
+    | 'playPause'
+    | 'seekBackward'
+    | 'seekForward'
+    | 'volumeUp'
+    | 'volumeDown'
+    | 'next'
+    | 'previous'
+    | 'shuffle'
+    | 'repeat'
+    | 'loopA'
+    | 'loopB'
+    | 'loopClear'
+    | 'like'
+    | 'queue'
+    | 'fullscreen'
+    | 'cheatSheet';
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export interface ShortcutDefinition {
+    action: ShortcutAction;
+    label: string;
+    group: 'Playback' | 'Library' | 'Interface';
+}
+
+/** Display order for the cheat sheet and Settings */
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+    { action: 'playPause', label: 'Play / Pause', group: 'Playback' },
+    { action: 'seekBackward', label: 'Seek back 5s', group: 'Playback' },
+    { action: 'seekForward', label: 'Seek forward 5s', group: 'Playback' },
+    { action: 'volumeUp', label: 'Volume up', group: 'Playback' },
+    { action: 'volumeDown', label: 'Volume down', group: 'Playback' },
+    { action: 'next', label: 'Next track', group: 'Playback' },
+    { action: 'previous', label: 'Previous track', group: 'Playback' },
+    { action: 'shuffle', label: 'Toggle shuffle', group: 'Playback' },
+    { action: 'repeat', label: 'Cycle repeat', group: 'Playback' },
+    { action: 'loopA', label: 'Set loop start (A)', group: 'Playback' },
+    { action: 'loopB', label: 'Set loop end (B)', group: 'Playback' },
+    { action: 'loopClear', label: 'Clear A-B loop', group: 'Playback' },
+    { action: 'like', label: 'Like current track', group: 'Library' },
+    { action: 'queue', label: 'Toggle queue', group: 'Interface' },
+    { action: 'fullscreen', label: 'Toggle fullscreen player', group: 'Interface' },
+    { action: 'cheatSheet', label: 'Show shortcuts', group: 'Interface' },
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+    playPause: 'Space',
+    seekBackward: 'ArrowLeft',
+    seekForward: 'ArrowRight',
+    volumeUp: 'ArrowUp',
+    volumeDown: 'ArrowDown',
+    next: 'N',
+    previous: 'P',
+    shuffle: 'S',
+    repeat: 'R',
+    loopA: '[',
+    loopB: ']',
+    loopClear: '\\',
+    like: 'L',
+    queue: 'Q',
+    fullscreen: 'F',
+    cheatSheet: '?',
+};
+
+/** Seconds / volume steps used by the default player handlers */
+export const SEEK_STEP = 5;
+export const VOLUME_STEP = 0.05;
+
+const KEY_LABELS: Record<string, string> = {
+    Space: 'Space',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+};
+
+/**
+ * Normalize a keyboard event to a binding string
+ * Letters are case-insensitive; the space bar becomes "Space".
+ */
+export function eventToKey(e: KeyboardEvent): string {
+    if (e.key === ' ' || e.key === 'Spacebar') return 'Space';
+    if (e.key.length === 1) return e.key.toUpperCase();
+    return e.key;
+}
+
+/**
+ * Human-readable label for a binding
+ */
+export function formatKey(key: string): string {
+    return KEY_LABELS[key] ?? key;
+}
+
+/**
+ * Keys typed into form fields must never trigger player actions
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable) return true;
+    return ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Keys that can't be bound - they're reserved for closing overlays and focus navigation
+ */
+export function isReservedKey(key: string): boolean {
+    return ['Escape', 'Tab', 'Enter', 'Shift', 'Control', 'Alt', 'Meta'].includes(key);
+}
@@ -7,6 +7,7 @@
 import { useState, useEffect } from 'react';
 import { Heart, Database } from 'lucide-react';
 import { MusicCard } from '../components/cards';
+import { DownloadButton } from '../components/ui';
 import { favoritesService } from '../services';
 import { useAuth } from '../context/AuthContext';
 import { useNavigate } from 'react-router-dom';
@@ -83,6 +84,7 @@ export function Favorites() {
                             </p>
                         </div>
                     </div>
+                    <DownloadButton items={favorites} label="DOWNLOAD" />
                 </div>
 
                 {/* Content */}
@@ -12,7 +12,7 @@ import { Play, ArrowRight } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { MusicCard } from '../components/cards';
-import { CymaticsVisualizer, VisualizerToggle, KineticText } from '../components/ui';
+import { CymaticsVisualizer, VisualizerToggle, KineticText, type VisualizerMode } from '../components/ui';
 import { musicService, podcastService } from '../services';
 import { usePlayer } from '../context/PlayerContext';
 import { storage, BUCKETS } from '../lib/appwrite';
@@ -25,7 +25,7 @@ export function Home() {
     const [featured, setFeatured] = useState<Track | null>(null);
     const [podcasts, setPodcasts] = useState<Podcast[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const [visualizerMode, setVisualizerMode] = useState<'chladni' | 'water' | 'sacred' | 'turing' | 'voronoi' | 'hopf'>('chladni');
+    const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>('chladni');
     const heroRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -41,7 +41,7 @@ export function Home() {
 
                 // Set queue for Spotify-like navigation - enables next/previous to work
                 if (trackData.length > 0) {
-                    setQueue(trackData);
+                    setQueue(trackData, 'Home');
                 }
             } catch (error) {
                 console.error('Failed to load data:', error);
@@ -62,7 +62,7 @@ export function MusicPage() {
 
             // Set queue for Spotify-like navigation
             if (reset && data.length > 0) {
-                setQueue(data);
+                setQueue(data, selectedGenre === 'All' ? 'Music' : selectedGenre);
             }
         } catch (error) {
             console.error('Failed to load tracks:', error);
@@ -6,17 +6,17 @@
  */
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ListMusic, Plus, Trash2, FolderOpen, Disc } from 'lucide-react';
+import { ListMusic, Plus, Trash2, FolderOpen, Disc, Radio } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { usePlayer } from '../context/PlayerContext';
 import { playlistService } from '../services';
 import { MusicCard } from '../components/cards';
-import { Button, Input } from '../components/ui';
+import { Button, Input, DownloadButton } from '../components/ui';
 import type { Playlist, Track } from '../types';
 
 export function Playlists() {
     const { user, isAuthenticated } = useAuth();
-    const { play } = usePlayer();
+    const { play, setQueue, startRadio } = usePlayer();
 
     const [playlists, setPlaylists] = useState<Playlist[]>([]);
     const [selectedPlaylist, setSelectedPlaylist] = useState<Playlist | null>(null);
@@ -107,6 +107,7 @@ export function Playlists() {
 
     function handlePlayAll() {
         if (playlistTracks.length > 0) {
+            setQueue(playlistTracks, selectedPlaylist?.name);
             play(playlistTracks[0]);
         }
     }
@@ -223,13 +224,24 @@ export function Playlists() {
                                     </p>
                                 </div>
                                 {playlistTracks.length > 0 && (
-                                    <Button
-                                        onClick={handlePlayAll}
-                                        variant="primary"
-                                        className="px-8"
-                                    >
-                                        INITIATE_PLAYBACK
-                                    </Button>
+                                    <div className="flex items-center gap-6">
+                                        <DownloadButton items={playlistTracks} label="DOWNLOAD" />
+                                        <button
+                                            onClick={() => startRadio({ type: 'playlist', name: selectedPlaylist.name, tracks: playlistTracks })}
+                                            className="inline-flex items-center gap-1.5 font-mono text-[10px] uppercase tracking-wider text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)] transition-colors"
+                                            title="Start a station of similar tracks"
+                                        >
+                                            <Radio size={16} />
+                                            <span>RADIO</span>
+                                        </button>
+                                        <Button
+                                            onClick={handlePlayAll}
+                                            variant="primary"
+                                            className="px-8"
+                                        >
+                                            INITIATE_PLAYBACK
+                                        </Button>
+                                    </div>
                                 )}
                             </div>
 
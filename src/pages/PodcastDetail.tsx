@@ -0,0 +1,150 @@
+/**
+ * Podcast Detail Page
+ * A show's episodes - play one (the rest of the show queues after it) or
+ * download it for offline listening
+ */
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Mic2, Play, Pause } from 'lucide-react';
+import { DownloadButton } from '../components/ui';
+import { podcastService } from '../services';
+import { usePlayer } from '../context/PlayerContext';
+import { storage, BUCKETS } from '../lib/appwrite';
+import type { Episode, Podcast } from '../types';
+
+function formatDuration(seconds: number): string {
+    const mins = Math.floor(seconds / 60);
+    const hours = Math.floor(mins / 60);
+    return hours > 0 ? `${hours}H ${mins % 60}M` : `${mins}M`;
+}
+
+export function PodcastDetail() {
+    const { id } = useParams<{ id: string }>();
+    const { currentTrack, isPlaying, play, pause, resume, setQueue } = usePlayer();
+    const [podcast, setPodcast] = useState<Podcast | null>(null);
+    const [episodes, setEpisodes] = useState<Episode[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        if (!id) return;
+        let cancelled = false;
+
+        async function loadPodcast(podcastId: string) {
+            try {
+                const [show, showEpisodes] = await Promise.all([
+                    podcastService.getPodcast(podcastId),
+                    podcastService.getEpisodes(podcastId),
+                ]);
+                if (cancelled) return;
+                setPodcast(show);
+                setEpisodes(showEpisodes);
+            } catch (error) {
+                console.error('Failed to load podcast:', error);
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        }
+        loadPodcast(id);
+
+        return () => {
+            cancelled = true;
+        };
+    }, [id]);
+
+    const handlePlay = (episode: Episode) => {
+        if (currentTrack?.$id === episode.$id) {
+            if (isPlaying) pause();
+            else resume();
+            return;
+        }
+        setQueue(episodes, podcast?.title);
+        play(episode);
+    };
+
+    const coverUrl = podcast?.cover_image_id
+        ? storage.getFilePreview(BUCKETS.COVERS, podcast.cover_image_id, 300, 300).toString()
+        : null;
+
+    return (
+        <div className="min-h-screen p-8 p-12-lg">
+            <div className="max-w-[1800px] mx-auto mb-12">
+                <Link
+                    to="/podcasts"
+                    className="inline-flex items-center gap-2 mb-8 font-mono text-[10px] uppercase tracking-widest text-[var(--color-text-muted)] hover:text-[var(--color-accent-gold)] transition-colors"
+                >
+                    <ArrowLeft size={14} />
+                    <span>Broadcasts</span>
+                </Link>
+
+                {/* Show header */}
+                <div className="flex items-end justify-between gap-6 mb-8">
+                    <div className="flex items-center gap-6 min-w-0">
+                        <div className="w-24 h-24 shrink-0 rounded-lg overflow-hidden border border-[var(--color-border)] bg-[var(--color-card)] flex items-center justify-center">
+                            {coverUrl ? (
+                                <img src={coverUrl} alt={podcast?.title} className="w-full h-full object-cover" />
+                            ) : (
+                                <Mic2 size={32} className="text-[var(--color-text-muted)]" />
+                            )}
+                        </div>
+                        <div className="min-w-0">
+                            <h1 className="text-3xl font-display text-[var(--color-text-primary)] tracking-wide truncate">
+                                {podcast?.title ?? (isLoading ? '...' : 'Unknown Broadcast')}
+                            </h1>
+                            {podcast?.author && (
+                                <p className="font-mono text-xs text-[var(--color-text-muted)] mt-2 uppercase tracking-wider">
+                                    {podcast.author}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                    <DownloadButton items={episodes} label="DOWNLOAD" />
+                </div>
+
+                <div className="h-px bg-[var(--color-border)] w-full mb-8" />
+
+                {/* Episodes */}
+                {isLoading ? (
+                    <div className="space-y-2">
+                        {[...Array(6)].map((_, i) => (
+                            <div key={i} className="h-16 bg-[var(--color-card)] animate-pulse rounded-lg border border-[var(--color-border)]" />
+                        ))}
+                    </div>
+                ) : episodes.length === 0 ? (
+                    <p className="text-center py-16 font-mono text-xs text-[var(--color-text-muted)] tracking-widest uppercase">
+                        No episodes transmitted yet
+                    </p>
+                ) : (
+                    <ul className="space-y-2">
+                        {episodes.map((episode) => {
+                            const isCurrent = currentTrack?.$id === episode.$id;
+                            return (
+                                <li
+                                    key={episode.$id}
+                                    className={`group flex items-center gap-4 p-4 rounded-lg border transition-colors ${isCurrent ? 'border-[var(--color-accent-gold)]/50 bg-[var(--color-accent-gold)]/5' : 'border-[var(--color-border)] bg-[var(--color-card)] hover:border-[var(--color-accent-gold)]/30'}`}
+                                >
+                                    <button
+                                        onClick={() => handlePlay(episode)}
+                                        className="w-10 h-10 shrink-0 rounded-full border border-[var(--color-border)] flex items-center justify-center text-[var(--color-text-secondary)] hover:text-[var(--color-accent-gold)] hover:border-[var(--color-accent-gold)]/50 transition-colors"
+                                        title={isCurrent && isPlaying ? 'Pause' : 'Play episode'}
+                                    >
+                                        {isCurrent && isPlaying ? <Pause size={16} /> : <Play size={16} className="ml-0.5" />}
+                                    </button>
+                                    <div className="flex-1 min-w-0">
+                                        <h3 className={`truncate ${isCurrent ? 'text-[var(--color-accent-gold)]' : 'text-[var(--color-text-primary)]'}`}>
+                                            {episode.title}
+                                        </h3>
+                                        <p className="font-mono text-[10px] text-[var(--color-text-muted)] uppercase tracking-wider mt-1">
+                                            {episode.episode_number !== undefined && `EP_${episode.episode_number} · `}
+                                            {formatDuration(episode.duration)}
+                                        </p>
+                                    </div>
+                                    <DownloadButton items={[episode]} />
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -4,12 +4,25 @@
  * Philosophy: Digital Identity Record.
  * Structure: Technical metadata profile.
  */
-import { Heart, Clock, ListMusic, Settings, LogOut, Shield } from 'lucide-react';
+import { Heart, Clock, ListMusic, Settings, LogOut, Shield, Timer } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useNavigate, Link } from 'react-router-dom';
 import { useEffect, useState } from 'react';
 import { InputGroup } from '../components/ui/InputGroup';
 import { MagneticButton } from '../components/ui/MagneticButton';
+import { timeSavedService } from '../services';
+
+// Episodes listed under time saved
+const TIME_SAVED_EPISODES = 8;
+
+function formatSaved(seconds: number): string {
+    const total = Math.round(seconds);
+    const hours = Math.floor(total / 3600);
+    const mins = Math.floor((total % 3600) / 60);
+    if (hours > 0) return `${hours}h ${mins.toString().padStart(2, '0')}m`;
+    if (mins > 0) return `${mins}m ${(total % 60).toString().padStart(2, '0')}s`;
+    return `${total}s`;
+}
 
 export function Profile() {
     const { user, isAuthenticated, isLoading, logout, updatePassword } = useAuth();
@@ -20,6 +33,10 @@ export function Profile() {
     const [confirmPassword, setConfirmPassword] = useState('');
     const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
     const [error, setError] = useState('');
+    const [timeSaved] = useState(() => ({
+        total: timeSavedService.getTotal(),
+        episodes: timeSavedService.getEpisodes().slice(0, TIME_SAVED_EPISODES),
+    }));
 
     useEffect(() => {
         if (!isLoading && !isAuthenticated) {
@@ -199,6 +216,40 @@ export function Profile() {
                 )}
             </div>
 
+            {/* Time Saved (skip silence) */}
+            <div className="max-w-5xl mx-auto mt-12">
+                <div className="border border-[var(--color-border)] bg-[var(--color-glass)] p-8">
+                    <div className="flex items-center justify-between mb-6">
+                        <div className="flex items-center gap-2">
+                            <Timer size={18} className="text-[var(--color-accent-gold)]" />
+                            <h2 className="font-display text-sm uppercase tracking-[0.2em] font-bold">
+                                Time Saved
+                            </h2>
+                        </div>
+                        <span className="font-mono text-2xl text-[var(--color-accent-gold)] tabular-nums">
+                            {formatSaved(timeSaved.total)}
+                        </span>
+                    </div>
+
+                    {timeSaved.episodes.length === 0 ? (
+                        <p className="font-mono text-[10px] text-[var(--color-text-muted)] uppercase tracking-wider">
+                            Turn on skip silence in the speed menu while an episode plays to trim its pauses.
+                        </p>
+                    ) : (
+                        <div className="divide-y divide-[var(--color-border)] border-t border-[var(--color-border)]">
+                            {timeSaved.episodes.map(entry => (
+                                <div key={entry.itemId} className="flex items-center justify-between gap-4 py-2">
+                                    <span className="font-mono text-xs text-[var(--color-text-secondary)] truncate">{entry.title}</span>
+                                    <span className="font-mono text-[10px] text-[var(--color-accent-gold)] tabular-nums flex-shrink-0">
+                                        -{formatSaved(entry.seconds)}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
             {/* Security Section */}
             <div className="max-w-5xl mx-auto mt-12 mb-12">
                 <div className="border border-[var(--color-border)] bg-[var(--color-glass)] p-8">
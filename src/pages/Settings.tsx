@@ -4,12 +4,88 @@
  * Philosophy: Control panel for the audio interface.
  * Aesthetic: Industrial, modular, switches and indicators.
  */
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Settings as SettingsIcon, Volume2, Monitor, Shield, Cpu } from 'lucide-react';
+import { Settings as SettingsIcon, Volume2, Monitor, Shield, Cpu, Keyboard, HardDrive, X, Send, Plus } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
+import { usePlayer } from '../context/PlayerContext';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { useDownloads } from '../hooks/useDownloads';
+import { scrobbleService, type ScrobblerConfig, type TokenValidation } from '../services';
+import { MAX_CROSSFADE_SECONDS } from '../hooks/useAudioElement';
+import { SHORTCUT_DEFINITIONS, formatKey } from '../lib/shortcuts';
+import { isEpisode } from '../utils/trackUtils';
+import { getQualityOverride, setQualityOverride, type QualityOverride } from '../lib/qualityGovernor';
+import { useVisualQuality } from '../hooks/useVisualQuality';
+import type { NormalizationMode } from '../types';
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
 
 export function Settings() {
     const { theme, setTheme } = useTheme();
+    const { crossfade, setCrossfade, resumeThreshold, setResumeThreshold, normalization, setNormalization, autoplay, toggleAutoplay } = usePlayer();
+    const { bindings, recordingAction, startRecording, cancelRecording, resetBindings } = useShortcuts();
+    const { isSupported: downloadsSupported, downloads, active, usage, cancel, remove, removeAll } = useDownloads();
+    const visualQuality = useVisualQuality();
+    const [qualityOverride, setQualityOverrideState] = useState<QualityOverride>(getQualityOverride);
+
+    const changeQualityOverride = (next: QualityOverride) => {
+        setQualityOverride(next);
+        setQualityOverrideState(next);
+    };
+
+    const downloadList = Object.values(downloads).sort((a, b) => b.downloadedAt.localeCompare(a.downloadedAt));
+    const activeList = Object.values(active);
+
+    const handleRemoveAll = () => {
+        if (!confirm('CONFIRM: REMOVE_ALL_OFFLINE_COPIES?')) return;
+        removeAll();
+    };
+
+    const [scrobblers, setScrobblers] = useState<ScrobblerConfig[]>(() => scrobbleService.getServices());
+    const [tokenChecks, setTokenChecks] = useState<Record<string, TokenValidation | 'checking'>>({});
+    const [pendingScrobbles, setPendingScrobbles] = useState(0);
+
+    useEffect(() => {
+        scrobbleService.getPendingCount().then(setPendingScrobbles);
+    }, []);
+
+    const saveScrobblers = (configs: ScrobblerConfig[]) => {
+        setScrobblers(configs);
+        scrobbleService.saveServices(configs);
+    };
+
+    const updateScrobbler = (id: string, changes: Partial<ScrobblerConfig>) => {
+        saveScrobblers(scrobblers.map(config => config.id === id ? { ...config, ...changes } : config));
+        // A changed URL or token needs checking again
+        if ('apiUrl' in changes || 'token' in changes) {
+            setTokenChecks(prev => {
+                const next = { ...prev };
+                delete next[id];
+                return next;
+            });
+        }
+    };
+
+    const checkToken = async (config: ScrobblerConfig) => {
+        setTokenChecks(prev => ({ ...prev, [config.id]: 'checking' }));
+        const result = await scrobbleService.validateToken(config);
+        setTokenChecks(prev => ({ ...prev, [config.id]: result }));
+        // The service is back on - send what queued up while its token was rejected
+        if (result.valid && config.needsAuth) {
+            setScrobblers(scrobbleService.getServices());
+            retryScrobbles();
+        }
+    };
+
+    const retryScrobbles = async () => {
+        await scrobbleService.flush();
+        setPendingScrobbles(await scrobbleService.getPendingCount());
+    };
 
     return (
         <div className="max-w-4xl mx-auto p-8 space-y-8">
@@ -68,6 +144,81 @@ export function Settings() {
                                     </select>
                                 </div>
                             </div>
+
+                            <div className="flex items-center justify-between p-4 border border-[var(--color-border)] bg-[var(--color-card)]/50">
+                                <div>
+                                    <h3 className="font-mono text-sm text-[var(--color-text-primary)] uppercase tracking-wide mb-1">Crossfade</h3>
+                                    <p className="font-mono text-[10px] text-[var(--color-text-muted)] uppercase">Blend queued tracks // 0 = gapless</p>
+                                </div>
+                                <div className="flex items-center gap-4">
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max={MAX_CROSSFADE_SECONDS}
+                                        step="1"
+                                        value={crossfade}
+                                        onChange={(e) => setCrossfade(parseInt(e.target.value, 10))}
+                                        className="w-32 accent-[var(--color-accent-gold)] cursor-pointer"
+                                    />
+                                    <span className="w-16 text-right font-mono text-xs text-[var(--color-text-primary)] uppercase">
+                                        {crossfade === 0 ? 'Gapless' : `${crossfade} SEC`}
+                                    </span>
+                                </div>
+                            </div>
+
+                            <div className="flex items-center justify-between p-4 border border-[var(--color-border)] bg-[var(--color-card)]/50">
+                                <div>
+                                    <h3 className="font-mono text-sm text-[var(--color-text-primary)] uppercase tracking-wide mb-1">Resume_Playback</h3>
+                                    <p className="font-mono text-[10px] text-[var(--color-text-muted)] uppercase">Continue long tracks where you left off // Episodes always</p>
+                                </div>
+                                <div className="flex items-center border border-[var(--color-border)]">
+                                    <select
+                                        value={resumeThreshold}
+                                        onChange={(e) => setResumeThreshold(parseInt(e.target.value, 10))}
+                                        className="bg-transparent text-[var(--color-text-primary)] font-mono text-xs uppercase px-4 py-2 focus:outline-none cursor-pointer [&>option]:bg-[var(--color-card)]"
+                                    >
+                                        <option value="0">Episodes only</option>
+                                        <option value="10">Tracks 10+ MIN</option>
+                                        <option value="20">Tracks 20+ MIN</option>
+                                        <option value="30">Tracks 30+ MIN</option>
+                                        <option value="60">Tracks 60+ MIN</option>
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="flex items-center justify-between p-4 border border-[var(--color-border)] bg-[var(--color-card)]/50">
+                                <div>
+                                    <h3 className="font-mono text-sm text-[var(--color-text-primary)] uppercase tracking-wide mb-1">Loudness_Normalization</h3>
+                                    <p className="font-mono text-[10px] text-[var(--color-text-muted)] uppercase">Even out volume between tracks // Album keeps album dynamics</p>
+                                </div>
+                                <div className="flex items-center border border-[var(--color-border)]">
+                                    <select
+                                        value={normalization}
+                                        onChange={(e) => setNormalization(e.target.value as NormalizationMode)}
+                                        className="bg-transparent text-[var(--color-text-primary)] font-mono text-xs uppercase px-4 py-2 focus:outline-none cursor-pointer [&>option]:bg-[var(--color-card)]"
+                                    >
+                                        <option value="off">Off</option>
+                                        <option value="track">Track</option>
+                                        <option value="album">Album</option>
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="flex items-center justify-between p-4 border border-[var(--color-border)] bg-[var(--color-card)]/50">
+                                <div>
+                                    <h3 className="font-mono text-sm text-[var(--color-text-primary)] uppercase tracking-wide mb-1">Autoplay</h3>
+                                    <p className="font-mono text-[10px] text-[var(--color-text-muted)] uppercase">Keep playing similar tracks when the queue ends // Repeat off</p>
+                                </div>
+                                <button
+                                    onClick={toggleAutoplay}
+                                    className={`px-4 py-2 border font-mono text-xs uppercase tracking-wider transition-all ${autoplay
+                                        ? 'bg-[var(--color-text-primary)] text-[var(--color-card)] border-[var(--color-text-primary)]'
+                                        : 'border-[var(--color-border)] text-[var(--color-text-muted)] hover:border-[var(--color-text-primary)] hover:text-[var(--color-text-primary)]'
+                                        }`}
+                                >
+                                    {autoplay ? 'On' : 'Off'}
+                                </button>
+                            </div>
                         </div>
                     </div>
                 </motion.section>
@@ -89,6 +240,29 @@ export function Settings() {
                                 <p className="font-mono text-xs text-[var(--color-text-muted)] uppercase">Display mode & brightness</p>
                             </div>
 
+                            <div className="flex items-center justify-between p-4 border border-[var(--color-border)] bg-[var(--color-card)]/50">
+                                <div>
+                                    <h3 className="font-mono text-sm text-[var(--color-text-primary)] uppercase tracking-wide mb-1">Visual_Quality</h3>
+                                    <p className="font-mono text-[10px] text-[var(--color-text-muted)] uppercase">
+                                        {visualQuality.reducedMotion
+                                            ? 'Reduced motion // Still frames'
+                                            : `Tier ${visualQuality.tier + 1} // ${qualityOverride === 'auto' ? 'Adapts to hold 60 FPS' : 'Pinned'}`}
+                                    </p>
+                                </div>
+                                <div className="flex items-center border border-[var(--color-border)]">
+                                    <select
+                                        value={qualityOverride}
+                                        onChange={(e) => changeQualityOverride(e.target.value as QualityOverride)}
+                                        className="bg-transparent text-[var(--color-text-primary)] font-mono text-xs uppercase px-4 py-2 focus:outline-none cursor-pointer [&>option]:bg-[var(--color-card)]"
+                                    >
+                                        <option value="auto">Auto</option>
+                                        <option value="high">High</option>
+                                        <option value="medium">Medium</option>
+                                        <option value="low">Low</option>
+                                    </select>
+                                </div>
+                            </div>
+
                             <div className="flex items-center justify-between p-4 border border-[var(--color-border)] bg-[var(--color-card)]/50">
                                 <div>
                                     <h3 className="font-mono text-sm text-[var(--color-text-primary)] uppercase tracking-wide mb-1">Theme_Mode</h3>
@@ -119,12 +293,283 @@ export function Settings() {
                     </div>
                 </motion.section>
 
-                {/* Application Info */}
+                {/* Keyboard Shortcuts */}
+                <motion.section
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.15 }}
+                    className="p-8 bg-[var(--color-card)] group hover:bg-[var(--color-card-hover)] transition-colors"
+                >
+                    <div className="flex items-start gap-6">
+                        <div className="p-3 border border-[var(--color-border)] bg-[var(--color-card)] text-[var(--color-text-muted)] group-hover:text-[var(--color-accent-gold)] group-hover:border-[var(--color-accent-gold)]/30 transition-colors">
+                            <Keyboard size={24} />
+                        </div>
+                        <div className="flex-1 space-y-6">
+                            <div className="flex items-start justify-between">
+                                <div>
+                                    <h2 className="text-lg font-display text-[var(--color-text-primary)] uppercase tracking-widest mb-1">Key_Bindings</h2>
+                                    <p className="font-mono text-xs text-[var(--color-text-muted)] uppercase">Click a key, then press its replacement</p>
+                                </div>
+                                <button
+                                    onClick={resetBindings}
+                                    className="px-3 py-1.5 border border-[var(--color-border)] font-mono text-[10px] text-[var(--color-text-muted)] uppercase tracking-wider hover:border-[var(--color-text-primary)] hover:text-[var(--color-text-primary)] transition-all"
+                                >
+                                    Reset
+                                </button>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-px bg-[var(--color-border)] border border-[var(--color-border)]">
+                                {SHORTCUT_DEFINITIONS.map(def => {
+                                    const isRecording = recordingAction === def.action;
+                                    return (
+                                        <div key={def.action} className="p-3 bg-[var(--color-card)] flex items-center justify-between">
+                                            <span className="font-mono text-[10px] text-[var(--color-text-secondary)] uppercase tracking-wide">
+                                                {def.label}
+                                            </span>
+                                            <button
+                                                onClick={() => isRecording ? cancelRecording() : startRecording(def.action)}
+                                                className={`min-w-[3rem] px-2 py-1 border font-mono text-[10px] uppercase transition-all ${isRecording
+                                                    ? 'border-[var(--color-accent-gold)] text-[var(--color-accent-gold)] animate-pulse'
+                                                    : 'border-[var(--color-border)] bg-[var(--color-void)] text-[var(--color-text-primary)] hover:border-[var(--color-accent-gold)]'
+                                                    }`}
+                                            >
+                                                {isRecording ? 'Press_Key...' : formatKey(bindings[def.action])}
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    </div>
+                </motion.section>
+
+                {/* Offline Downloads */}
                 <motion.section
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 0.2 }}
                     className="p-8 bg-[var(--color-card)] group hover:bg-[var(--color-card-hover)] transition-colors"
+                >
+                    <div className="flex items-start gap-6">
+                        <div className="p-3 border border-[var(--color-border)] bg-[var(--color-card)] text-[var(--color-text-muted)] group-hover:text-[var(--color-accent-gold)] group-hover:border-[var(--color-accent-gold)]/30 transition-colors">
+                            <HardDrive size={24} />
+                        </div>
+                        <div className="flex-1 space-y-6">
+                            <div className="flex items-start justify-between">
+                                <div>
+                                    <h2 className="text-lg font-display text-[var(--color-text-primary)] uppercase tracking-widest mb-1">Offline_Storage</h2>
+                                    <p className="font-mono text-xs text-[var(--color-text-muted)] uppercase">
+                                        {downloadsSupported ? 'Downloaded audio plays without a connection' : 'Not supported in this browser'}
+                                    </p>
+                                </div>
+                                {downloadList.length > 0 && (
+                                    <button
+                                        onClick={handleRemoveAll}
+                                        className="px-3 py-1.5 border border-[var(--color-border)] font-mono text-[10px] text-[var(--color-text-muted)] uppercase tracking-wider hover:border-red-500 hover:text-red-500 transition-all"
+                                    >
+                                        Remove_All
+                                    </button>
+                                )}
+                            </div>
+
+                            {usage && (
+                                <div className="space-y-2">
+                                    <div className="flex justify-between font-mono text-[10px] uppercase tracking-wider">
+                                        <span className="text-[var(--color-text-secondary)]">
+                                            Downloads: <span className="text-[var(--color-text-primary)]">{formatBytes(usage.downloads)}</span>
+                                        </span>
+                                        {usage.usage !== null && usage.quota !== null && (
+                                            <span className="text-[var(--color-text-muted)] tabular-nums">
+                                                {formatBytes(usage.usage)} / {formatBytes(usage.quota)}
+                                            </span>
+                                        )}
+                                    </div>
+                                    {usage.usage !== null && usage.quota && (
+                                        <div className="h-1 bg-[var(--color-void)] border border-[var(--color-border)]">
+                                            <div
+                                                className="h-full bg-[var(--color-accent-gold)]"
+                                                style={{ width: `${Math.min(100, usage.usage / usage.quota * 100)}%` }}
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {activeList.length > 0 && (
+                                <div className="space-y-px bg-[var(--color-border)] border border-[var(--color-border)]">
+                                    {activeList.map(({ item, status, progress, error }) => (
+                                        <div key={item.$id} className="p-3 bg-[var(--color-card)] flex items-center gap-3">
+                                            <div className="flex-1 min-w-0 space-y-1.5">
+                                                <p className="font-mono text-[10px] text-[var(--color-text-primary)] uppercase truncate">{item.title}</p>
+                                                {status === 'failed' ? (
+                                                    <p className="font-mono text-[9px] text-red-400 uppercase">
+                                                        {error === 'quota' ? 'Storage_Full' : 'Download_Failed'}
+                                                    </p>
+                                                ) : (
+                                                    <div className="h-0.5 bg-[var(--color-void)]">
+                                                        <div
+                                                            className="h-full bg-[var(--color-accent-gold)] transition-[width]"
+                                                            style={{ width: `${progress?.total ? progress.received / progress.total * 100 : 0}%` }}
+                                                        />
+                                                    </div>
+                                                )}
+                                            </div>
+                                            <span className="font-mono text-[9px] text-[var(--color-text-muted)] uppercase tabular-nums">
+                                                {status === 'downloading' && progress ? formatBytes(progress.received) : status === 'queued' ? 'Queued' : ''}
+                                            </span>
+                                            <button
+                                                onClick={() => cancel(item.$id)}
+                                                className="text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)] transition-colors"
+                                                title={status === 'failed' ? 'Dismiss' : 'Cancel'}
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {downloadList.length > 0 && (
+                                <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-px bg-[var(--color-border)] border border-[var(--color-border)]">
+                                    {downloadList.map(({ item, size }) => (
+                                        <div key={item.$id} className="p-3 bg-[var(--color-card)] flex items-center gap-3">
+                                            <div className="flex-1 min-w-0">
+                                                <p className="font-mono text-[10px] text-[var(--color-text-primary)] uppercase truncate">{item.title}</p>
+                                                <p className="font-mono text-[9px] text-[var(--color-text-muted)] uppercase truncate">
+                                                    {isEpisode(item) ? 'Podcast' : item.artist}
+                                                </p>
+                                            </div>
+                                            <span className="font-mono text-[9px] text-[var(--color-text-muted)] tabular-nums">{formatBytes(size)}</span>
+                                            <button
+                                                onClick={() => remove([item.$id])}
+                                                className="text-[var(--color-text-muted)] hover:text-red-500 transition-colors"
+                                                title="Remove download"
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </motion.section>
+
+                {/* Scrobbling */}
+                <motion.section
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.25 }}
+                    className="p-8 bg-[var(--color-card)] group hover:bg-[var(--color-card-hover)] transition-colors"
+                >
+                    <div className="flex items-start gap-6">
+                        <div className="p-3 border border-[var(--color-border)] bg-[var(--color-card)] text-[var(--color-text-muted)] group-hover:text-[var(--color-accent-gold)] group-hover:border-[var(--color-accent-gold)]/30 transition-colors">
+                            <Send size={24} />
+                        </div>
+                        <div className="flex-1 space-y-6">
+                            <div className="flex items-start justify-between">
+                                <div>
+                                    <h2 className="text-lg font-display text-[var(--color-text-primary)] uppercase tracking-widest mb-1">Scrobbling</h2>
+                                    <p className="font-mono text-xs text-[var(--color-text-muted)] uppercase">ListenBrainz-compatible services // Now playing & listens</p>
+                                </div>
+                                <button
+                                    onClick={() => saveScrobblers([...scrobblers, scrobbleService.createService()])}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 border border-[var(--color-border)] font-mono text-[10px] text-[var(--color-text-muted)] uppercase tracking-wider hover:border-[var(--color-text-primary)] hover:text-[var(--color-text-primary)] transition-all"
+                                >
+                                    <Plus size={12} />
+                                    Add_Service
+                                </button>
+                            </div>
+
+                            {scrobblers.map(config => {
+                                const check = tokenChecks[config.id];
+                                return (
+                                    <div key={config.id} className="p-4 border border-[var(--color-border)] bg-[var(--color-card)]/50 space-y-3">
+                                        <div className="flex items-center gap-3">
+                                            <input
+                                                value={config.name}
+                                                onChange={(e) => updateScrobbler(config.id, { name: e.target.value })}
+                                                className="flex-1 min-w-0 bg-[var(--color-void)] border border-[var(--color-border)] text-[var(--color-text-primary)] font-mono text-xs px-3 py-2 focus:outline-none focus:border-[var(--color-accent-gold)] uppercase"
+                                                placeholder="Service name"
+                                            />
+                                            <button
+                                                onClick={() => updateScrobbler(config.id, { enabled: !config.enabled })}
+                                                className={`px-4 py-2 border font-mono text-xs uppercase tracking-wider transition-all ${config.enabled
+                                                    ? 'bg-[var(--color-text-primary)] text-[var(--color-card)] border-[var(--color-text-primary)]'
+                                                    : 'border-[var(--color-border)] text-[var(--color-text-muted)] hover:border-[var(--color-text-primary)] hover:text-[var(--color-text-primary)]'
+                                                    }`}
+                                            >
+                                                {config.enabled ? 'On' : 'Off'}
+                                            </button>
+                                            <button
+                                                onClick={() => saveScrobblers(scrobblers.filter(other => other.id !== config.id))}
+                                                className="text-[var(--color-text-muted)] hover:text-red-500 transition-colors"
+                                                title="Remove service"
+                                            >
+                                                <X size={14} />
+                                            </button>
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-3">
+                                            <input
+                                                value={config.apiUrl}
+                                                onChange={(e) => updateScrobbler(config.id, { apiUrl: e.target.value })}
+                                                className="bg-[var(--color-void)] border border-[var(--color-border)] text-[var(--color-text-primary)] font-mono text-xs px-3 py-2 focus:outline-none focus:border-[var(--color-accent-gold)]"
+                                                placeholder="API URL"
+                                            />
+                                            <input
+                                                type="password"
+                                                value={config.token}
+                                                onChange={(e) => updateScrobbler(config.id, { token: e.target.value })}
+                                                className="bg-[var(--color-void)] border border-[var(--color-border)] text-[var(--color-text-primary)] font-mono text-xs px-3 py-2 focus:outline-none focus:border-[var(--color-accent-gold)]"
+                                                placeholder="User token"
+                                            />
+                                        </div>
+                                        <div className="flex items-center gap-3">
+                                            <button
+                                                onClick={() => checkToken(config)}
+                                                disabled={!config.apiUrl || !config.token || check === 'checking'}
+                                                className="px-3 py-1.5 border border-[var(--color-border)] font-mono text-[10px] text-[var(--color-text-muted)] uppercase tracking-wider hover:border-[var(--color-text-primary)] hover:text-[var(--color-text-primary)] transition-all disabled:opacity-50"
+                                            >
+                                                {check === 'checking' ? 'Checking...' : 'Test_Token'}
+                                            </button>
+                                            {check && check !== 'checking' && (
+                                                <span className={`font-mono text-[10px] uppercase ${check.valid ? 'text-[var(--color-accent-gold)]' : 'text-red-400'}`}>
+                                                    {check.valid ? `Valid // ${check.userName ?? 'Unknown user'}` : check.message ?? 'Invalid token'}
+                                                </span>
+                                            )}
+                                            {!check && config.needsAuth && (
+                                                <span className="font-mono text-[10px] uppercase text-red-400">
+                                                    Token rejected // paused until it tests valid
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+
+                            {pendingScrobbles > 0 && (
+                                <div className="flex items-center justify-between p-4 border border-[var(--color-border)] bg-[var(--color-card)]/50">
+                                    <span className="font-mono text-[10px] text-[var(--color-text-secondary)] uppercase tracking-wider">
+                                        {pendingScrobbles} listens waiting to be sent
+                                    </span>
+                                    <button
+                                        onClick={retryScrobbles}
+                                        className="px-3 py-1.5 border border-[var(--color-border)] font-mono text-[10px] text-[var(--color-text-muted)] uppercase tracking-wider hover:border-[var(--color-text-primary)] hover:text-[var(--color-text-primary)] transition-all"
+                                    >
+                                        Retry_Now
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </motion.section>
+
+                {/* Application Info */}
+                <motion.section
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.3 }}
+                    className="p-8 bg-[var(--color-card)] group hover:bg-[var(--color-card-hover)] transition-colors"
                 >
                     <div className="flex items-start gap-6">
                         <div className="p-3 border border-[var(--color-border)] bg-[var(--color-card)] text-[var(--color-text-muted)] group-hover:text-[var(--color-text-primary)] transition-colors">
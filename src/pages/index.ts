@@ -4,6 +4,7 @@ export { Login } from './Login';
 export { Register } from './Register';
 export { MusicPage } from './Music';
 export { Podcasts } from './Podcasts';
+export { PodcastDetail } from './PodcastDetail';
 export { Search } from './Search';
 export { Playlists } from './Playlists';
 export { AdminUpload } from './AdminUpload';
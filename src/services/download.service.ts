@@ -0,0 +1,231 @@
+/**
+ * Download Service
+ * Offline copies of tracks and episodes. Audio lives in Cache Storage under a
+ * synthetic same-origin URL per item; the index of what's downloaded (item
+ * metadata, size) lives in localStorage so it can be checked synchronously.
+ */
+import {
+    storage,
+    BUCKETS,
+    cacheAudioBlob,
+    getCachedAudio,
+    getProxiedStorageUrl,
+    isInternalAppwriteUrl,
+    offlineAudioCacheKey,
+    revokeProxiedAudioUrl,
+} from '../lib/appwrite';
+import type { PlayableItem } from '../types';
+
+export interface DownloadedItem {
+    item: PlayableItem;
+    /** Bytes on disk */
+    size: number;
+    downloadedAt: string;
+}
+
+export interface DownloadProgress {
+    received: number;
+    /** null when the server doesn't say how big the file is */
+    total: number | null;
+}
+
+export interface StorageUsage {
+    /** Bytes used by downloads */
+    downloads: number;
+    /** Origin-wide usage and quota, if the browser reports them */
+    usage: number | null;
+    quota: number | null;
+}
+
+const CACHE_NAME = 'music-app-downloads';
+const INDEX_STORAGE_KEY = 'music-app-downloads';
+
+// Leave this much of the quota free for everything else the app stores
+const QUOTA_HEADROOM_BYTES = 50 * 1024 * 1024;
+
+// Offline reads in progress, so an item read twice at once gets one blob URL
+const pendingOfflineReads = new Map<string, Promise<string | null>>();
+
+function cacheKey(itemId: string): string {
+    return `/offline-audio/${encodeURIComponent(itemId)}`;
+}
+
+function readIndex(): Record<string, DownloadedItem> {
+    try {
+        const stored = JSON.parse(localStorage.getItem(INDEX_STORAGE_KEY) || '{}');
+        return stored && typeof stored === 'object' ? stored : {};
+    } catch {
+        return {};
+    }
+}
+
+function writeIndex(index: Record<string, DownloadedItem>): void {
+    localStorage.setItem(INDEX_STORAGE_KEY, JSON.stringify(index));
+}
+
+/**
+ * Where to fetch an item's audio from with CORS - Storage directly for uploads,
+ * the audio proxy's Storage copy for external URLs
+ */
+async function resolveSourceUrl(item: PlayableItem): Promise<string> {
+    if ('audio_file_id' in item && item.audio_file_id) {
+        return storage.getFileView(BUCKETS.AUDIO, item.audio_file_id).toString();
+    }
+    if ('audio_url' in item && item.audio_url) {
+        return isInternalAppwriteUrl(item.audio_url) ? item.audio_url : getProxiedStorageUrl(item.audio_url);
+    }
+    throw new Error('No audio source found');
+}
+
+function quotaError(): DOMException {
+    return new DOMException('Not enough storage for this download', 'QuotaExceededError');
+}
+
+export const downloadService = {
+    isSupported(): boolean {
+        return typeof caches !== 'undefined';
+    },
+
+    /**
+     * Everything downloaded, keyed by item id
+     */
+    getDownloads(): Record<string, DownloadedItem> {
+        return readIndex();
+    },
+
+    isDownloaded(itemId: string): boolean {
+        return itemId in readIndex();
+    },
+
+    /**
+     * Blob URL for a downloaded item's audio, or null if it isn't downloaded
+     * (or its cached copy has gone missing, in which case the index is repaired).
+     * The URL lives in the player's bounded blob cache, so only the items the
+     * player has pinned stay in memory.
+     */
+    async getOfflineUrl(itemId: string): Promise<string | null> {
+        const existing = getCachedAudio(offlineAudioCacheKey(itemId));
+        if (existing) return existing;
+        if (!this.isSupported() || !this.isDownloaded(itemId)) return null;
+
+        const pending = pendingOfflineReads.get(itemId);
+        if (pending) return pending;
+
+        const readPromise = (async () => {
+            try {
+                const cache = await caches.open(CACHE_NAME);
+                const response = await cache.match(cacheKey(itemId));
+                if (!response) {
+                    console.warn(`[Downloads] Cached audio for ${itemId} is missing, dropping it`);
+                    const index = readIndex();
+                    delete index[itemId];
+                    writeIndex(index);
+                    return null;
+                }
+
+                return cacheAudioBlob(offlineAudioCacheKey(itemId), await response.blob());
+            } catch (error) {
+                console.warn('[Downloads] Failed to read offline audio:', error);
+                return null;
+            } finally {
+                pendingOfflineReads.delete(itemId);
+            }
+        })();
+
+        pendingOfflineReads.set(itemId, readPromise);
+        return readPromise;
+    },
+
+    /**
+     * Download an item's audio into Cache Storage.
+     * Rejects with a QuotaExceededError DOMException when it won't fit.
+     */
+    async download(
+        item: PlayableItem,
+        onProgress: (progress: DownloadProgress) => void,
+        signal?: AbortSignal
+    ): Promise<DownloadedItem> {
+        if (!this.isSupported()) throw new Error('Offline downloads are not supported in this browser');
+
+        const response = await fetch(await resolveSourceUrl(item), { signal });
+        if (!response.ok || !response.body) throw new Error(`Download failed: ${response.status}`);
+
+        const header = Number(response.headers.get('content-length'));
+        const total = Number.isFinite(header) && header > 0 ? header : null;
+
+        // Check up front when the size is known - failing at 99% wastes the whole transfer
+        const estimate = await navigator.storage?.estimate?.();
+        if (total && estimate?.quota !== undefined && estimate.usage !== undefined &&
+            estimate.usage + total > estimate.quota - QUOTA_HEADROOM_BYTES) {
+            throw quotaError();
+        }
+
+        const reader = response.body.getReader();
+        const chunks: Uint8Array<ArrayBuffer>[] = [];
+        let received = 0;
+        onProgress({ received, total });
+
+        for (; ;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            chunks.push(value);
+            received += value.byteLength;
+            onProgress({ received, total });
+        }
+
+        const blob = new Blob(chunks, { type: response.headers.get('content-type') || 'audio/mpeg' });
+        const cache = await caches.open(CACHE_NAME);
+        try {
+            await cache.put(cacheKey(item.$id), new Response(blob, {
+                headers: { 'Content-Type': blob.type, 'Content-Length': String(blob.size) },
+            }));
+        } catch (error) {
+            if (error instanceof DOMException && error.name === 'QuotaExceededError') throw quotaError();
+            throw error;
+        }
+
+        const downloaded: DownloadedItem = { item, size: blob.size, downloadedAt: new Date().toISOString() };
+        const index = readIndex();
+        index[item.$id] = downloaded;
+        try {
+            writeIndex(index);
+        } catch (error) {
+            // The audio is useless without its index entry
+            await cache.delete(cacheKey(item.$id));
+            throw error;
+        }
+
+        // Ask the browser not to evict downloads under storage pressure
+        navigator.storage?.persist?.().catch(() => { });
+        return downloaded;
+    },
+
+    async remove(itemId: string): Promise<void> {
+        const index = readIndex();
+        delete index[itemId];
+        writeIndex(index);
+
+        revokeProxiedAudioUrl(offlineAudioCacheKey(itemId));
+
+        if (this.isSupported()) {
+            const cache = await caches.open(CACHE_NAME);
+            await cache.delete(cacheKey(itemId));
+        }
+    },
+
+    async removeAll(): Promise<void> {
+        for (const itemId of Object.keys(readIndex())) revokeProxiedAudioUrl(offlineAudioCacheKey(itemId));
+        writeIndex({});
+        if (this.isSupported()) await caches.delete(CACHE_NAME);
+    },
+
+    async getStorageUsage(): Promise<StorageUsage> {
+        const downloads = Object.values(readIndex()).reduce((sum, entry) => sum + entry.size, 0);
+        try {
+            const estimate = await navigator.storage?.estimate?.();
+            return { downloads, usage: estimate?.usage ?? null, quota: estimate?.quota ?? null };
+        } catch {
+            return { downloads, usage: null, quota: null };
+        }
+    },
+};
@@ -2,7 +2,7 @@
  * History Service
  * Manages recently played and resume playback functionality
  */
-import { recordHistory } from '../lib/functions';
+import { recordHistory, type HistoryRecord } from '../lib/functions';
 
 export interface RecentlyPlayedItem {
     $id: string;
@@ -39,6 +39,25 @@ export const historyService = {
         return response.success;
     },
 
+    /**
+     * Record a batch of queued plays, one request each.
+     * A play only counts as recorded when the function says it succeeded;
+     * resolves to the plays that could not be recorded.
+     */
+    async recordPlays(plays: HistoryRecord[]): Promise<HistoryRecord[]> {
+        const failed: HistoryRecord[] = [];
+        for (const play of plays) {
+            const response = await recordHistory<{ success: boolean }>({
+                action: 'record',
+                itemId: play.itemId,
+                isEpisode: play.isEpisode,
+                metadata: play.metadata,
+            }).catch(() => null);
+            if (response?.success !== true || response.data?.success !== true) failed.push(play);
+        }
+        return failed;
+    },
+
     /**
      * Update resume position for current item
      * Call this periodically during playback and on pause
@@ -7,3 +7,17 @@ export { podcastService } from './podcast.service';
 export { playlistService } from './playlist.service';
 export { favoritesService } from './favorites.service';
 export { historyService } from './history.service';
+export { sessionService } from './session.service';
+export type { PlayerSession } from './session.service';
+export { downloadService } from './download.service';
+export type { DownloadedItem, DownloadProgress, StorageUsage } from './download.service';
+export { radioService } from './radio.service';
+export type { RadioSeed, RadioStation } from './radio.service';
+export { listenService, EARLY_SKIP_SECONDS } from './listen.service';
+export type { ListenEvent, ListenEventType, ListenListener, ListenStats } from './listen.service';
+export { scrobbleService, LISTENBRAINZ_API_URL } from './scrobble.service';
+export type { ScrobblerConfig, TokenValidation } from './scrobble.service';
+export { loopsService } from './loops.service';
+export type { SavedLoop } from './loops.service';
+export { timeSavedService } from './timeSaved.service';
+export type { TimeSavedEntry } from './timeSaved.service';
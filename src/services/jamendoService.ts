@@ -24,6 +24,13 @@ export interface JamendoTrack {
     duration: number;
     releasedate: string;
     license_ccurl: string;
+    musicinfo?: {
+        tags?: {
+            genres?: string[];
+            instruments?: string[];
+            vartags?: string[];
+        };
+    };
 }
 
 export interface JamendoTracksResponse {
@@ -46,6 +53,7 @@ export async function getTracks(options: {
     order?: 'popularity_total' | 'releasedate' | 'name';
     tags?: string; // e.g. 'rock', 'pop', 'electronic'
     search?: string;
+    artistName?: string; // exact artist name
 } = {}): Promise<JamendoTracksResponse> {
     const {
         limit = 20,
@@ -53,6 +61,7 @@ export async function getTracks(options: {
         order = 'popularity_total',
         tags,
         search,
+        artistName,
     } = options;
 
     const params = new URLSearchParams({
@@ -73,6 +82,10 @@ export async function getTracks(options: {
         params.append('namesearch', search);
     }
 
+    if (artistName) {
+        params.append('artist_name', artistName);
+    }
+
     const url = `${JAMENDO_API_BASE}/tracks/?${params}`;
 
     try {
@@ -154,9 +167,10 @@ export async function getTrendingTracks(limit = 20): Promise<JamendoTracksRespon
 }
 
 /**
- * Get single track by ID
+ * Look up a single track by ID.
+ * Null only when Jamendo has no such track - a failed request throws.
  */
-export async function getTrackById(id: string): Promise<JamendoTrack | null> {
+export async function lookupTrackById(id: string): Promise<JamendoTrack | null> {
     const params = new URLSearchParams({
         client_id: JAMENDO_CLIENT_ID,
         format: 'json',
@@ -166,13 +180,23 @@ export async function getTrackById(id: string): Promise<JamendoTrack | null> {
 
     const url = `${JAMENDO_API_BASE}/tracks/?${params}`;
 
+    const response = await fetch(url, {
+        headers: { 'User-Agent': 'MusicStreamingApp/1.0' },
+    });
+    if (!response.ok) throw new Error(`Jamendo API error: ${response.status}`);
+    const data = await response.json();
+    if (data.headers?.status && data.headers.status !== 'success') {
+        throw new Error(data.headers.error_message || 'Jamendo API error');
+    }
+    return data.results[0] || null;
+}
+
+/**
+ * Get single track by ID
+ */
+export async function getTrackById(id: string): Promise<JamendoTrack | null> {
     try {
-        const response = await fetch(url, {
-            headers: { 'User-Agent': 'MusicStreamingApp/1.0' },
-        });
-        if (!response.ok) throw new Error(`Jamendo API error: ${response.status}`);
-        const data = await response.json();
-        return data.results[0] || null;
+        return await lookupTrackById(id);
     } catch (error) {
         console.error(`Failed to fetch Jamendo track ${id}:`, error);
         return null;
@@ -0,0 +1,235 @@
+/**
+ * Listen Service
+ * Stores listen events (start, qualified play, skip, completion, seek) locally for
+ * statistics and recommendations, and queues qualified plays for the history
+ * function, sent together on each flush. Unsent plays survive reloads.
+ */
+import { historyService } from './history.service';
+import type { HistoryRecord } from '../lib/functions';
+import type { PlayableItem, Track } from '../types';
+import { isEpisode } from '../utils/trackUtils';
+
+export type ListenEventType = 'start' | 'play' | 'skip' | 'complete' | 'seek';
+
+export interface ListenEvent {
+    /** 'play' is a qualified play - the only kind that counts in history */
+    type: ListenEventType;
+    itemId: string;
+    isEpisode: boolean;
+    /** Playback position (seconds) when the event happened - the seek target for seeks */
+    position: number;
+    duration: number;
+    /** Seconds actually listened in this session so far */
+    listened: number;
+    /** Seek origin (seconds) */
+    from?: number;
+    /** Epoch ms */
+    timestamp: number;
+}
+
+/** Called for every recorded event, with the item it belongs to */
+export type ListenListener = (event: ListenEvent, item: PlayableItem) => void;
+
+export interface ListenStats {
+    starts: number;
+    plays: number;
+    skips: number;
+    completions: number;
+    /** Skips within the first EARLY_SKIP_SECONDS */
+    earlySkips: number;
+    lastPlayedAt: number | null;
+}
+
+const EVENTS_STORAGE_KEY = 'music-app-listen-events';
+const PENDING_STORAGE_KEY = 'music-app-listen-pending';
+
+// Oldest events are dropped beyond this many
+const EVENTS_LIMIT = 2000;
+// The log is rewritten whole, so new events are saved together at most this often
+// (and right away by flush, which runs when the page is hidden)
+const EVENTS_WRITE_DELAY_MS = 5 * 1000;
+
+// Qualified plays are sent this long after the first one is queued...
+const FLUSH_DELAY_MS = 30 * 1000;
+// ...or straight away once this many are waiting
+const FLUSH_BATCH_SIZE = 10;
+
+/** A skip this early means the listener didn't want the track at all */
+export const EARLY_SKIP_SECONDS = 30;
+
+let events: ListenEvent[] | null = null;
+const listeners = new Set<ListenListener>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let eventsWriteTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+
+function readJson<T>(key: string, fallback: T): T {
+    try {
+        const stored = JSON.parse(localStorage.getItem(key) || 'null');
+        return Array.isArray(stored) ? stored as T : fallback;
+    } catch {
+        return fallback;
+    }
+}
+
+function writeJson(key: string, value: unknown) {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+        console.warn('[Listen] Failed to save:', error);
+    }
+}
+
+function getEventLog(): ListenEvent[] {
+    if (!events) events = readJson<ListenEvent[]>(EVENTS_STORAGE_KEY, []);
+    return events;
+}
+
+function saveEventLog() {
+    if (eventsWriteTimer) {
+        clearTimeout(eventsWriteTimer);
+        eventsWriteTimer = null;
+    }
+    if (events) writeJson(EVENTS_STORAGE_KEY, events);
+}
+
+function scheduleEventLogWrite() {
+    if (!eventsWriteTimer) eventsWriteTimer = setTimeout(saveEventLog, EVENTS_WRITE_DELAY_MS);
+}
+
+function scheduleFlush(pendingCount: number) {
+    if (pendingCount >= FLUSH_BATCH_SIZE) {
+        listenService.flush();
+    } else if (!flushTimer) {
+        flushTimer = setTimeout(() => listenService.flush(), FLUSH_DELAY_MS);
+    }
+}
+
+export const listenService = {
+    /**
+     * Log an event. Qualified plays are also queued for the history function.
+     */
+    record(item: PlayableItem, event: Omit<ListenEvent, 'itemId' | 'isEpisode' | 'timestamp'>): void {
+        const entry: ListenEvent = {
+            ...event,
+            itemId: item.$id,
+            isEpisode: isEpisode(item),
+            timestamp: Date.now(),
+        };
+
+        const log = getEventLog();
+        log.push(entry);
+        if (log.length > EVENTS_LIMIT) log.splice(0, log.length - EVENTS_LIMIT);
+        scheduleEventLogWrite();
+
+        if (entry.type === 'play') {
+            const pending = readJson<HistoryRecord[]>(PENDING_STORAGE_KEY, []);
+            pending.push({
+                itemId: item.$id,
+                isEpisode: entry.isEpisode,
+                playedAt: new Date(entry.timestamp).toISOString(),
+                metadata: entry.isEpisode ? undefined : item as Track,
+            });
+            writeJson(PENDING_STORAGE_KEY, pending);
+            scheduleFlush(pending.length);
+        }
+
+        for (const listener of listeners) {
+            try {
+                listener(entry, item);
+            } catch (error) {
+                console.warn('[Listen] Listener failed:', error);
+            }
+        }
+    },
+
+    /**
+     * Get every event as it is recorded (e.g. scrobblers). Returns an unsubscribe function.
+     */
+    subscribe(listener: ListenListener): () => void {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+
+    /**
+     * Save the event log and send queued plays now. Plays that fail stay queued
+     * for the next flush.
+     */
+    flush(): Promise<void> {
+        if (eventsWriteTimer) saveEventLog();
+        if (flushTimer) {
+            clearTimeout(flushTimer);
+            flushTimer = null;
+        }
+        if (flushing) return flushing;
+
+        const batch = readJson<HistoryRecord[]>(PENDING_STORAGE_KEY, []);
+        if (batch.length === 0) return Promise.resolve();
+
+        flushing = historyService.recordPlays(batch)
+            .catch((error) => {
+                console.warn('[Listen] Failed to send plays:', error);
+                return batch;
+            })
+            .then((failed) => {
+                // Plays queued while the request was in flight are kept too
+                const added = readJson<HistoryRecord[]>(PENDING_STORAGE_KEY, []).slice(batch.length);
+                writeJson(PENDING_STORAGE_KEY, [...failed, ...added]);
+            })
+            .finally(() => {
+                flushing = null;
+            });
+        return flushing;
+    },
+
+    /**
+     * Events logged since `since` (epoch ms), oldest first
+     */
+    getEvents(since = 0): ListenEvent[] {
+        return getEventLog().filter(event => event.timestamp >= since);
+    },
+
+    getStats(itemId: string): ListenStats {
+        const stats: ListenStats = { starts: 0, plays: 0, skips: 0, completions: 0, earlySkips: 0, lastPlayedAt: null };
+        for (const event of getEventLog()) {
+            if (event.itemId !== itemId) continue;
+            switch (event.type) {
+                case 'start':
+                    stats.starts++;
+                    break;
+                case 'play':
+                    stats.plays++;
+                    stats.lastPlayedAt = event.timestamp;
+                    break;
+                case 'complete':
+                    stats.completions++;
+                    break;
+                case 'skip':
+                    stats.skips++;
+                    if (event.listened < EARLY_SKIP_SECONDS) stats.earlySkips++;
+                    break;
+            }
+        }
+        return stats;
+    },
+
+    /**
+     * Items the listener keeps skipping early - recommendations leave them out
+     */
+    getDislikedIds(minEarlySkips = 2): Set<string> {
+        const earlySkips = new Map<string, number>();
+        const completed = new Set<string>();
+        for (const event of getEventLog()) {
+            if (event.type === 'skip' && event.listened < EARLY_SKIP_SECONDS) {
+                earlySkips.set(event.itemId, (earlySkips.get(event.itemId) ?? 0) + 1);
+            } else if (event.type === 'complete') {
+                completed.add(event.itemId);
+            }
+        }
+        return new Set([...earlySkips.entries()]
+            .filter(([itemId, count]) => count >= minEarlySkips && !completed.has(itemId))
+            .map(([itemId]) => itemId));
+    },
+};
@@ -0,0 +1,79 @@
+/**
+ * Loops Service
+ * A-B loops saved per item, so a practice passage or a favourite section is one
+ * click away the next time the item plays. Stored locally.
+ */
+import type { ABLoop } from '../types';
+
+export interface SavedLoop {
+    id: string;
+    name: string;
+    /** Loop start (seconds) */
+    a: number;
+    /** Loop end (seconds) */
+    b: number;
+    /** Epoch ms */
+    createdAt: number;
+}
+
+const STORAGE_KEY = 'music-app-loops';
+
+// Oldest loops of an item are dropped beyond this many
+const MAX_LOOPS_PER_ITEM = 20;
+
+function readAll(): Record<string, SavedLoop[]> {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch {
+        return {};
+    }
+}
+
+function writeAll(loops: Record<string, SavedLoop[]>) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(loops));
+    } catch (error) {
+        console.warn('[Loops] Failed to save loops:', error);
+    }
+}
+
+export const loopsService = {
+    /**
+     * Saved loops of an item, in playback order
+     */
+    getLoops(itemId: string): SavedLoop[] {
+        const loops = readAll()[itemId];
+        return Array.isArray(loops) ? [...loops].sort((x, y) => x.a - y.a) : [];
+    },
+
+    /**
+     * Save a complete loop. Saving the same region again just renames it.
+     */
+    saveLoop(itemId: string, loop: ABLoop, name: string): SavedLoop | null {
+        if (loop.b === null) return null;
+        const { a, b } = loop;
+
+        const all = readAll();
+        const existing = (all[itemId] ?? []).filter(saved => saved.a !== a || saved.b !== b);
+        const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+            ? crypto.randomUUID()
+            : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+        const saved: SavedLoop = { id, name, a, b, createdAt: Date.now() };
+
+        all[itemId] = [...existing, saved].slice(-MAX_LOOPS_PER_ITEM);
+        writeAll(all);
+        return saved;
+    },
+
+    removeLoop(itemId: string, loopId: string): void {
+        const all = readAll();
+        const remaining = (all[itemId] ?? []).filter(saved => saved.id !== loopId);
+        if (remaining.length > 0) {
+            all[itemId] = remaining;
+        } else {
+            delete all[itemId];
+        }
+        writeAll(all);
+    },
+};
@@ -4,7 +4,7 @@
  * Part of hybrid architecture: Jamendo + Appwrite
  */
 
-import { getTracks, searchTracks, getTracksByGenre, getTrendingTracks, getFeaturedByGenre, getTrackById, JAMENDO_GENRES, type JamendoTrack } from './jamendoService';
+import { getTracks, searchTracks, getTracksByGenre, getTrendingTracks, getFeaturedByGenre, lookupTrackById, JAMENDO_GENRES, type JamendoTrack } from './jamendoService';
 import { databases, COLLECTIONS, Query, storage, BUCKETS, functions } from '../lib/appwrite';
 import { searchContent } from '../lib/functions';
 import type { Track, TrackSource } from '../types';
@@ -12,7 +12,7 @@ import type { Track, TrackSource } from '../types';
 /**
  * Convert Jamendo track to our unified Track type
  */
-function convertJamendoTrack(jamendoTrack: JamendoTrack): Track {
+export function convertJamendoTrack(jamendoTrack: JamendoTrack): Track {
     return {
         $id: jamendoTrack.id,
         $createdAt: jamendoTrack.releasedate,
@@ -23,6 +23,7 @@ function convertJamendoTrack(jamendoTrack: JamendoTrack): Track {
         title: jamendoTrack.name,
         artist: jamendoTrack.artist_name,
         album: jamendoTrack.album_name || jamendoTrack.name,
+        genre: jamendoTrack.musicinfo?.tags?.genres?.[0],
         duration: jamendoTrack.duration,
         play_count: 0,
 
@@ -159,33 +160,37 @@ export const musicService = {
      */
     async getTrack(itemId: string): Promise<Track | null> {
         try {
-            // 1. Try Appwrite DB first (inflated metadata should be here if ingested)
-            try {
-                const track = await databases.getDocument(
-                    import.meta.env.VITE_DATABASE_ID,
-                    COLLECTIONS.TRACKS,
-                    itemId
-                );
-                // Determine source based on fields
-                const source = (track as any).audio_url ? 'jamendo' : 'appwrite';
-                return { ...track, source } as unknown as Track;
-            } catch (e: any) {
-                if (e.code !== 404) throw e;
-            }
-
-            // 2. Fallback to Jamendo API if not in our DB
-            const jamendoTrack = await getTrackById(itemId);
-            if (jamendoTrack) {
-                return convertJamendoTrack(jamendoTrack);
-            }
-
-            return null;
+            return await this.lookupTrack(itemId);
         } catch (error) {
             console.error('Failed to get track:', error);
             return null;
         }
     },
 
+    /**
+     * Like getTrack, but null means the track is gone (in neither our DB nor
+     * Jamendo) - a lookup that fails throws instead.
+     */
+    async lookupTrack(itemId: string): Promise<Track | null> {
+        // 1. Try Appwrite DB first (inflated metadata should be here if ingested)
+        try {
+            const track = await databases.getDocument(
+                import.meta.env.VITE_DATABASE_ID,
+                COLLECTIONS.TRACKS,
+                itemId
+            );
+            // Determine source based on fields
+            const source = (track as any).audio_url ? 'jamendo' : 'appwrite';
+            return { ...track, source } as unknown as Track;
+        } catch (e: any) {
+            if (e.code !== 404) throw e;
+        }
+
+        // 2. Fallback to Jamendo API if not in our DB
+        const jamendoTrack = await lookupTrackById(itemId);
+        return jamendoTrack ? convertJamendoTrack(jamendoTrack) : null;
+    },
+
     /**
      * Get featured tracks by genre - for discovery sections
      */
@@ -0,0 +1,187 @@
+/**
+ * Radio Service
+ * Builds endless "stations" of similar tracks. A station is seeded by tracks
+ * and/or artists; candidates come from Jamendo (the seeds' genres and artists)
+ * and the user's favorites, minus anything played recently or habitually skipped.
+ */
+import { getTracks } from './jamendoService';
+import { convertJamendoTrack } from './musicService';
+import { favoritesService } from './favorites.service';
+import { historyService } from './history.service';
+import { listenService } from './listen.service';
+import type { PlayableItem, Track } from '../types';
+import { isEpisode } from '../utils/trackUtils';
+
+export interface RadioStation {
+    /** Display name, used as the queue context */
+    name: string;
+    /** Tracks the station is built around - their genres and artists steer it */
+    seedTracks: Track[];
+    /** Artists the station is built around, on top of the seed tracks' artists */
+    seedArtists: string[];
+}
+
+export type RadioSeed =
+    | { type: 'track'; track: Track }
+    | { type: 'artist'; artist: string }
+    | { type: 'playlist'; name: string; tracks: Track[] }
+    /** Autoplay - the last tracks that played */
+    | { type: 'history'; tracks: Track[] };
+
+// Genres and artists queried per batch - the most common among the seeds
+const MAX_SEED_GENRES = 2;
+const MAX_SEED_ARTISTS = 2;
+
+// Jamendo results are paged in at a random offset so stations don't always start the same way
+const GENRE_PAGE_SIZE = 20;
+const MAX_GENRE_OFFSET = 60;
+
+// Favorites are fetched once per session - they rarely change mid-listen
+let favoritesCache: { userId: string; tracks: Promise<Track[]> } | null = null;
+
+function getFavorites(userId: string): Promise<Track[]> {
+    if (favoritesCache?.userId !== userId) {
+        favoritesCache = {
+            userId,
+            tracks: favoritesService.getUserFavorites(userId).catch((error) => {
+                console.warn('[Radio] Failed to load favorites:', error);
+                favoritesCache = null;
+                return [];
+            }),
+        };
+    }
+    return favoritesCache.tracks;
+}
+
+/**
+ * Most frequent values first
+ */
+function mostCommon(values: string[], limit: number): string[] {
+    const counts = new Map<string, number>();
+    for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([value]) => value);
+}
+
+function shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+/**
+ * Take from each source in turn so no single genre or artist dominates a batch
+ */
+function interleave<T>(sources: T[][]): T[] {
+    const result: T[] = [];
+    const longest = Math.max(0, ...sources.map(source => source.length));
+    for (let i = 0; i < longest; i++) {
+        for (const source of sources) {
+            if (i < source.length) result.push(source[i]);
+        }
+    }
+    return result;
+}
+
+async function fetchJamendo(options: Parameters<typeof getTracks>[0]): Promise<Track[]> {
+    try {
+        const response = await getTracks(options);
+        return response.headers?.status === 'success' ? response.results.map(convertJamendoTrack) : [];
+    } catch {
+        // getTracks already logged it - a station just has one source fewer
+        return [];
+    }
+}
+
+export const radioService = {
+    /**
+     * Station for a track, an artist, a playlist or the listening history
+     */
+    createStation(seed: RadioSeed): RadioStation {
+        switch (seed.type) {
+            case 'track':
+                return { name: `${seed.track.title} Radio`, seedTracks: [seed.track], seedArtists: [] };
+            case 'artist':
+                return { name: `${seed.artist} Radio`, seedTracks: [], seedArtists: [seed.artist] };
+            case 'playlist':
+                return { name: `${seed.name} Radio`, seedTracks: seed.tracks, seedArtists: [] };
+            case 'history':
+                return { name: 'Autoplay', seedTracks: seed.tracks, seedArtists: [] };
+        }
+    },
+
+    /**
+     * Seed tracks for autoplay - the most recent music out of what played
+     */
+    getHistorySeeds(played: PlayableItem[], limit = 5): Track[] {
+        return played.filter((item): item is Track => !isEpisode(item)).slice(-limit);
+    },
+
+    /**
+     * A batch of new tracks for a station.
+     * `exclude` holds ids that must not come back (queued or just played); the
+     * server-side history is excluded on top of that. May return fewer than `limit`.
+     */
+    async getStationTracks(
+        station: RadioStation,
+        options: { exclude: Set<string>; userId?: string; limit?: number }
+    ): Promise<Track[]> {
+        const { exclude, userId, limit = 10 } = options;
+
+        const genres = mostCommon(
+            station.seedTracks.map(track => track.genre?.toLowerCase()).filter((genre): genre is string => !!genre),
+            MAX_SEED_GENRES
+        );
+        const artists = mostCommon(
+            [...station.seedArtists, ...station.seedTracks.map(track => track.artist)].filter(Boolean),
+            MAX_SEED_ARTISTS
+        );
+
+        const [recent, favorites, ...batches] = await Promise.all([
+            historyService.getRecentlyPlayed(50).catch(() => []),
+            userId ? getFavorites(userId) : Promise.resolve([]),
+            ...genres.map(tags => fetchJamendo({
+                tags,
+                limit: GENRE_PAGE_SIZE,
+                offset: Math.floor(Math.random() * MAX_GENRE_OFFSET),
+            })),
+            ...artists.map(artistName => fetchJamendo({ artistName, limit: GENRE_PAGE_SIZE })),
+        ]);
+
+        const excluded = new Set(exclude);
+        for (const item of recent) {
+            if (item.track_id) excluded.add(item.track_id);
+        }
+        for (const track of station.seedTracks) excluded.add(track.$id);
+        // Tracks the listener keeps skipping straight away
+        for (const itemId of listenService.getDislikedIds()) excluded.add(itemId);
+
+        // Favorites that fit the station - matching genre or artist
+        const genreSet = new Set(genres);
+        const artistSet = new Set(artists);
+        const matchingFavorites = favorites.filter(track =>
+            artistSet.has(track.artist) || (!!track.genre && genreSet.has(track.genre.toLowerCase()))
+        );
+
+        let candidates = interleave([...batches, matchingFavorites].map(shuffle));
+
+        // Nothing to go on (untagged uploads, unknown artist) - fall back to what's popular
+        if (candidates.every(track => excluded.has(track.$id))) {
+            candidates = shuffle(await fetchJamendo({ limit: GENRE_PAGE_SIZE * 2 }));
+        }
+
+        const result: Track[] = [];
+        for (const track of candidates) {
+            if (result.length >= limit) break;
+            if (excluded.has(track.$id)) continue;
+            excluded.add(track.$id);
+            result.push(track);
+        }
+        return result;
+    },
+};
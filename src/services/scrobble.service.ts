@@ -0,0 +1,378 @@
+/**
+ * Scrobble Service
+ * Sends "now playing" and qualified listens to any number of
+ * ListenBrainz-compatible APIs (ListenBrainz itself, Maloja, Koito, ...), fed by
+ * listen events (see listen.service). Listens that can't be delivered are queued
+ * in IndexedDB and retried when the connection comes back.
+ *
+ * Try it against scripts/mock-listenbrainz.mjs: `npm run mock:listenbrainz`,
+ * then add a service with API URL http://localhost:7878 and any token.
+ */
+import { listenService, type ListenEvent } from './listen.service';
+import type { PlayableItem } from '../types';
+import { isEpisode } from '../utils/trackUtils';
+
+export interface ScrobblerConfig {
+    id: string;
+    name: string;
+    /** API root - `/1/submit-listens` is appended */
+    apiUrl: string;
+    token: string;
+    enabled: boolean;
+    /** The service rejected the token - nothing is sent until it validates again */
+    needsAuth?: boolean;
+}
+
+export interface TokenValidation {
+    valid: boolean;
+    userName?: string;
+    message?: string;
+}
+
+/** A listen in ListenBrainz JSON format */
+interface ListenPayload {
+    listened_at?: number;
+    track_metadata: {
+        artist_name: string;
+        track_name: string;
+        release_name?: string;
+        additional_info: Record<string, string | number>;
+    };
+}
+
+interface QueuedListen {
+    id?: number;
+    serviceId: string;
+    listen: ListenPayload;
+    /** Set while a flush (in this or another tab) is submitting it */
+    claimedAt?: number;
+}
+
+type SubmitResult = 'ok' | 'retry' | 'rejected' | 'unauthorized';
+
+export const LISTENBRAINZ_API_URL = 'https://api.listenbrainz.org';
+
+const CONFIG_STORAGE_KEY = 'music-app-scrobblers';
+const DB_NAME = 'music-app-scrobbles';
+const STORE_NAME = 'queue';
+// Held while flushing, so tabs sharing the queue take turns
+const FLUSH_LOCK_NAME = 'music-app-scrobble-flush';
+
+const CLIENT_NAME = 'AUDIO_OS';
+
+// Queued listens are retried this often while the tab is open
+const RETRY_INTERVAL_MS = 60 * 1000;
+// ListenBrainz accepts at most this many listens per import request
+const MAX_IMPORT_SIZE = 100;
+// An older claim belongs to a tab that closed mid-flush - its listens are free again
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// When each item started playing - a listen is dated from its start
+const startTimes = new Map<string, number>();
+let flushing: Promise<void> | null = null;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Run one request against the queue store
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function isClaimed(entry: QueuedListen, now: number): boolean {
+    return entry.claimedAt !== undefined && now - entry.claimedAt < CLAIM_TIMEOUT_MS;
+}
+
+/**
+ * Claim queued listens for submitting, in one transaction so two tabs can't both
+ * claim the same one. Resolves to the entries that were claimed.
+ */
+async function claim(entries: QueuedListen[]): Promise<QueuedListen[]> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const now = Date.now();
+        const claimed: QueuedListen[] = [];
+        for (const entry of entries) {
+            const request = store.get(entry.id!);
+            request.onsuccess = () => {
+                const current = request.result as QueuedListen | undefined;
+                if (!current || isClaimed(current, now)) return;
+                const next = { ...current, claimedAt: now };
+                store.put(next);
+                claimed.push(next);
+            };
+        }
+        transaction.oncomplete = () => resolve(claimed);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+async function release(entries: QueuedListen[]): Promise<void> {
+    for (const entry of entries) {
+        await withStore('readwrite', store => store.put({ ...entry, claimedAt: undefined }));
+    }
+}
+
+/**
+ * Run `flush` holding the cross-tab flush lock, where the browser has one
+ */
+async function withFlushLock(flush: () => Promise<void>): Promise<void> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+        await navigator.locks.request(FLUSH_LOCK_NAME, flush);
+    } else {
+        await flush();
+    }
+}
+
+async function enqueue(entries: QueuedListen[]): Promise<void> {
+    try {
+        for (const entry of entries) {
+            await withStore('readwrite', store => store.add(entry));
+        }
+    } catch (error) {
+        console.warn('[Scrobble] Failed to queue listens, they will be lost:', error);
+    }
+}
+
+function apiEndpoint(config: ScrobblerConfig, path: string): string {
+    return `${config.apiUrl.trim().replace(/\/+$/, '')}${path}`;
+}
+
+function toPayload(item: PlayableItem, listenedAt?: number): ListenPayload | null {
+    if (isEpisode(item)) return null;
+    return {
+        ...(listenedAt !== undefined ? { listened_at: listenedAt } : {}),
+        track_metadata: {
+            artist_name: item.artist,
+            track_name: item.title,
+            ...(item.album ? { release_name: item.album } : {}),
+            additional_info: {
+                submission_client: CLIENT_NAME,
+                media_player: CLIENT_NAME,
+                duration_ms: Math.round(item.duration * 1000),
+                ...(item.audio_url ? { origin_url: item.audio_url } : {}),
+            },
+        },
+    };
+}
+
+async function submit(
+    config: ScrobblerConfig,
+    listenType: 'playing_now' | 'single' | 'import',
+    payload: ListenPayload[]
+): Promise<SubmitResult> {
+    try {
+        const response = await fetch(apiEndpoint(config, '/1/submit-listens'), {
+            method: 'POST',
+            headers: {
+                'Authorization': `Token ${config.token}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ listen_type: listenType, payload }),
+        });
+        if (response.ok) return 'ok';
+
+        // A malformed listen will never be accepted and a bad token won't be until it's replaced -
+        // anything else (rate limit, outage) may be later
+        console.warn(`[Scrobble] ${config.name} answered ${response.status}`);
+        if (response.status === 401 || response.status === 403) return 'unauthorized';
+        return response.status === 400 ? 'rejected' : 'retry';
+    } catch {
+        return 'retry';
+    }
+}
+
+function isActive(config: ScrobblerConfig): boolean {
+    return config.enabled && !config.needsAuth && !!config.apiUrl && !!config.token;
+}
+
+function getEnabledServices(): ScrobblerConfig[] {
+    return scrobbleService.getServices().filter(isActive);
+}
+
+function setNeedsAuth(serviceId: string, needsAuth: boolean) {
+    scrobbleService.saveServices(scrobbleService.getServices().map(config =>
+        config.id === serviceId ? { ...config, needsAuth } : config
+    ));
+}
+
+async function handleListenEvent(event: ListenEvent, item: PlayableItem) {
+    if (event.type === 'start') {
+        startTimes.set(item.$id, event.timestamp);
+        const payload = toPayload(item);
+        if (!payload || !navigator.onLine) return;
+        // Now playing is only interesting right now - never queued
+        await Promise.all(getEnabledServices().map(config => submit(config, 'playing_now', [payload])));
+        return;
+    }
+
+    if (event.type !== 'play') return;
+
+    const startedAt = startTimes.get(item.$id) ?? event.timestamp;
+    startTimes.delete(item.$id);
+    const payload = toPayload(item, Math.floor(startedAt / 1000));
+    if (!payload) return;
+
+    const undelivered: QueuedListen[] = [];
+    for (const config of getEnabledServices()) {
+        const result = navigator.onLine ? await submit(config, 'single', [payload]) : 'retry';
+        if (result === 'unauthorized') setNeedsAuth(config.id, true);
+        if (result === 'retry' || result === 'unauthorized') undelivered.push({ serviceId: config.id, listen: payload });
+    }
+    await enqueue(undelivered);
+}
+
+export const scrobbleService = {
+    getServices(): ScrobblerConfig[] {
+        try {
+            const stored = JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || '[]');
+            return Array.isArray(stored) ? stored : [];
+        } catch {
+            return [];
+        }
+    },
+
+    saveServices(configs: ScrobblerConfig[]): void {
+        localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(configs));
+    },
+
+    /**
+     * A new, disabled service pointing at ListenBrainz
+     */
+    createService(): ScrobblerConfig {
+        const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+            ? crypto.randomUUID()
+            : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+        return { id, name: 'ListenBrainz', apiUrl: LISTENBRAINZ_API_URL, token: '', enabled: false };
+    },
+
+    /**
+     * Check a token against the service's validate-token endpoint. A valid token
+     * lifts a service's rejected-token state.
+     */
+    async validateToken(config: ScrobblerConfig): Promise<TokenValidation> {
+        try {
+            const response = await fetch(apiEndpoint(config, '/1/validate-token'), {
+                headers: { 'Authorization': `Token ${config.token}` },
+            });
+            const data = await response.json().catch(() => ({}));
+            if (data.valid && config.needsAuth) setNeedsAuth(config.id, false);
+            return { valid: !!data.valid, userName: data.user_name, message: data.message };
+        } catch (error) {
+            return { valid: false, message: error instanceof Error ? error.message : 'Request failed' };
+        }
+    },
+
+    async getPendingCount(): Promise<number> {
+        try {
+            return await withStore('readonly', store => store.count());
+        } catch {
+            return 0;
+        }
+    },
+
+    /**
+     * Retry queued listens. Tabs take turns, and a listen another tab is already
+     * submitting is left alone. Listens for services that were removed are dropped;
+     * disabled services keep theirs until they are enabled again, and services
+     * whose token was rejected until it validates again.
+     */
+    flush(): Promise<void> {
+        if (flushing) return flushing;
+
+        flushing = withFlushLock(async () => {
+            const now = Date.now();
+            const queued = (await withStore<QueuedListen[]>('readonly', store => store.getAll()))
+                .filter(entry => !isClaimed(entry, now));
+            if (queued.length === 0) return;
+
+            const services = new Map(scrobbleService.getServices().map(config => [config.id, config]));
+            const done: number[] = [];
+
+            const byService = new Map<string, QueuedListen[]>();
+            for (const entry of queued) {
+                if (!services.has(entry.serviceId)) {
+                    done.push(entry.id!);
+                    continue;
+                }
+                byService.set(entry.serviceId, [...(byService.get(entry.serviceId) ?? []), entry]);
+            }
+
+            for (const [serviceId, entries] of byService) {
+                const config = services.get(serviceId)!;
+                if (!isActive(config)) continue;
+
+                for (let i = 0; i < entries.length; i += MAX_IMPORT_SIZE) {
+                    const chunk = await claim(entries.slice(i, i + MAX_IMPORT_SIZE));
+                    if (chunk.length === 0) continue;
+                    const result = await submit(config, chunk.length === 1 ? 'single' : 'import', chunk.map(entry => entry.listen));
+                    if (result === 'unauthorized') setNeedsAuth(config.id, true);
+                    if (result === 'retry' || result === 'unauthorized') {
+                        await release(chunk);
+                        break;
+                    }
+                    // Delivered (or never deliverable) - off the queue before the next chunk
+                    for (const entry of chunk) {
+                        await withStore('readwrite', store => store.delete(entry.id!));
+                    }
+                }
+            }
+
+            for (const id of done) {
+                await withStore('readwrite', store => store.delete(id));
+            }
+        })
+            .catch((error) => console.warn('[Scrobble] Retry failed:', error))
+            .finally(() => {
+                flushing = null;
+            });
+        return flushing;
+    },
+
+    /**
+     * Start scrobbling player events and retrying the queue. Returns a stop function.
+     */
+    start(): () => void {
+        const unsubscribe = listenService.subscribe((event, item) => {
+            handleListenEvent(event, item).catch((error) => console.warn('[Scrobble] Failed to scrobble:', error));
+        });
+
+        const retry = () => {
+            if (navigator.onLine) scrobbleService.flush();
+        };
+        retry();
+        const interval = setInterval(retry, RETRY_INTERVAL_MS);
+        window.addEventListener('online', retry);
+
+        return () => {
+            unsubscribe();
+            clearInterval(interval);
+            window.removeEventListener('online', retry);
+        };
+    },
+};
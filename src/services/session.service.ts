@@ -0,0 +1,127 @@
+/**
+ * Session Service
+ * Persists the player session (queue, current track, position, volume, modes)
+ * so a reload picks up where the listener left off.
+ */
+import { musicService } from './musicService';
+import { isEpisode } from '../utils/trackUtils';
+import type { PlayableItem, PlayerState } from '../types';
+
+export interface PlayerSession {
+    queue: PlayableItem[];
+    nextUp: PlayableItem[];
+    queueContext: string | null;
+    currentTrack: PlayableItem | null;
+    progress: number;
+    volume: number;
+    shuffle: boolean;
+    repeat: PlayerState['repeat'];
+}
+
+interface StoredSession extends PlayerSession {
+    version: number;
+    savedAt: string;
+}
+
+const STORAGE_KEY = 'music-app-player-session';
+const SESSION_VERSION = 1;
+
+// How many queue items hydration tries before giving up on a dead current track
+const MAX_RESOLVE_ATTEMPTS = 3;
+
+export const sessionService = {
+    /**
+     * Save the current session
+     * Quota errors are swallowed - losing a snapshot must never break playback
+     */
+    save(session: PlayerSession): void {
+        const stored: StoredSession = {
+            ...session,
+            version: SESSION_VERSION,
+            savedAt: new Date().toISOString(),
+        };
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+        } catch (error) {
+            console.warn('[Session] Failed to save player session:', error);
+        }
+    },
+
+    /**
+     * Load the saved session, or null if there is none (or it's from an old version)
+     */
+    load(): PlayerSession | null {
+        try {
+            const raw = localStorage.getItem(STORAGE_KEY);
+            if (!raw) return null;
+
+            const stored = JSON.parse(raw) as StoredSession;
+            if (stored.version !== SESSION_VERSION || !Array.isArray(stored.queue)) {
+                return null;
+            }
+
+            return {
+                queue: stored.queue,
+                nextUp: Array.isArray(stored.nextUp) ? stored.nextUp : [],
+                queueContext: typeof stored.queueContext === 'string' ? stored.queueContext : null,
+                currentTrack: stored.currentTrack ?? null,
+                progress: Number.isFinite(stored.progress) ? stored.progress : 0,
+                volume: Number.isFinite(stored.volume) ? Math.max(0, Math.min(1, stored.volume)) : 0.7,
+                shuffle: !!stored.shuffle,
+                repeat: ['none', 'one', 'all'].includes(stored.repeat) ? stored.repeat : 'none',
+            };
+        } catch (error) {
+            console.warn('[Session] Ignoring unreadable player session:', error);
+            return null;
+        }
+    },
+
+    clear(): void {
+        localStorage.removeItem(STORAGE_KEY);
+    },
+
+    /**
+     * Check the stored current track still exists (Jamendo tracks get pulled,
+     * uploads get deleted) and refresh its metadata.
+     * Dead tracks are dropped from the queue and the next item is tried instead,
+     * starting from the beginning since the saved position belonged to the old track.
+     * Only a definite not-found counts as dead - a lookup that fails keeps the stored copy.
+     */
+    async resolve(session: PlayerSession): Promise<PlayerSession> {
+        // Offline: a failed lookup proves nothing, keep the stored copy
+        if (!session.currentTrack || !navigator.onLine) return session;
+
+        let queue = session.queue;
+        const startIdx = Math.max(0, queue.findIndex(t => t.$id === session.currentTrack?.$id));
+        const candidates = queue.some(t => t.$id === session.currentTrack?.$id)
+            ? queue.slice(startIdx)
+            : [session.currentTrack, ...queue];
+
+        for (const candidate of candidates.slice(0, MAX_RESOLVE_ATTEMPTS)) {
+            // Episodes have no direct lookup - playback itself surfaces dead files
+            let resolved: PlayableItem | null = candidate;
+            if (!isEpisode(candidate)) {
+                try {
+                    resolved = await musicService.lookupTrack(candidate.$id);
+                } catch (error) {
+                    console.warn(`[Session] Couldn't check stored item ${candidate.$id}, keeping it:`, error);
+                }
+            }
+
+            if (resolved) {
+                const isOriginal = candidate.$id === session.currentTrack.$id;
+                return {
+                    ...session,
+                    queue: queue.map(t => t.$id === resolved.$id ? resolved : t),
+                    currentTrack: resolved,
+                    progress: isOriginal ? session.progress : 0,
+                };
+            }
+
+            console.warn(`[Session] Stored item ${candidate.$id} no longer resolves, dropping it`);
+            queue = queue.filter(t => t.$id !== candidate.$id);
+        }
+
+        return { ...session, queue, currentTrack: null, progress: 0 };
+    },
+};
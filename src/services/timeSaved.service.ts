@@ -0,0 +1,75 @@
+/**
+ * Time Saved Service
+ * Keeps track of how much listening time skip silence has saved, per episode
+ * and in total. Stored locally.
+ */
+import type { Episode } from '../types';
+
+export interface TimeSavedEntry {
+    itemId: string;
+    title: string;
+    podcastId: string;
+    /** Seconds saved */
+    seconds: number;
+    /** Epoch ms of the last saving */
+    updatedAt: number;
+}
+
+interface TimeSavedLog {
+    /** Seconds saved overall - kept when old episodes are dropped */
+    total: number;
+    episodes: TimeSavedEntry[];
+}
+
+const STORAGE_KEY = 'music-app-time-saved';
+
+// Least recently saved-on episodes are dropped beyond this many
+const EPISODES_LIMIT = 200;
+
+function readLog(): TimeSavedLog {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        if (stored && typeof stored.total === 'number' && Array.isArray(stored.episodes)) return stored;
+    } catch {
+        // Fall through to an empty log
+    }
+    return { total: 0, episodes: [] };
+}
+
+export const timeSavedService = {
+    /**
+     * Add time saved while playing an episode
+     */
+    record(episode: Episode, seconds: number): void {
+        if (!(seconds > 0)) return;
+
+        const log = readLog();
+        const existing = log.episodes.find(entry => entry.itemId === episode.$id);
+        const entry: TimeSavedEntry = {
+            itemId: episode.$id,
+            title: episode.title,
+            podcastId: episode.podcast_id,
+            seconds: (existing?.seconds ?? 0) + seconds,
+            updatedAt: Date.now(),
+        };
+        log.total += seconds;
+        log.episodes = [...log.episodes.filter(e => e.itemId !== episode.$id), entry].slice(-EPISODES_LIMIT);
+
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+        } catch (error) {
+            console.warn('[TimeSaved] Failed to save:', error);
+        }
+    },
+
+    getTotal(): number {
+        return readLog().total;
+    },
+
+    /**
+     * Episodes with time saved, most recent first
+     */
+    getEpisodes(): TimeSavedEntry[] {
+        return [...readLog().episodes].sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+};
@@ -106,6 +106,34 @@ export interface Favorite extends AppwriteDocument {
 // Playable item union type
 export type PlayableItem = Track | Episode;
 
+// Sleep timer - either a wall-clock deadline or a number of items left to finish
+export type SleepTimer =
+    | { mode: 'minutes'; endsAt: number } // epoch ms
+    | { mode: 'tracks'; remaining: number }; // includes the current item, 1 = end of this one
+
+// Why the current item failed to play
+export type PlaybackErrorKind = 'network' | 'decode' | 'unsupported' | 'not-allowed';
+
+export interface PlaybackError {
+    kind: PlaybackErrorKind;
+    itemId: string;
+    /** Retries made so far for this item */
+    attempt: number;
+    /** What the player is doing about it - 'stopped' waits for the user to retry or skip */
+    status: 'retrying' | 'skipping' | 'stopped';
+}
+
+// A-B loop - a region of the current item that plays over and over
+export interface ABLoop {
+    /** Loop start (seconds) */
+    a: number;
+    /** Loop end (seconds) - null while only A is set */
+    b: number | null;
+}
+
+// Loudness normalization - per track, per album (keeps an album's internal dynamics), or off
+export type NormalizationMode = 'off' | 'track' | 'album';
+
 // Player state
 export interface PlayerState {
     currentTrack: PlayableItem | null;
@@ -113,9 +141,21 @@ export interface PlayerState {
     progress: number;
     duration: number;
     volume: number;
-    queue: PlayableItem[];
+    queue: PlayableItem[]; // context queue - album, playlist or page
+    nextUp: PlayableItem[]; // user "Play next" / "Add to queue" lane, plays before the rest of the context
+    queueContext: string | null; // display name of the context, e.g. a playlist name
     shuffle: boolean;
-    repeat: 'none' | 'one' | 'all';
+    repeat: 'none' | 'one' | 'all' | 'ab'; // 'ab' loops abLoop
+    abLoop: ABLoop | null; // points set on the current item - cleared when it changes
+    crossfade: number; // seconds, 0 = gapless
+    resumeThreshold: number; // minutes a track must run to resume where it left off, 0 = episodes only
+    sleepTimer: SleepTimer | null;
+    playbackRate: number; // 1 = normal speed, remembered per show (episodes) and for music
+    normalization: NormalizationMode;
+    playbackError: PlaybackError | null;
+    autoplay: boolean; // keep playing similar tracks when the queue runs out (repeat off)
+    skipSilence: boolean; // episodes: play silent stretches faster
+    voiceBoost: boolean; // episodes: compression and presence EQ for quiet voices
 }
 
 // Auth state
@@ -4,7 +4,7 @@
  */
 
 import { storage, BUCKETS } from '../lib/appwrite';
-import type { Track } from '../types';
+import type { Episode, PlayableItem, Track } from '../types';
 
 /**
  * Get the audio URL for a track based on its source
@@ -63,3 +63,19 @@ export function isJamendoTrack(track: Track): boolean {
 export function isAppwriteTrack(track: Track): boolean {
     return track.source === 'appwrite';
 }
+
+/**
+ * Check if a playable item is a podcast episode
+ */
+export function isEpisode(item: PlayableItem): item is Episode {
+    return 'podcast_id' in item;
+}
+
+/**
+ * Check if playback of an item should continue from its saved position
+ * Episodes always resume; tracks only when at least `thresholdMinutes` long (0 = never).
+ */
+export function isResumable(item: PlayableItem, thresholdMinutes: number): boolean {
+    if (isEpisode(item)) return true;
+    return thresholdMinutes > 0 && item.duration >= thresholdMinutes * 60;
+}